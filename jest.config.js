@@ -7,7 +7,10 @@ module.exports = {
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
   transform: {
     '^.+\\.(ts|tsx)$': 'ts-jest',
+    // Three.js add-ons are only published as ES modules
+    '^.+/three/examples/.+\\.js$': 'ts-jest',
   },
+  transformIgnorePatterns: ['/node_modules/(?!three/examples/)'],
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
   testPathIgnorePatterns: ['/node_modules/', '/dist/'],
   collectCoverageFrom: [
@@ -18,6 +18,13 @@ if (typeof document === 'undefined') {
   };
 }
 
+// jsdom doesn't provide the encoding API
+if (typeof global.TextEncoder === 'undefined') {
+  const { TextEncoder, TextDecoder } = require('util');
+  global.TextEncoder = TextEncoder;
+  global.TextDecoder = TextDecoder;
+}
+
 // Setup requestAnimationFrame and cancelAnimationFrame
 if (typeof window.requestAnimationFrame === 'undefined') {
   window.requestAnimationFrame = jest.fn(callback => setTimeout(callback, 0));
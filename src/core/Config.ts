@@ -8,8 +8,20 @@ interface ConfigData {
   };
   tickRate: number;
   maxFPS: number;
+  maxStepsPerFrame: number;
   debug: boolean;
   startState: string;
+  shadows: {
+    enabled: boolean;
+    type: 'basic' | 'pcf' | 'pcfSoft' | 'vsm'; // Shadow map filtering; 'basic' is unfiltered
+  };
+  palette: {
+    enabled: boolean; // Reduce the 3D frame to the palette colors
+    colors: string[]; // Hex colors, e.g. '#1a1c2c'
+    image?: string; // Palette image; its distinct opaque pixels replace colors
+    dithering: 'none' | 'bayer2' | 'bayer4' | 'bayer8'; // Ordered dithering pattern
+    ditherStrength: number; // How far dithering nudges colors (0-1)
+  };
   fonts: {
     [key: string]: {
       url: string;
@@ -72,8 +84,19 @@ const DEFAULT_CONFIG: ConfigData = {
   },
   tickRate: 0.1, // 100ms per tick (10 updates per second)
   maxFPS: 60,    // 60 frames per second rendering
+  maxStepsPerFrame: 5, // Fixed updates allowed per frame before dropping time
   debug: false,
   startState: 'TestState',
+  shadows: {
+    enabled: false,
+    type: 'basic' // Filtered shadows blur into extra colors at low resolution
+  },
+  palette: {
+    enabled: false,
+    colors: [],
+    dithering: 'bayer4',
+    ditherStrength: 0.1
+  },
   fonts: {
     medium: {
       url: './assets/ascii/medium6x10.png',
@@ -249,6 +272,27 @@ export class Config {
     return this.configData.maxFPS;
   }
   
+  /**
+   * Shorthand for getting the max fixed updates per frame
+   */
+  public get maxStepsPerFrame(): number {
+    return this.configData.maxStepsPerFrame;
+  }
+  
+  /**
+   * Shorthand for getting the shadow settings
+   */
+  public get shadows(): ConfigData['shadows'] {
+    return this.configData.shadows;
+  }
+  
+  /**
+   * Shorthand for getting the palette settings
+   */
+  public get palette(): ConfigData['palette'] {
+    return this.configData.palette;
+  }
+  
   /**
    * Shorthand for getting debug mode
    */
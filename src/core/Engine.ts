@@ -7,23 +7,44 @@ import { ServiceManager } from './services/ServiceManager';
 import { InputManager } from './input/InputManager';
 import { World } from '../ecs/World';
 import { AssetManager } from './assets/AssetManager';
+import { Clock, PerformanceClock } from './time/Clock';
+import { SaveManager } from './save/SaveManager';
+
+/**
+ * Options for creating an engine
+ */
+export interface EngineOptions {
+  /**
+   * Clock driving the main loop (defaults to performance.now())
+   */
+  clock?: Clock;
+  
+  /**
+   * Run without renderer, UI and DOM input
+   * A headless engine doesn't start the animation frame loop; advance it
+   * with step() or frame()
+   */
+  headless?: boolean;
+}
 
 /**
  * Main game engine class
  */
 export class Engine {
   private config!: Config;
-  private renderer!: Renderer;
+  private renderer: Renderer | null = null;
   private stateManager!: StateManager;
   private eventSystem!: EventSystem;
   private serviceManager!: ServiceManager;
   private inputManager!: InputManager;
-  private world!: World;
+  private world: World;
   private assetManager!: AssetManager;
+  private clock: Clock;
+  private headless: boolean;
   
   private running: boolean = false;
+  private timeScale: number = 1;
   private lastFrameTime: number = 0;
-  private lastUpdateTime: number = 0;
   private frameCount: number = 0;
   private updateCount: number = 0;
   private frameTimer: number = 0;
@@ -32,32 +53,47 @@ export class Engine {
   private currentTPS: number = 0;
   
   // Time tracking for render
-  private lastRenderTime: number = 0;
   private renderDeltaTime: number = 0;
-  private renderAccumulator: number = 0;
   
-  // Time tracking for fixed update
+  // Time tracking for fixed update (accumulated game time not yet simulated, in seconds)
   private fixedTimeStep: number = 0;
   private updateAccumulator: number = 0;
   
+  // Progress between the last two fixed updates, used for render interpolation
+  private interpolationAlpha: number = 1;
+  
+  // Game time simulated so far, in seconds
+  private playTime: number = 0;
+  
   // FPS tracking
   private fpsUpdateTime: number = 0;
   
   // TPS tracking (ticks per second)
   private tpsUpdateTime: number = 0;
   
-  constructor() {
+  constructor(options: EngineOptions = {}) {
+    // Use the given clock or fall back to real time
+    this.clock = options.clock || new PerformanceClock();
+    this.headless = options.headless || false;
+    
     // Get config instance
     this.config = Config.getInstance();
     
-    // Create the renderer
-    this.renderer = new Renderer();
+    // Create the ECS world up front; it also holds the pause state
+    this.world = new World();
+    
+    // Create the renderer (headless engines never render)
+    if (!this.headless) {
+      this.renderer = new Renderer();
+    }
     
     // Create state manager
     this.stateManager = new StateManager();
     
     // Connect state manager to renderer and engine
-    this.stateManager.setRenderer(this.renderer);
+    if (this.renderer) {
+      this.stateManager.setRenderer(this.renderer);
+    }
     this.stateManager.setEngine(this);
     
     // Set fixed time step from config (in seconds)
@@ -77,25 +113,21 @@ export class Engine {
     await this.initialize();
     
     // Initialize timers
-    this.lastRenderTime = performance.now();
-    this.lastUpdateTime = this.lastRenderTime;
-    this.fpsUpdateTime = this.lastRenderTime;
-    this.tpsUpdateTime = this.lastRenderTime;
+    this.lastFrameTime = this.clock.now();
+    this.fpsUpdateTime = this.lastFrameTime;
+    this.tpsUpdateTime = this.lastFrameTime;
     this.frameCount = 0;
     this.updateCount = 0;
-    this.renderAccumulator = 0;
+    this.renderDeltaTime = 0;
     this.updateAccumulator = 0;
     
-    // Start the game loop
+    // Start the game loop (headless engines are stepped manually)
     this.running = true;
+    if (!this.headless) {
+      this.renderLoop();
+    }
     
-    // Start render loop
-    this.renderLoop();
-    
-    // Start update loop
-    this.startUpdateLoop();
-    
-    console.log('Fungeon Engine started');
+    console.log(`Fungeon Engine started${this.headless ? ' (headless)' : ''}`);
   }
   
   /**
@@ -126,7 +158,9 @@ export class Engine {
    * Handle window resize events
    */
   resize(): void {
-    this.renderer.resize();
+    if (this.renderer) {
+      this.renderer.resize();
+    }
   }
   
   /**
@@ -147,34 +181,43 @@ export class Engine {
     // Register asset manager as a service
     this.serviceManager.register('assetManager', this.assetManager);
     
-    // Find the game container
-    const container = document.getElementById('game-container');
-    if (!container) {
-      throw new Error('Game container not found');
-    }
-    
-    // Initialize the renderer (which now handles UI as well)
-    await this.renderer.initialize();
-    
-    // Register renderer as a service
-    this.serviceManager.register('renderer', this.renderer);
+    // Register save manager as a service
+    this.serviceManager.register('saveManager', SaveManager.getInstance());
     
-    // Initialize input manager
+    // Get the input manager (headless engines don't listen for DOM input,
+    // but states can still read and simulate input through it)
     this.inputManager = InputManager.getInstance();
-    this.inputManager.initialize(this.renderer.getCanvas());
+    
+    if (this.renderer) {
+      // Find the game container
+      const container = document.getElementById('game-container');
+      if (!container) {
+        throw new Error('Game container not found');
+      }
+      
+      // Initialize the renderer (which now handles UI as well)
+      await this.renderer.initialize();
+      
+      // Register renderer as a service
+      this.serviceManager.register('renderer', this.renderer);
+      
+      // Initialize input manager
+      this.inputManager.initialize(this.renderer.getCanvas());
+    }
     
     // Register input manager as a service
     this.serviceManager.register('inputManager', this.inputManager);
     
-    // Create a world for ECS
-    this.world = new World();
+    // Set up the core ECS systems
     this.world.initializeCoreEcsSystems();
     
-    // Connect renderer with world
-    this.world.setRenderer(this.renderer);
-    
-    // Connect StateManager with Renderer
-    this.stateManager.setRenderer(this.renderer);
+    if (this.renderer) {
+      // Connect renderer with world
+      this.world.setRenderer(this.renderer);
+      
+      // Connect StateManager with Renderer
+      this.stateManager.setRenderer(this.renderer);
+    }
     
     // Log initialization progress
     console.log('Engine systems initialized, loading initial state...');
@@ -200,71 +243,173 @@ export class Engine {
   }
   
   /**
-   * Start the fixed update loop
-   */
-  private startUpdateLoop(): void {
-    // Set up fixed update interval
-    const updateIntervalMs = this.fixedTimeStep * 1000;
-    
-    const updateInterval = setInterval(() => {
-      if (!this.running) {
-        clearInterval(updateInterval);
-        return;
-      }
-      
-      // Perform fixed update
-      this.fixedUpdate(this.fixedTimeStep);
-      
-    }, updateIntervalMs);
-  }
-  
-  /**
-   * Main render loop (variable timestep)
+   * Main loop, driven by requestAnimationFrame
    */
-  private renderLoop(timestamp?: number): void {
+  private renderLoop(): void {
     // If engine is stopped, don't continue the loop
     if (!this.running) return;
     
     // Request next frame immediately to maximize frame rate
     requestAnimationFrame(this.renderLoop.bind(this));
     
-    // Default timestamp if not provided
-    const currentTime = timestamp || performance.now();
+    this.frame();
+  }
+  
+  /**
+   * Run one iteration of the main loop
+   * Simulates the clock time elapsed since the last frame in fixed steps, then renders.
+   * Called every animation frame while running; with a manual clock it can be called
+   * directly to advance the engine deterministically.
+   */
+  frame(): void {
+    const currentTime = this.clock.now();
     
     // Calculate delta time in seconds
-    const deltaTime = (currentTime - this.lastRenderTime) / 1000;
-    this.lastRenderTime = currentTime;
+    const deltaTime = Math.max(0, (currentTime - this.lastFrameTime) / 1000);
+    this.lastFrameTime = currentTime;
     
     // Update FPS counter
     this.updateFps(currentTime);
     
+    // Run as many fixed updates as the elapsed game time calls for
+    if (!this.world.isPaused()) {
+      this.advance(deltaTime * this.timeScale);
+    }
+    
+    // Nothing to draw when headless
+    if (!this.renderer) return;
+    
     // Limit frame rate if maxFPS is set
     const minFrameTime = 1 / this.config.maxFPS;
     this.renderDeltaTime += deltaTime;
     
     // Only render if enough time has passed
     if (this.renderDeltaTime >= minFrameTime) {
+      // Game time passed this frame (none while paused)
+      const gameDeltaTime = this.world.isPaused() ? 0 : deltaTime * this.timeScale;
+      
       // Call state manager render method for rendering systems
-      this.stateManager.render(deltaTime);
+      this.stateManager.render(gameDeltaTime);
       
       // Render the game
-      this.renderer.render(deltaTime);
+      this.renderer.render(deltaTime, this.interpolationAlpha);
       
       // Reset render delta time (clamped to avoid spiral of death)
       this.renderDeltaTime = Math.min(this.renderDeltaTime - minFrameTime, minFrameTime * 3);
     }
   }
   
+  /**
+   * Add elapsed game time to the accumulator and run the fixed updates it covers
+   * At most maxStepsPerFrame updates run per call; if the simulation still lags behind
+   * after that, the backlog is dropped instead of growing every frame (spiral of death)
+   * @param gameTime Elapsed game time in seconds
+   */
+  private advance(gameTime: number): void {
+    const maxSteps = Math.max(1, this.config.maxStepsPerFrame);
+    
+    // Never accumulate more than we are allowed to simulate in one frame,
+    // e.g. after the tab was in the background
+    this.updateAccumulator = Math.min(
+      this.updateAccumulator + gameTime,
+      this.fixedTimeStep * (maxSteps + 1)
+    );
+    
+    let steps = 0;
+    while (this.updateAccumulator >= this.fixedTimeStep && steps < maxSteps) {
+      this.fixedUpdate(this.fixedTimeStep);
+      this.updateAccumulator -= this.fixedTimeStep;
+      steps++;
+    }
+    
+    // Still behind after the maximum number of steps: drop the remaining backlog
+    if (this.updateAccumulator >= this.fixedTimeStep) {
+      this.updateAccumulator %= this.fixedTimeStep;
+    }
+    
+    this.interpolationAlpha = this.updateAccumulator / this.fixedTimeStep;
+  }
+  
+  /**
+   * Immediately run a number of fixed updates
+   * Works while paused, e.g. to advance a paused game tick by tick
+   * @param steps Number of fixed updates to run
+   */
+  step(steps: number = 1): void {
+    for (let i = 0; i < steps; i++) {
+      this.fixedUpdate(this.fixedTimeStep);
+    }
+    
+    // Show the latest tick rather than interpolating towards it
+    this.interpolationAlpha = 1;
+    this.updateAccumulator = 0;
+  }
+  
+  /**
+   * Pause fixed updates
+   * Pauses the engine's world and the current state's world as well, so systems
+   * using RunConditions.unpaused() stop too. Rendering continues so the UI stays responsive
+   */
+  pause(): void {
+    this.setPaused(true);
+  }
+  
+  /**
+   * Resume fixed updates after pause()
+   */
+  resume(): void {
+    this.setPaused(false);
+  }
+  
+  /**
+   * Check if fixed updates are paused
+   * Same as the world's pause state
+   */
+  isPaused(): boolean {
+    return this.world.isPaused();
+  }
+  
+  /**
+   * Set how fast game time passes relative to real time
+   * Fixed updates still use the same time step; a higher scale runs more of them.
+   * States get scaled render times, so their worlds follow the scale as well
+   * @param timeScale Time scale factor (1 = real time, 0.5 = half speed)
+   */
+  setTimeScale(timeScale: number): void {
+    if (timeScale < 0) {
+      throw new Error('Time scale must not be negative');
+    }
+    
+    this.timeScale = timeScale;
+  }
+  
+  /**
+   * Get the time scale factor
+   */
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+  
+  /**
+   * Set the pause state of the engine's world and the current state's world
+   */
+  private setPaused(paused: boolean): void {
+    this.world.setPaused(paused);
+    this.stateManager.getCurrentState()?.getWorld()?.setPaused(paused);
+  }
+  
   /**
    * Fixed update for game logic (fixed timestep)
    */
   private fixedUpdate(deltaTime: number): void {
     // Get current time to track TPS
-    const currentTime = performance.now();
+    const currentTime = this.clock.now();
     
     // Update TPS counter
     this.updateTps(currentTime);
     
+    this.playTime += deltaTime;
+    
     // Update game state
     this.stateManager.update(deltaTime);
     
@@ -279,6 +424,9 @@ export class Engine {
     // Update input manager
     this.inputManager.update();
     
+    // Autosave counts play time, so it waits while paused
+    SaveManager.getInstance().update(this.playTime);
+    
     // General engine updates that aren't state-specific
     // Later, this will update all game systems
   }
@@ -312,12 +460,19 @@ export class Engine {
   }
   
   /**
-   * Get the renderer
+   * Get the renderer, or null when running headless
    */
-  getRenderer(): Renderer {
+  getRenderer(): Renderer | null {
     return this.renderer;
   }
   
+  /**
+   * Check if the engine runs without renderer
+   */
+  isHeadless(): boolean {
+    return this.headless;
+  }
+  
   /**
    * Get the state manager
    */
@@ -339,6 +494,37 @@ export class Engine {
     return this.currentTPS;
   }
   
+  /**
+   * Get the interpolation alpha of the current frame
+   * 0 draws objects at their previous tick state, 1 at their latest tick state
+   */
+  getInterpolationAlpha(): number {
+    return this.interpolationAlpha;
+  }
+  
+  /**
+   * Get the game time simulated so far, in seconds
+   * Only fixed updates count, so time spent paused or loading doesn't
+   */
+  getPlayTime(): number {
+    return this.playTime;
+  }
+  
+  /**
+   * Set the play time, e.g. when loading a save
+   * @param seconds Play time in seconds
+   */
+  setPlayTime(seconds: number): void {
+    this.playTime = Math.max(0, seconds);
+  }
+  
+  /**
+   * Get the ECS world
+   */
+  getWorld(): World {
+    return this.world;
+  }
+  
   /**
    * Get the asset manager
    */
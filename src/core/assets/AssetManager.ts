@@ -2,6 +2,9 @@ import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { EventSystem } from '../events/EventSystem';
 import { Config } from '../Config';
+import { Prefab, PrefabLibrary } from '../../ecs/prefabs/PrefabLibrary';
+import { isPrefabDefinition } from '../../ecs/prefabs/PrefabDefinition';
+import { SceneDefinition, isSceneDefinition } from '../../ecs/scenes/SceneDefinition';
 
 /**
  * Asset types supported by the asset manager
@@ -10,6 +13,9 @@ export enum AssetType {
   TEXTURE = 'texture',
   MODEL = 'model',
   FONT = 'font',
+  PREFAB = 'prefab',
+  SCENE = 'scene',
+  SHADER = 'shader',
   // More types can be added in the future (AUDIO, etc.)
 }
 
@@ -35,6 +41,7 @@ export interface PreloadConfig {
 export enum AssetEvents {
   ASSET_LOADED = 'asset:loaded',
   ASSET_ERROR = 'asset:error',
+  ASSET_RELOADED = 'asset:reloaded',
   PRELOAD_COMPLETE = 'asset:preload_complete',
   PRELOAD_PROGRESS = 'asset:preload_progress',
 }
@@ -74,6 +81,11 @@ export class AssetManager {
    */
   private cache: Map<string, any> = new Map();
   
+  /**
+   * IDs of the cached object assets and the parts of cached models, by asset
+   */
+  private assetIds: Map<object, string> = new Map();
+  
   /**
    * Loaders for different asset types
    */
@@ -95,6 +107,16 @@ export class AssetManager {
    */
   private fontInfo: Map<string, FontLoadResult> = new Map();
   
+  /**
+   * Descriptors of known assets, so assets referenced by ID can be loaded on demand
+   */
+  private descriptors: Map<string, AssetDescriptor> = new Map();
+  
+  /**
+   * Loads started by ID that haven't finished yet
+   */
+  private pending: Map<string, Promise<any>> = new Map();
+  
   /**
    * Private constructor (singleton pattern)
    */
@@ -150,6 +172,8 @@ export class AssetManager {
    * @returns Promise that resolves with the loaded texture
    */
   public loadTexture(id: string, path: string): Promise<THREE.Texture> {
+    this.descriptors.set(id, { type: AssetType.TEXTURE, id, path });
+    
     // Check if the texture is already cached
     if (this.cache.has(id)) {
       return Promise.resolve(this.cache.get(id));
@@ -164,7 +188,7 @@ export class AssetManager {
         fullPath,
         // onLoad callback
         (texture) => {
-          this.cache.set(id, texture);
+          this.cacheAsset(id, texture);
           this.eventSystem.publish(AssetEvents.ASSET_LOADED, { 
             type: AssetType.TEXTURE, 
             id, 
@@ -195,6 +219,8 @@ export class AssetManager {
    * @returns Promise that resolves with the model loading result
    */
   public loadModel(id: string, path: string): Promise<ModelLoadResult> {
+    this.descriptors.set(id, { type: AssetType.MODEL, id, path });
+    
     // Check if the model is already cached
     if (this.cache.has(id)) {
       return Promise.resolve(this.cache.get(id));
@@ -261,7 +287,7 @@ export class AssetManager {
           }
           
           // Cache the result
-          this.cache.set(id, result);
+          this.cacheAsset(id, result);
           
           // Emit event
           this.eventSystem.publish(AssetEvents.ASSET_LOADED, { 
@@ -309,6 +335,8 @@ export class AssetManager {
     customWidths?: { [key: string]: number },
     leading?: number
   ): Promise<FontLoadResult> {
+    this.descriptors.set(id, { type: AssetType.FONT, id, path });
+    
     // Check if the font is already cached
     if (this.fontInfo.has(id)) {
       return Promise.resolve(this.fontInfo.get(id)!);
@@ -389,6 +417,254 @@ export class AssetManager {
     });
   }
   
+  /**
+   * Load a prefab definition (JSON) and register it in the PrefabLibrary
+   * Nested and base prefabs are looked up by name when instantiating, so
+   * they can be loaded in any order
+   * @param id Asset ID for caching
+   * @param path Path to the prefab file
+   * @returns Promise that resolves with the registered prefab
+   */
+  public async loadPrefab(id: string, path: string): Promise<Prefab> {
+    this.descriptors.set(id, { type: AssetType.PREFAB, id, path });
+    
+    // Check if the prefab is already cached
+    if (this.cache.has(id)) {
+      return this.cache.get(id);
+    }
+    
+    // Get the full path
+    const fullPath = this.getFullPath(path);
+    
+    try {
+      const response = await fetch(fullPath);
+      if (!response.ok) {
+        throw new Error(`Failed to load prefab file: ${response.statusText}`);
+      }
+      
+      const definition = await response.json();
+      if (!isPrefabDefinition(definition)) {
+        throw new Error(`Invalid prefab file: ${fullPath}`);
+      }
+      
+      const prefab = PrefabLibrary.getInstance().register(definition);
+      this.cacheAsset(id, prefab);
+      
+      this.eventSystem.publish(AssetEvents.ASSET_LOADED, { 
+        type: AssetType.PREFAB, 
+        id, 
+        asset: prefab 
+      });
+      
+      return prefab;
+    } catch (error) {
+      console.error(`Error loading prefab: ${id}`, error);
+      this.eventSystem.publish(AssetEvents.ASSET_ERROR, { 
+        type: AssetType.PREFAB, 
+        id, 
+        error 
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Load a scene file
+   * Assets the scene references are registered, so they load on demand when
+   * the scene is built (see buildScene)
+   * @param id Asset ID for caching
+   * @param path Path to the scene file (.json)
+   * @returns Promise that resolves with the scene definition
+   */
+  public async loadScene(id: string, path: string): Promise<SceneDefinition> {
+    this.descriptors.set(id, { type: AssetType.SCENE, id, path });
+    
+    // Check if the scene is already cached
+    if (this.cache.has(id)) {
+      return this.cache.get(id);
+    }
+    
+    // Get the full path
+    const fullPath = this.getFullPath(path);
+    
+    try {
+      const response = await fetch(fullPath);
+      if (!response.ok) {
+        throw new Error(`Failed to load scene file: ${response.statusText}`);
+      }
+      
+      const definition = await response.json();
+      if (!isSceneDefinition(definition)) {
+        throw new Error(`Invalid scene file: ${fullPath}`);
+      }
+      
+      for (const descriptor of definition.assets || []) {
+        this.registerAsset(descriptor);
+      }
+      this.cacheAsset(id, definition);
+      
+      this.eventSystem.publish(AssetEvents.ASSET_LOADED, { 
+        type: AssetType.SCENE, 
+        id, 
+        asset: definition 
+      });
+      
+      return definition;
+    } catch (error) {
+      console.error(`Error loading scene: ${id}`, error);
+      this.eventSystem.publish(AssetEvents.ASSET_ERROR, { 
+        type: AssetType.SCENE, 
+        id, 
+        error 
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Load a GLSL shader file (vertex or fragment shader)
+   * @param id Asset ID for caching
+   * @param path Path to the shader file (.glsl, .vert or .frag)
+   * @returns Promise that resolves with the shader source
+   */
+  public async loadShader(id: string, path: string): Promise<string> {
+    this.descriptors.set(id, { type: AssetType.SHADER, id, path });
+    
+    // Check if the shader is already cached
+    if (this.cache.has(id)) {
+      return this.cache.get(id);
+    }
+    
+    // Get the full path
+    const fullPath = this.getFullPath(path);
+    
+    try {
+      const response = await fetch(fullPath);
+      if (!response.ok) {
+        throw new Error(`Failed to load shader file: ${response.statusText}`);
+      }
+      
+      const source = await response.text();
+      this.cacheAsset(id, source);
+      
+      this.eventSystem.publish(AssetEvents.ASSET_LOADED, { 
+        type: AssetType.SHADER, 
+        id, 
+        asset: source 
+      });
+      
+      return source;
+    } catch (error) {
+      console.error(`Error loading shader: ${id}`, error);
+      this.eventSystem.publish(AssetEvents.ASSET_ERROR, { 
+        type: AssetType.SHADER, 
+        id, 
+        error 
+      });
+      throw error;
+    }
+  }
+  
+  /**
+   * Load an asset again from its file, e.g. after it was edited
+   * Publishes ASSET_RELOADED with the new asset, so its users can swap it in.
+   * The old asset isn't disposed, as it may still be in use until then
+   * @param id Asset ID of a loaded or registered asset
+   * @returns Promise that resolves with the reloaded asset
+   */
+  public async reloadAsset(id: string): Promise<any> {
+    const descriptor = this.descriptors.get(id);
+    if (!descriptor) {
+      throw new Error(`Unknown asset: ${id}`);
+    }
+    
+    this.uncacheAsset(id);
+    this.fontInfo.delete(id);
+    const asset = await this.loadAssetById(id);
+    
+    this.eventSystem.publish(AssetEvents.ASSET_RELOADED, { 
+      type: descriptor.type, 
+      id, 
+      asset 
+    });
+    
+    return asset;
+  }
+  
+  /**
+   * Make an asset known without loading it, so it can be loaded by ID later
+   * (e.g. when deserializing components that reference it)
+   * @param descriptor Asset descriptor
+   */
+  public registerAsset(descriptor: AssetDescriptor): void {
+    this.descriptors.set(descriptor.id, { ...descriptor });
+  }
+  
+  /**
+   * Get the descriptor of a known asset
+   * @param id Asset ID
+   * @returns The descriptor, or undefined if the asset was never loaded or registered
+   */
+  public getAssetDescriptor(id: string): AssetDescriptor | undefined {
+    return this.descriptors.get(id);
+  }
+  
+  /**
+   * Get an asset by ID, loading it first if it isn't cached
+   * @param id Asset ID of a loaded or registered asset
+   * @returns Promise that resolves with the asset
+   */
+  public loadAssetById(id: string): Promise<any> {
+    if (this.cache.has(id)) {
+      return Promise.resolve(this.cache.get(id));
+    }
+    
+    const descriptor = this.descriptors.get(id);
+    if (!descriptor) {
+      return Promise.reject(new Error(`Unknown asset: ${id}`));
+    }
+    
+    // Share the load between everyone waiting for the asset
+    let load = this.pending.get(id);
+    if (!load) {
+      load = this.loadAsset(descriptor).finally(() => this.pending.delete(id));
+      this.pending.set(id, load);
+    }
+    
+    return load;
+  }
+  
+  /**
+   * Pass an asset to a callback, right away if it is cached or once it has been loaded
+   * Load errors are logged, and the callback isn't called
+   * @param id Asset ID of a loaded or registered asset
+   * @param onResolved Called with the asset
+   */
+  public resolveAsset(id: string, onResolved: (asset: any) => void): void {
+    if (this.cache.has(id)) {
+      onResolved(this.cache.get(id));
+      return;
+    }
+    
+    this.loadAssetById(id)
+      .then(onResolved)
+      .catch(error => console.error(`Failed to resolve asset: ${id}`, error));
+  }
+  
+  /**
+   * Find the ID of a cached asset
+   * Parts of models (geometry, skeleton, animations) resolve to the model's ID.
+   * Only objects are found; assets such as shader sources are plain strings,
+   * which different assets can share
+   * @param asset The asset
+   * @returns The asset ID, or null if the asset isn't a cached object
+   */
+  public getAssetId(asset: unknown): string | null {
+    if (typeof asset !== 'object' || asset === null) return null;
+    
+    return this.assetIds.get(asset) || null;
+  }
+  
   /**
    * Get an asset from the cache
    * @param id Asset ID
@@ -448,6 +724,36 @@ export class AssetManager {
     return asset && asset.canvas ? asset as FontLoadResult : undefined;
   }
   
+  /**
+   * Get a prefab from the cache
+   * @param id Prefab asset ID
+   * @returns The cached prefab or undefined if not found
+   */
+  public getPrefab(id: string): Prefab | undefined {
+    const asset = this.cache.get(id);
+    return asset instanceof Prefab ? asset : undefined;
+  }
+  
+  /**
+   * Get a scene from the cache
+   * @param id Scene asset ID
+   * @returns The cached scene definition or undefined if not found
+   */
+  public getScene(id: string): SceneDefinition | undefined {
+    const asset = this.cache.get(id);
+    return isSceneDefinition(asset) ? asset : undefined;
+  }
+  
+  /**
+   * Get a shader from the cache
+   * @param id Shader asset ID
+   * @returns The cached shader source or undefined if not found
+   */
+  public getShader(id: string): string | undefined {
+    const asset = this.cache.get(id);
+    return typeof asset === 'string' ? asset : undefined;
+  }
+  
   /**
    * Check if an asset is already loaded
    * @param id Asset ID
@@ -522,6 +828,12 @@ export class AssetManager {
         return this.loadTexture(asset.id, asset.path);
       case AssetType.MODEL:
         return this.loadModel(asset.id, asset.path);
+      case AssetType.PREFAB:
+        return this.loadPrefab(asset.id, asset.path);
+      case AssetType.SCENE:
+        return this.loadScene(asset.id, asset.path);
+      case AssetType.SHADER:
+        return this.loadShader(asset.id, asset.path);
       case AssetType.FONT:
         const config = Config.getInstance();
         const fontConfig = config.config.fonts[asset.id];
@@ -552,18 +864,64 @@ export class AssetManager {
         this.disposeAsset(asset);
       });
       this.cache.clear();
+      this.assetIds.clear();
     } else {
       // Clear specified assets
       for (const id of ids) {
-        const asset = this.cache.get(id);
+        const asset = this.uncacheAsset(id);
         if (asset) {
           this.disposeAsset(asset);
-          this.cache.delete(id);
         }
       }
     }
   }
   
+  /**
+   * Add an asset to the cache, replacing the asset cached under its ID
+   * @param id Asset ID
+   * @param asset The asset
+   */
+  private cacheAsset(id: string, asset: any): void {
+    this.uncacheAsset(id);
+    
+    this.cache.set(id, asset);
+    for (const part of this.getAssetParts(asset)) {
+      this.assetIds.set(part, id);
+    }
+  }
+  
+  /**
+   * Remove an asset from the cache
+   * @param id Asset ID
+   * @returns The removed asset, or undefined if it wasn't cached
+   */
+  private uncacheAsset(id: string): any {
+    const asset = this.cache.get(id);
+    if (asset === undefined) return undefined;
+    
+    this.cache.delete(id);
+    for (const part of this.getAssetParts(asset)) {
+      if (this.assetIds.get(part) === id) {
+        this.assetIds.delete(part);
+      }
+    }
+    
+    return asset;
+  }
+  
+  /**
+   * Get an asset with the parts that resolve to its ID
+   * Models are found by their geometry, skeleton, animations and original model as well.
+   * Assets that aren't objects have no parts, as equal values would collide
+   * @param asset The asset
+   */
+  private getAssetParts(asset: any): object[] {
+    if (typeof asset !== 'object' || asset === null) return [];
+    if (!(asset.geometry instanceof THREE.BufferGeometry)) return [asset];
+    
+    return [asset, asset.geometry, asset.skeleton, asset.animations, asset.originalModel].filter(part => part);
+  }
+  
   /**
    * Properly dispose of an asset to free memory
    * @param asset Asset to dispose
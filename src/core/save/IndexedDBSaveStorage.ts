@@ -0,0 +1,91 @@
+import { SaveRecord, SaveStorage } from './SaveStorage';
+
+/**
+ * Save storage backed by IndexedDB
+ * Allows much larger saves than localStorage and stores binary data as is
+ */
+export class IndexedDBSaveStorage implements SaveStorage {
+  /**
+   * Database connection, opened on first use
+   */
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param databaseName Name of the IndexedDB database
+   * @param storeName Name of the object store holding the saves
+   */
+  constructor(
+    private databaseName: string = 'fungeon',
+    private storeName: string = 'saves'
+  ) {}
+
+  public async read(slot: string): Promise<SaveRecord | null> {
+    const record = await this.request<SaveRecord | undefined>('readonly', store => store.get(slot));
+    return record || null;
+  }
+
+  public async write(slot: string, record: SaveRecord): Promise<void> {
+    await this.request('readwrite', store => store.put(record, slot));
+  }
+
+  public async delete(slot: string): Promise<boolean> {
+    const count = await this.request<number>('readonly', store => store.count(slot));
+    if (count === 0) return false;
+
+    await this.request('readwrite', store => store.delete(slot));
+    return true;
+  }
+
+  public async list(): Promise<string[]> {
+    const keys = await this.request<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return keys.map(key => String(key));
+  }
+
+  /**
+   * Open the database, creating the object store if needed
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error || new Error(`Failed to open database ${this.databaseName}`));
+      });
+
+      // Allow retrying after a failed open
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Run a request on the object store in its own transaction
+   * @param mode Transaction mode
+   * @param createRequest Creates the request from the store
+   * @returns The request result, once the transaction completed
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+
+    return new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = createRequest(transaction.objectStore(this.storeName));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error || new Error('IndexedDB transaction failed'));
+      transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
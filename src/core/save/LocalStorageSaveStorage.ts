@@ -0,0 +1,85 @@
+import { SaveRecord, SaveStorage } from './SaveStorage';
+
+/**
+ * Save storage backed by window.localStorage
+ * Simple and synchronous under the hood, but limited to a few MB per origin;
+ * binary saves are stored as base64
+ */
+export class LocalStorageSaveStorage implements SaveStorage {
+  /**
+   * @param prefix Prefix of the localStorage keys, to keep saves apart from other data
+   */
+  constructor(private prefix: string = 'fungeon:save:') {}
+
+  public async read(slot: string): Promise<SaveRecord | null> {
+    const json = localStorage.getItem(this.prefix + slot);
+    if (json === null) return null;
+
+    const stored = JSON.parse(json);
+    if (typeof stored !== 'object' || stored === null || typeof stored.data !== 'string') {
+      throw new Error(`Invalid save record in slot ${slot}`);
+    }
+
+    return {
+      metadata: stored.metadata,
+      data: stored.binary ? fromBase64(stored.data) : stored.data,
+      checksum: stored.checksum
+    };
+  }
+
+  public async write(slot: string, record: SaveRecord): Promise<void> {
+    const binary = typeof record.data !== 'string';
+
+    localStorage.setItem(this.prefix + slot, JSON.stringify({
+      metadata: record.metadata,
+      binary,
+      data: typeof record.data === 'string' ? record.data : toBase64(record.data),
+      checksum: record.checksum
+    }));
+  }
+
+  public async delete(slot: string): Promise<boolean> {
+    const key = this.prefix + slot;
+    if (localStorage.getItem(key) === null) return false;
+
+    localStorage.removeItem(key);
+    return true;
+  }
+
+  public async list(): Promise<string[]> {
+    const slots: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(this.prefix)) {
+        slots.push(key.slice(this.prefix.length));
+      }
+    }
+
+    return slots;
+  }
+}
+
+/**
+ * Encode bytes as base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  // Convert in chunks to stay below the argument limit of fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 to bytes
+ */
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,37 @@
+import { SaveRecord, SaveStorage } from './SaveStorage';
+
+/**
+ * Save storage that keeps records in memory
+ * Nothing survives a page reload; meant for tests and headless runs
+ */
+export class MemorySaveStorage implements SaveStorage {
+  private records: Map<string, SaveRecord> = new Map();
+
+  public async read(slot: string): Promise<SaveRecord | null> {
+    const record = this.records.get(slot);
+    return record ? copyRecord(record) : null;
+  }
+
+  public async write(slot: string, record: SaveRecord): Promise<void> {
+    this.records.set(slot, copyRecord(record));
+  }
+
+  public async delete(slot: string): Promise<boolean> {
+    return this.records.delete(slot);
+  }
+
+  public async list(): Promise<string[]> {
+    return Array.from(this.records.keys());
+  }
+}
+
+/**
+ * Copy a record so stored saves can't be changed through references held by callers
+ */
+function copyRecord(record: SaveRecord): SaveRecord {
+  return {
+    metadata: { ...record.metadata },
+    data: typeof record.data === 'string' ? record.data : record.data.slice(),
+    checksum: record.checksum
+  };
+}
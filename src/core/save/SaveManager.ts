@@ -0,0 +1,371 @@
+import { EventSystem } from '../events/EventSystem';
+import { ServiceManager } from '../services/ServiceManager';
+import { SerializationSystem } from '../../ecs/serialization/SerializationSystem';
+import { SaveData } from '../../ecs/serialization/SaveFormat';
+import { SaveMetadata, SaveRecord, SaveStorage } from './SaveStorage';
+import { IndexedDBSaveStorage } from './IndexedDBSaveStorage';
+import { LocalStorageSaveStorage } from './LocalStorageSaveStorage';
+import { MemorySaveStorage } from './MemorySaveStorage';
+import type { Engine } from '../Engine';
+import type { Renderer } from '../../rendering/Renderer';
+
+/**
+ * Events emitted by the SaveManager
+ */
+export enum SaveEvents {
+  SAVED = 'save:saved',
+  LOADED = 'save:loaded',
+  AUTOSAVE_FAILED = 'save:autosave_failed',
+}
+
+/**
+ * Options for saving
+ */
+export interface SaveOptions {
+  /**
+   * Display name of the save (defaults to the slot name)
+   */
+  name?: string;
+
+  /**
+   * Whether to capture a thumbnail from the renderer (default: true)
+   */
+  thumbnail?: boolean;
+}
+
+/**
+ * A slot as listed by SaveManager.list
+ */
+export interface SaveSlotInfo {
+  /**
+   * The slot name
+   */
+  slot: string;
+
+  /**
+   * Save metadata, or null if the record couldn't be read
+   */
+  metadata: SaveMetadata | null;
+
+  /**
+   * Whether the save failed its checksum or couldn't be read
+   */
+  corrupted: boolean;
+}
+
+/**
+ * Settings and progress of a running autosave
+ */
+interface Autosave {
+  serializer: SerializationSystem;
+  interval: number;
+  slot: string;
+
+  /**
+   * Play time of the last autosave (or of the start), null before the first update
+   */
+  lastPlayTime: number | null;
+}
+
+/**
+ * SaveManager - Stores saves of the world in named slots
+ *
+ * Saves are written through a SerializationSystem, so they use its format
+ * (JSON or binary), and persisted by a pluggable storage backend. Each save
+ * carries metadata for save/load menus and a checksum that is verified
+ * before a save is loaded.
+ */
+export class SaveManager {
+  private static instance: SaveManager;
+
+  /**
+   * Storage backend
+   */
+  private storage: SaveStorage;
+
+  /**
+   * Running autosave, or null if autosave is off
+   */
+  private autosave: Autosave | null = null;
+
+  /**
+   * Whether an autosave is being written
+   */
+  private autosaving: boolean = false;
+
+  /**
+   * Private constructor (use getInstance instead)
+   */
+  private constructor() {
+    // Use the roomiest storage the environment has
+    if (typeof indexedDB !== 'undefined') {
+      this.storage = new IndexedDBSaveStorage();
+    } else if (typeof localStorage !== 'undefined') {
+      this.storage = new LocalStorageSaveStorage();
+    } else {
+      this.storage = new MemorySaveStorage();
+    }
+  }
+
+  /**
+   * Get the SaveManager instance
+   */
+  public static getInstance(): SaveManager {
+    if (!SaveManager.instance) {
+      SaveManager.instance = new SaveManager();
+    }
+    return SaveManager.instance;
+  }
+
+  /**
+   * Set the storage backend
+   * @param storage The storage backend
+   */
+  public setStorage(storage: SaveStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * Get the storage backend
+   */
+  public getStorage(): SaveStorage {
+    return this.storage;
+  }
+
+  /**
+   * Save the world of a serialization system to a slot
+   * @param slot The slot name
+   * @param serializer Serialization system of the world to save
+   * @param options Save options
+   * @returns Metadata of the written save
+   * @throws Error if the world can't be encoded
+   */
+  public async save(slot: string, serializer: SerializationSystem, options: SaveOptions = {}): Promise<SaveMetadata> {
+    return this.write(slot, serializer, options, false);
+  }
+
+  /**
+   * Load a slot into the world of a serialization system
+   * The saved entities replace those of the world, which keeps its systems, and the
+   * engine play time is restored; switching to the saved state is up to the caller
+   * @param slot The slot name
+   * @param serializer Serialization system of the world to load into
+   * @returns Metadata of the loaded save
+   * @throws Error if the slot is empty, corrupted or can't be loaded
+   */
+  public async load(slot: string, serializer: SerializationSystem): Promise<SaveMetadata> {
+    const record = await this.storage.read(slot);
+    if (!record) {
+      throw new Error(`Save slot ${slot} is empty`);
+    }
+
+    if (computeChecksum(record) !== record.checksum) {
+      throw new Error(`Save slot ${slot} is corrupted`);
+    }
+
+    if (!serializer.loadWorld(record.data)) {
+      throw new Error(`Failed to load save slot ${slot}`);
+    }
+
+    const engine = ServiceManager.getInstance().get<Engine>('engine');
+    if (engine) {
+      engine.setPlayTime(record.metadata.playtime);
+    }
+
+    // Count the autosave interval from the loaded play time
+    if (this.autosave) {
+      this.autosave.lastPlayTime = null;
+    }
+
+    EventSystem.getInstance().publish(SaveEvents.LOADED, { slot, metadata: record.metadata });
+
+    return record.metadata;
+  }
+
+  /**
+   * List all slots with their metadata
+   * @returns The slots, newest save first
+   */
+  public async list(): Promise<SaveSlotInfo[]> {
+    const slots = await this.storage.list();
+    const infos: SaveSlotInfo[] = [];
+
+    for (const slot of slots) {
+      try {
+        const record = await this.storage.read(slot);
+        if (!record) continue;
+
+        infos.push({
+          slot,
+          metadata: record.metadata,
+          corrupted: computeChecksum(record) !== record.checksum
+        });
+      } catch (error) {
+        infos.push({ slot, metadata: null, corrupted: true });
+      }
+    }
+
+    return infos.sort((a, b) => (b.metadata ? b.metadata.timestamp : 0) - (a.metadata ? a.metadata.timestamp : 0));
+  }
+
+  /**
+   * Check if a slot holds a save
+   * @param slot The slot name
+   */
+  public async has(slot: string): Promise<boolean> {
+    return (await this.storage.list()).includes(slot);
+  }
+
+  /**
+   * Delete a save
+   * @param slot The slot name
+   * @returns True if there was a save to delete
+   */
+  public async delete(slot: string): Promise<boolean> {
+    return this.storage.delete(slot);
+  }
+
+  /**
+   * Start saving automatically at an interval of play time, replacing a running autosave
+   * Play time only passes in fixed updates, so nothing is saved while the game
+   * is paused or loading. A save is skipped while the previous autosave is
+   * still being written.
+   * @param serializer Serialization system of the world to save
+   * @param intervalSeconds Play time between autosaves in seconds
+   * @param slot The slot to save to
+   */
+  public startAutosave(serializer: SerializationSystem, intervalSeconds: number, slot: string = 'autosave'): void {
+    if (intervalSeconds <= 0) {
+      throw new Error('Autosave interval must be positive');
+    }
+
+    this.autosave = { serializer, interval: intervalSeconds, slot, lastPlayTime: null };
+  }
+
+  /**
+   * Stop saving automatically
+   */
+  public stopAutosave(): void {
+    this.autosave = null;
+  }
+
+  /**
+   * Check if autosave is running
+   */
+  public isAutosaving(): boolean {
+    return this.autosave !== null;
+  }
+
+  /**
+   * Autosave if the interval has passed
+   * Called by the engine after every fixed update
+   * @param playTime The current play time in seconds
+   */
+  public update(playTime: number): void {
+    const autosave = this.autosave;
+    if (!autosave) return;
+
+    // Count from the first update, or from the new play time if it was set back
+    if (autosave.lastPlayTime === null || playTime < autosave.lastPlayTime) {
+      autosave.lastPlayTime = playTime;
+      return;
+    }
+
+    if (playTime - autosave.lastPlayTime < autosave.interval || this.autosaving) return;
+
+    autosave.lastPlayTime = playTime;
+    this.autosaving = true;
+    this.write(autosave.slot, autosave.serializer, {}, true)
+      .catch(error => {
+        console.error('Autosave failed:', error);
+        EventSystem.getInstance().publish(SaveEvents.AUTOSAVE_FAILED, { slot: autosave.slot, error });
+      })
+      .finally(() => {
+        this.autosaving = false;
+      });
+  }
+
+  /**
+   * Write a save with its metadata and checksum
+   */
+  private async write(
+    slot: string,
+    serializer: SerializationSystem,
+    options: SaveOptions,
+    autosave: boolean
+  ): Promise<SaveMetadata> {
+    const services = ServiceManager.getInstance();
+    const engine = services.get<Engine>('engine');
+    const renderer = services.get<Renderer>('renderer');
+    const state = engine ? engine.getStateManager().getCurrentState() : null;
+
+    let thumbnail: string | null = null;
+    if (renderer && options.thumbnail !== false) {
+      try {
+        thumbnail = renderer.captureThumbnail();
+      } catch (error) {
+        // A missing thumbnail shouldn't prevent saving
+        console.warn('Failed to capture save thumbnail:', error);
+      }
+    }
+
+    const metadata: SaveMetadata = {
+      slot,
+      name: options.name || slot,
+      timestamp: Date.now(),
+      playtime: engine ? engine.getPlayTime() : 0,
+      thumbnail,
+      state: state ? state.getName() : null,
+      autosave
+    };
+
+    const data = serializer.saveWorld();
+    if (data === null) {
+      throw new Error(`Failed to encode save slot ${slot}`);
+    }
+
+    const record: SaveRecord = {
+      metadata,
+      data,
+      checksum: computeChecksum({ metadata, data })
+    };
+
+    await this.storage.write(slot, record);
+
+    EventSystem.getInstance().publish(SaveEvents.SAVED, { slot, metadata });
+
+    return metadata;
+  }
+}
+
+/**
+ * Compute the checksum of a save (32-bit FNV-1a over the metadata and data)
+ * @param record The save; its checksum field is ignored
+ * @returns The checksum as a hex string
+ */
+export function computeChecksum(record: { metadata: SaveMetadata; data: SaveData }): string {
+  let hash = 0x811c9dc5;
+
+  const addByte = (byte: number): void => {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  };
+  const addString = (text: string): void => {
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      addByte(code & 0xff);
+      addByte(code >>> 8);
+    }
+  };
+
+  // Hash the metadata fields in a fixed order so storage can't affect the result
+  const { slot, name, timestamp, playtime, thumbnail, state, autosave } = record.metadata;
+  addString(JSON.stringify([slot, name, timestamp, playtime, thumbnail, state, autosave]));
+
+  if (typeof record.data === 'string') {
+    addString(record.data);
+  } else {
+    record.data.forEach(addByte);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,94 @@
+import { SaveData } from '../../ecs/serialization/SaveFormat';
+
+/**
+ * Information shown for a save slot without loading it
+ */
+export interface SaveMetadata {
+  /**
+   * Slot the save is stored in
+   */
+  slot: string;
+
+  /**
+   * Display name of the save
+   */
+  name: string;
+
+  /**
+   * When the save was written (ms since the epoch)
+   */
+  timestamp: number;
+
+  /**
+   * Game time played when the save was written, in seconds
+   */
+  playtime: number;
+
+  /**
+   * Small image of the game screen as a data URL, or null if there was no renderer
+   */
+  thumbnail: string | null;
+
+  /**
+   * Name of the state that was active, or null if there was none
+   */
+  state: string | null;
+
+  /**
+   * Whether the save was written by autosave
+   */
+  autosave: boolean;
+}
+
+/**
+ * A save as stored by a backend
+ */
+export interface SaveRecord {
+  /**
+   * Save metadata
+   */
+  metadata: SaveMetadata;
+
+  /**
+   * The encoded world (see SerializationSystem)
+   */
+  data: SaveData;
+
+  /**
+   * Checksum of the metadata and data, used to detect corrupted saves
+   */
+  checksum: string;
+}
+
+/**
+ * Persistence backend for saves
+ * Backends only store records; checksums are computed and checked by SaveManager
+ */
+export interface SaveStorage {
+  /**
+   * Read the record in a slot
+   * @param slot The slot name
+   * @returns The record, or null if the slot is empty
+   * @throws Error if the stored record can't be read
+   */
+  read(slot: string): Promise<SaveRecord | null>;
+
+  /**
+   * Write a record to a slot, replacing what's there
+   * @param slot The slot name
+   * @param record The record to write
+   */
+  write(slot: string, record: SaveRecord): Promise<void>;
+
+  /**
+   * Delete the record in a slot
+   * @param slot The slot name
+   * @returns True if there was a record to delete
+   */
+  delete(slot: string): Promise<boolean>;
+
+  /**
+   * Get the names of all slots holding a record
+   */
+  list(): Promise<string[]>;
+}
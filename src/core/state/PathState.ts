@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { State } from './State';
 import { Renderer } from '../../rendering/Renderer';
 import { Engine } from '../Engine';
+import { Config } from '../Config';
 import { TextBox } from '../../ui/elements/TextBox';
 import { 
   World, 
@@ -103,6 +104,13 @@ export class PathState extends State {
     
   }
   
+  /**
+   * Get the ECS world of this state
+   */
+  override getWorld(): World | null {
+    return this.world;
+  }
+  
   /**
    * Initialize the state
    */
@@ -230,14 +238,6 @@ export class PathState extends State {
     
     console.log("Creating ECS world for monkey test");
     
-    // Register component types for serialization
-    this.world.registerComponent('CameraComponent', CameraComponent);
-    this.world.registerComponent('MeshComponent', MeshComponent);
-    this.world.registerComponent('MaterialComponent', MaterialComponent);
-    this.world.registerComponent('AnimationComponent', AnimationComponent);
-    this.world.registerComponent('CurveComponent', CurveComponent);
-    this.world.registerComponent('ConstraintComponent', ConstraintComponent);
-    
     // Initialize core systems - this will set up ThreeSceneSystem and CameraSystem
     this.world.initializeCoreEcsSystems();
     
@@ -263,6 +263,10 @@ export class PathState extends State {
   private createTracker(): void {
     if (!this.world) return;
     
+    // The tracker follows the path, so the path has to exist first
+    const pathEntity = this.world.getEntity(this.pathEntityId);
+    if (!pathEntity) return;
+    
     // Create a new entity for the tracker
     const trackerEntity = this.world.createEntity('tracker');
     
@@ -281,7 +285,7 @@ export class PathState extends State {
     // For a cone, the tip points in +Y direction by default in Three.js
     // So we set the trackAxis to point +Y along the path direction
     constraintComponent.createPathFollowConstraint(
-      this.pathEntityId,
+      pathEntity,
       this.pathDistance,
       true, // rotateToFace
       new THREE.Vector3(0, 1, 0), // trackAxis - align +Y with path direction (cone tip)
@@ -305,12 +309,12 @@ export class PathState extends State {
   private createCameraEntity(): void {
     if (!this.world || !this.cameraSystem) return;
     
-    // Get the renderer
+    // Calculate aspect ratio (from the configured resolution when running headless)
     const renderer = this.engine.getRenderer();
-    if (!renderer) return;
-    
-    // Calculate aspect ratio
-    const aspect = renderer.getWidth() / renderer.getHeight();
+    const resolution = Config.getInstance().resolution;
+    const aspect = renderer
+      ? renderer.getWidth() / renderer.getHeight()
+      : resolution.width / resolution.height;
     
     // Use the CameraSystem to create a camera entity
     const cameraEntity = this.cameraSystem.createCamera(
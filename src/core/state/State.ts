@@ -1,4 +1,5 @@
 import { Renderer } from '../../rendering/Renderer';
+import { World } from '../../ecs/World';
 import { AssetDescriptor, AssetManager, PreloadConfig } from '../assets/AssetManager';
 
 /**
@@ -59,6 +60,14 @@ export abstract class State {
     return this.name;
   }
   
+  /**
+   * Get the ECS world this state runs, if it has one
+   * The engine pauses and resumes it together with its own world
+   */
+  getWorld(): World | null {
+    return null;
+  }
+  
   /**
    * Define assets to preload for this state
    * Override this method in derived states to define assets
@@ -163,6 +163,9 @@ export class StateManager {
     this.currentState = newState;
     await newState.enter();
     
+    // The new state's world starts out paused if the engine is
+    newState.getWorld()?.setPaused(this.engine.isPaused());
+    
     // Setup rendering data for the new state
     if (this.renderer) {
       this.currentState.setupRenderingData(this.renderer);
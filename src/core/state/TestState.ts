@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { State } from './State';
 import { Renderer } from '../../rendering/Renderer';
 import { Engine } from '../Engine';
+import { Config } from '../Config';
 import { TextBox } from '../../ui/elements/TextBox';
 import { 
   World, 
@@ -87,6 +88,13 @@ export class TestState extends State {
     return this.assets;
   }
   
+  /**
+   * Get the ECS world of this state
+   */
+  override getWorld(): World | null {
+    return this.world;
+  }
+  
   /**
    * Initialize the state
    */
@@ -129,12 +137,6 @@ export class TestState extends State {
     
     console.log("Creating ECS world for monkey test");
     
-    // Register component types for serialization
-    this.world.registerComponent('CameraComponent', CameraComponent);
-    this.world.registerComponent('MeshComponent', MeshComponent);
-    this.world.registerComponent('MaterialComponent', MaterialComponent);
-    this.world.registerComponent('AnimationComponent', AnimationComponent);
-    
     // Initialize core systems - this will set up ThreeSceneSystem and CameraSystem
     this.world.initializeCoreEcsSystems();
     
@@ -178,12 +180,12 @@ export class TestState extends State {
   private createCameraEntity(): void {
     if (!this.world || !this.cameraSystem) return;
     
-    // Get the renderer
+    // Calculate aspect ratio (from the configured resolution when running headless)
     const renderer = this.engine.getRenderer();
-    if (!renderer) return;
-    
-    // Calculate aspect ratio
-    const aspect = renderer.getWidth() / renderer.getHeight();
+    const resolution = Config.getInstance().resolution;
+    const aspect = renderer
+      ? renderer.getWidth() / renderer.getHeight()
+      : resolution.width / resolution.height;
     
     // Use the CameraSystem to create a camera entity
     const cameraEntity = this.cameraSystem.createCamera(
@@ -203,9 +205,12 @@ export class TestState extends State {
       cameraComponent.setClearColor('#222034'); // Set clear color to #222034
     }
 
-    const constraintComponent = new ConstraintComponent();
-    constraintComponent.createTrackToConstraint(this.trackerEntityId);
-    cameraEntity.addComponent(constraintComponent);
+    const trackerEntity = this.world.getEntity(this.trackerEntityId);
+    if (trackerEntity) {
+      const constraintComponent = new ConstraintComponent();
+      constraintComponent.createTrackToConstraint(trackerEntity);
+      cameraEntity.addComponent(constraintComponent);
+    }
     
     // Store the entity ID for later reference
     this.cameraEntityId = cameraEntity.id;
@@ -0,0 +1,61 @@
+/**
+ * Source of time for the engine loop
+ */
+export interface Clock {
+  /**
+   * Get the current time in milliseconds
+   */
+  now(): number;
+}
+
+/**
+ * Clock backed by performance.now()
+ */
+export class PerformanceClock implements Clock {
+  /**
+   * Get the current time in milliseconds
+   */
+  public now(): number {
+    return performance.now();
+  }
+}
+
+/**
+ * Clock that only moves when told to
+ * Useful for stepping the engine deterministically in tests or headless runs
+ */
+export class ManualClock implements Clock {
+  /**
+   * Current time in milliseconds
+   */
+  private time: number;
+
+  /**
+   * Constructor
+   * @param startTime Initial time in milliseconds
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  /**
+   * Get the current time in milliseconds
+   */
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * Move the clock forward
+   * @param milliseconds Time to advance by
+   * @returns This clock for method chaining
+   */
+  public advance(milliseconds: number): this {
+    if (milliseconds < 0) {
+      throw new Error('Cannot advance a clock by a negative amount');
+    }
+
+    this.time += milliseconds;
+    return this;
+  }
+}
@@ -0,0 +1,223 @@
+import { Component, ComponentClass, IEntity, IWorld } from './types';
+
+/**
+ * Types of deferred structural changes
+ */
+export enum CommandType {
+  CREATE_ENTITY = 'createEntity',
+  DESTROY_ENTITY = 'destroyEntity',
+  ADD_COMPONENT = 'addComponent',
+  REMOVE_COMPONENT = 'removeComponent',
+}
+
+/**
+ * Handle to an entity created through a command buffer
+ * The entity only exists once the buffer has been flushed
+ */
+export class DeferredEntity {
+  /**
+   * The created entity, set when the create command is executed
+   */
+  private _entity: IEntity | null = null;
+
+  /**
+   * Constructor
+   * @param name Optional name for the entity
+   */
+  constructor(public readonly name?: string) {}
+
+  /**
+   * Get the created entity, or null if the buffer hasn't been flushed yet
+   */
+  public get entity(): IEntity | null {
+    return this._entity;
+  }
+
+  /**
+   * Set the created entity
+   * @internal Used by CommandBuffer.flush
+   */
+  public _resolve(entity: IEntity): void {
+    this._entity = entity;
+  }
+}
+
+/**
+ * Entity targeted by a command: an existing entity, its ID, or a deferred entity
+ */
+export type CommandTarget = IEntity | number | DeferredEntity;
+
+/**
+ * A recorded structural change
+ */
+export type Command =
+  | { type: CommandType.CREATE_ENTITY; target: DeferredEntity }
+  | { type: CommandType.DESTROY_ENTITY; target: CommandTarget }
+  | { type: CommandType.ADD_COMPONENT; target: CommandTarget; component: Component }
+  | { type: CommandType.REMOVE_COMPONENT; target: CommandTarget; componentClass: ComponentClass };
+
+/**
+ * Records structural changes (creating and destroying entities, adding and
+ * removing components) so they can be applied later at a sync point.
+ * This makes it safe to change the world while iterating query results.
+ * Commands are executed in the order they were recorded.
+ */
+export class CommandBuffer {
+  /**
+   * Recorded commands in execution order
+   */
+  private commands: Command[] = [];
+
+  /**
+   * Whether the buffer is currently being flushed
+   */
+  private flushing: boolean = false;
+
+  /**
+   * Record the creation of an entity
+   * @param name Optional name for the entity
+   * @param components Components to add to the entity once created
+   * @returns Handle to the entity, usable as target of later commands
+   */
+  public createEntity(name?: string, components: Component[] = []): DeferredEntity {
+    const target = new DeferredEntity(name);
+    this.commands.push({ type: CommandType.CREATE_ENTITY, target });
+
+    for (const component of components) {
+      this.addComponent(target, component);
+    }
+
+    return target;
+  }
+
+  /**
+   * Record the destruction of an entity
+   * @param target The entity to destroy
+   * @returns This buffer for method chaining
+   */
+  public destroyEntity(target: CommandTarget): this {
+    this.commands.push({ type: CommandType.DESTROY_ENTITY, target });
+    return this;
+  }
+
+  /**
+   * Record adding a component to an entity
+   * @param target The entity to add the component to
+   * @param component The component to add
+   * @returns This buffer for method chaining
+   */
+  public addComponent(target: CommandTarget, component: Component): this {
+    this.commands.push({ type: CommandType.ADD_COMPONENT, target, component });
+    return this;
+  }
+
+  /**
+   * Record removing a component from an entity
+   * @param target The entity to remove the component from
+   * @param componentClass The class of the component to remove
+   * @returns This buffer for method chaining
+   */
+  public removeComponent<T extends Component>(target: CommandTarget, componentClass: ComponentClass<T>): this {
+    this.commands.push({ type: CommandType.REMOVE_COMPONENT, target, componentClass });
+    return this;
+  }
+
+  /**
+   * Get the number of recorded commands
+   */
+  public get size(): number {
+    return this.commands.length;
+  }
+
+  /**
+   * Check if there are no recorded commands
+   */
+  public isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  /**
+   * Discard all recorded commands
+   */
+  public clear(): void {
+    this.commands = [];
+  }
+
+  /**
+   * Apply all recorded commands to a world, in recording order
+   * Commands recorded while flushing (e.g. from lifecycle hooks) run in the same flush.
+   * Commands targeting entities that no longer exist are skipped.
+   * @param world The world to apply the commands to
+   * @returns The entities that received new components, for requirement checks
+   */
+  public flush(world: IWorld): IEntity[] {
+    if (this.flushing) return [];
+
+    this.flushing = true;
+    const touched = new Set<IEntity>();
+
+    try {
+      while (this.commands.length > 0) {
+        const pending = this.commands;
+        this.commands = [];
+
+        for (const command of pending) {
+          this.execute(world, command, touched);
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    // Only report entities that survived the flush
+    return Array.from(touched).filter(entity => world.getEntity(entity.id) === entity);
+  }
+
+  /**
+   * Execute a single command
+   * @param world The world to apply the command to
+   * @param command The command to execute
+   * @param touched Entities that received new components
+   */
+  private execute(world: IWorld, command: Command, touched: Set<IEntity>): void {
+    if (command.type === CommandType.CREATE_ENTITY) {
+      command.target._resolve(world.createEntity(command.target.name));
+      return;
+    }
+
+    const entity = this.resolve(world, command.target);
+    if (!entity) return;
+
+    switch (command.type) {
+      case CommandType.DESTROY_ENTITY:
+        world.destroyEntity(entity);
+        break;
+      case CommandType.ADD_COMPONENT:
+        entity.addComponent(command.component);
+        touched.add(entity);
+        break;
+      case CommandType.REMOVE_COMPONENT:
+        entity.removeComponent(command.componentClass);
+        break;
+    }
+  }
+
+  /**
+   * Resolve a command target to an entity in the world
+   * @param world The world to look the entity up in
+   * @param target The command target
+   * @returns The entity, or null if it doesn't exist (anymore)
+   */
+  private resolve(world: IWorld, target: CommandTarget): IEntity | null {
+    if (target instanceof DeferredEntity) {
+      const entity = target.entity;
+      return entity && world.getEntity(entity.id) === entity ? entity : null;
+    }
+
+    if (typeof target === 'number') {
+      return world.getEntity(target);
+    }
+
+    return world.getEntity(target.id) === target ? target : null;
+  }
+}
@@ -1,4 +1,5 @@
-import { Component, ComponentClass, IEntity } from './types';
+import { Component, ComponentClass, EntityRefRemapper, IEntity } from './types';
+import { ComponentSchema, deserializeProperties, serializeProperties } from './ComponentSchema';
 
 /**
  * Base class for all components
@@ -26,6 +27,16 @@ export abstract class BaseComponent implements Component {
     this._entity = entity;
   }
   
+  /**
+   * Mark this component as changed
+   * Call this after mutating component data so query trackers report the entity as changed
+   */
+  public markChanged(): void {
+    if (this._entity && this._entity.world) {
+      this._entity.world._onComponentChanged(this._entity, this);
+    }
+  }
+  
   /**
    * Static method to define required component dependencies
    * @returns Array of component classes that are required
@@ -34,6 +45,30 @@ export abstract class BaseComponent implements Component {
     return [];
   }
   
+  /**
+   * Static method to describe the editable properties of the component
+   * Described properties are validated, listed by inspectors and serialized
+   * by the default serialize and deserialize
+   * @returns The schema, or null if the properties aren't described
+   */
+  public static getSchema(): ComponentSchema | null {
+    return null;
+  }
+  
+  /**
+   * Static method to tell whether the component calls markChanged whenever
+   * its serialized data changes
+   * Snapshots only serialize such components again when their entity
+   * changed, so only return true if every serialized field is private
+   * behind a setter that calls markChanged. Others, like ThreeObject whose
+   * transform is set through the Three.js object, are serialized on every
+   * snapshot
+   * @returns True if all changes are reported
+   */
+  public static reportsChanges(): boolean {
+    return false;
+  }
+  
   /**
    * Check if this component has all its dependencies
    * @param entity The entity to check against
@@ -97,20 +132,42 @@ export abstract class BaseComponent implements Component {
    */
   public onDeactivate?(): void;
   
+  /**
+   * Called when the component's entity is moved in the entity hierarchy
+   * @param parent The new parent entity, or null if the entity became a root
+   * @param keepWorldTransform Whether the entity should keep its world transform
+   */
+  public onParentChanged?(parent: IEntity | null, keepWorldTransform: boolean): void;
+  
+  /**
+   * Called after deserialization or prefab instantiation to point stored
+   * entity references at the newly created entities
+   * @param remap Maps a serialized reference to the new one
+   */
+  public remapEntityRefs?(remap: EntityRefRemapper): void;
+  
+  /**
+   * Called after a property was set with setComponentProperty
+   * @param name Name of the property
+   */
+  public onPropertyChanged?(name: string): void;
+  
   /**
    * Serialize this component to a plain object
-   * Override this in derived components
+   * Writes the properties of the schema; override this in derived components
+   * that store more
    */
   public serialize(): unknown {
-    return {};
+    return serializeProperties(this);
   }
   
   /**
    * Deserialize this component from a plain object
-   * Override this in derived components
+   * Reads the properties of the schema; override this in derived components
+   * that store more
    * @param data The data to deserialize from
    */
   public deserialize(data: unknown): void {
-    // Base implementation does nothing
+    deserializeProperties(this, data);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,329 @@
+import type { AssetType } from '../core/assets/AssetManager';
+import type { BaseComponent } from './Component';
+import { Component, ComponentClass } from './types';
+import { isEntityRef } from './EntityRef';
+
+/**
+ * Types of component properties
+ */
+export enum PropertyType {
+  NUMBER = 'number',
+  INTEGER = 'integer',
+  BOOLEAN = 'boolean',
+  STRING = 'string',
+  /**
+   * Color as a hex number, e.g. 0xff0000
+   */
+  COLOR = 'color',
+  /**
+   * One of the strings listed in values
+   */
+  ENUM = 'enum',
+  /**
+   * Object with x, y and z numbers
+   */
+  VECTOR3 = 'vector3',
+  /**
+   * Reference to an entity, or null
+   * Components still remap these in remapEntityRefs
+   */
+  ENTITY = 'entity',
+  /**
+   * ID of an asset, or null
+   */
+  ASSET = 'asset',
+  /**
+   * Object with the properties described by properties
+   */
+  OBJECT = 'object',
+}
+
+/**
+ * Description of a component property
+ */
+export interface PropertySchema<T = any> {
+  /**
+   * Type of the property
+   */
+  type: PropertyType;
+
+  /**
+   * Value of the property on a new component
+   */
+  default?: unknown;
+
+  /**
+   * Smallest allowed value (numbers only)
+   */
+  min?: number;
+
+  /**
+   * Largest allowed value (numbers only)
+   */
+  max?: number;
+
+  /**
+   * Step for editing the value in an inspector (numbers only)
+   */
+  step?: number;
+
+  /**
+   * Allowed values (enums only)
+   */
+  values?: readonly string[];
+
+  /**
+   * Type of the referenced asset (assets only)
+   */
+  assetType?: AssetType;
+
+  /**
+   * Properties of the object (objects only)
+   * Nested properties are plain fields of the object
+   */
+  properties?: ComponentSchema;
+
+  /**
+   * Name shown in an inspector; defaults to the property name
+   */
+  label?: string;
+
+  /**
+   * Description shown in an inspector
+   */
+  description?: string;
+
+  /**
+   * Whether the property can only be set by deserialization, not edited
+   */
+  readOnly?: boolean;
+
+  /**
+   * Read the value; defaults to the component field with the property name
+   * @param component The component
+   */
+  get?(component: T): unknown;
+
+  /**
+   * Apply a valid value; defaults to assigning the component field with the property name
+   * @param component The component
+   * @param value The value
+   */
+  set?(component: T, value: any): void;
+}
+
+/**
+ * Properties of a component by name, in serialization order
+ */
+export type ComponentSchema<T = any> = Record<string, PropertySchema<T>>;
+
+/**
+ * Get the schema of a component class or component
+ * @param target The component class or component
+ * @returns The schema, or null if the component doesn't describe its properties
+ */
+export function getComponentSchema(target: ComponentClass | Component): ComponentSchema | null {
+  const componentClass = (typeof target === 'function' ? target : target.constructor) as ComponentClass;
+  return componentClass.getSchema ? componentClass.getSchema() : null;
+}
+
+/**
+ * Check a value against a property schema
+ * @param property The property schema
+ * @param value The value to check
+ * @returns A description of the problem, or null if the value is valid
+ */
+export function validateProperty(property: PropertySchema, value: unknown): string | null {
+  switch (property.type) {
+    case PropertyType.NUMBER:
+    case PropertyType.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (property.type === PropertyType.INTEGER && !Number.isInteger(value)) return 'must be an integer';
+      if (property.min !== undefined && value < property.min) return `must be at least ${property.min}`;
+      if (property.max !== undefined && value > property.max) return `must be at most ${property.max}`;
+      return null;
+
+    case PropertyType.BOOLEAN:
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+
+    case PropertyType.STRING:
+      return typeof value === 'string' ? null : 'must be a string';
+
+    case PropertyType.COLOR:
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffff
+        ? null
+        : 'must be a hex color';
+
+    case PropertyType.ENUM:
+      return typeof value === 'string' && (!property.values || property.values.includes(value))
+        ? null
+        : `must be one of ${(property.values || []).join(', ')}`;
+
+    case PropertyType.VECTOR3: {
+      const vector = value as Record<string, unknown>;
+      return typeof value === 'object' && value !== null &&
+        ['x', 'y', 'z'].every(axis => typeof vector[axis] === 'number' && Number.isFinite(vector[axis]))
+        ? null
+        : 'must have numbers x, y and z';
+    }
+
+    case PropertyType.ENTITY:
+      return value === null || isEntityRef(value) ? null : 'must be an entity reference or null';
+
+    case PropertyType.ASSET:
+      return value === null || typeof value === 'string' ? null : 'must be an asset ID or null';
+
+    case PropertyType.OBJECT: {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'must be an object';
+
+      for (const [name, nested] of Object.entries(property.properties || {})) {
+        const nestedValue = (value as Record<string, unknown>)[name];
+        if (nestedValue === undefined) continue;
+
+        const error = validateProperty(nested, nestedValue);
+        if (error) return `${name} ${error}`;
+      }
+      return null;
+    }
+
+    default:
+      return `has unknown type ${property.type}`;
+  }
+}
+
+/**
+ * Check the current property values of a component against its schema
+ * @param component The component
+ * @returns Descriptions of the invalid properties; empty if all are valid
+ */
+export function validateComponent(component: Component): string[] {
+  const schema = getComponentSchema(component) || {};
+
+  return Object.entries(schema)
+    .map(([name, property]) => {
+      const error = validateProperty(property, readProperty(component, name, property));
+      return error ? `${name} ${error}` : null;
+    })
+    .filter((error): error is string => error !== null);
+}
+
+/**
+ * Get the value of a component property
+ * Objects are returned as copies
+ * @param component The component
+ * @param name Name of the property
+ * @returns The value, or undefined if the schema has no such property
+ */
+export function getComponentProperty(component: Component, name: string): unknown {
+  const schema = getComponentSchema(component);
+  if (!schema || !schema[name]) return undefined;
+
+  return copyValue(readProperty(component, name, schema[name]));
+}
+
+/**
+ * Set a component property, e.g. from an inspector
+ * The value is validated and the component is marked changed
+ * @param component The component
+ * @param name Name of the property
+ * @param value The new value; objects may be partial
+ * @returns True if the property was set
+ */
+export function setComponentProperty(component: Component, name: string, value: unknown): boolean {
+  const schema = getComponentSchema(component);
+  const property = schema ? schema[name] : undefined;
+
+  if (!property) {
+    console.warn(`Component ${component.constructor.name} has no property ${name}`);
+    return false;
+  }
+  if (property.readOnly) {
+    console.warn(`Property ${name} of ${component.constructor.name} is read-only`);
+    return false;
+  }
+  if (!applyProperty(component, name, property, value)) return false;
+
+  const baseComponent = component as BaseComponent;
+  if (baseComponent.onPropertyChanged) {
+    baseComponent.onPropertyChanged(name);
+  }
+  if (baseComponent.markChanged) {
+    baseComponent.markChanged();
+  }
+  return true;
+}
+
+/**
+ * Serialize the properties of a component described by its schema
+ * @param component The component
+ * @param schema The schema; defaults to the schema of the component's class
+ * @returns The property values by name
+ */
+export function serializeProperties(component: Component, schema?: ComponentSchema | null): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(schema || getComponentSchema(component) || {})) {
+    data[name] = copyValue(readProperty(component, name, property));
+  }
+
+  return data;
+}
+
+/**
+ * Deserialize the properties of a component described by its schema
+ * Missing properties keep their values; invalid ones are skipped with a warning
+ * @param component The component
+ * @param data The data to deserialize from
+ * @param schema The schema; defaults to the schema of the component's class
+ */
+export function deserializeProperties(component: Component, data: unknown, schema?: ComponentSchema | null): void {
+  if (typeof data !== 'object' || data === null) return;
+
+  const values = data as Record<string, unknown>;
+  for (const [name, property] of Object.entries(schema || getComponentSchema(component) || {})) {
+    if (values[name] !== undefined) {
+      applyProperty(component, name, property, values[name]);
+    }
+  }
+}
+
+/**
+ * Read a property value without copying it
+ */
+function readProperty(component: Component, name: string, property: PropertySchema): unknown {
+  return property.get ? property.get(component) : (component as any)[name];
+}
+
+/**
+ * Validate and apply a property value
+ * Objects are merged into the current object, so partial objects keep the other fields
+ * @returns True if the value was valid
+ */
+function applyProperty(component: Component, name: string, property: PropertySchema, value: unknown): boolean {
+  const error = validateProperty(property, value);
+  if (error) {
+    console.warn(`Invalid value for ${component.constructor.name}.${name}: ${error}`);
+    return false;
+  }
+
+  let applied = copyValue(value);
+  if (property.type === PropertyType.OBJECT) {
+    const current = readProperty(component, name, property);
+    applied = { ...(typeof current === 'object' && current !== null ? current : {}), ...(applied as object) };
+  }
+
+  if (property.set) {
+    property.set(component, applied);
+  } else {
+    (component as any)[name] = applied;
+  }
+  return true;
+}
+
+/**
+ * Copy a property value so the component and the caller don't share objects
+ */
+function copyValue(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  return JSON.parse(JSON.stringify(value));
+}
@@ -1,5 +1,6 @@
 import { BaseComponent } from './Component';
 import { Component, ComponentClass, IEntity, IWorld } from './types';
+import { EcsEvents, publishComponentEvent, publishEcsEvent } from './events/EcsEvents';
 
 /**
  * Entity implementation
@@ -11,6 +12,11 @@ export class Entity implements IEntity {
    */
   public readonly id: number;
   
+  /**
+   * Generation of this entity, bumped when it is destroyed or removed from its world
+   */
+  private _generation: number = 0;
+  
   /**
    * Whether this entity is active
    */
@@ -31,6 +37,16 @@ export class Entity implements IEntity {
    */
   private _world: IWorld | null;
   
+  /**
+   * Parent entity in the hierarchy
+   */
+  private _parent: Entity | null = null;
+  
+  /**
+   * Child entities in the hierarchy, in order
+   */
+  private _children: Entity[] = [];
+  
   /**
    * Static counter for entity IDs
    */
@@ -63,6 +79,21 @@ export class Entity implements IEntity {
     this._world = world;
   }
   
+  /**
+   * Get the generation of this entity
+   */
+  public get generation(): number {
+    return this._generation;
+  }
+  
+  /**
+   * Invalidate all existing references to this entity
+   * @internal Used by World when the entity is destroyed or removed
+   */
+  public _invalidateRefs(): void {
+    this._generation++;
+  }
+  
   /**
    * Get whether this entity is active
    */
@@ -92,6 +123,22 @@ export class Entity implements IEntity {
         }
       });
     }
+    
+    this.notifyWorld();
+    
+    const world = this._world;
+    if (world) {
+      publishEcsEvent(value ? EcsEvents.ENTITY_ACTIVATED : EcsEvents.ENTITY_DEACTIVATED, () => ({ world, entity: this }));
+    }
+  }
+  
+  /**
+   * Notify the world that this entity's components or active state changed
+   */
+  private notifyWorld(): void {
+    if (this._world) {
+      this._world._onEntityChanged(this);
+    }
   }
   
   /**
@@ -181,6 +228,9 @@ export class Entity implements IEntity {
       component.onActivate();
     }
     
+    this.notifyWorld();
+    publishComponentEvent(EcsEvents.COMPONENT_ADDED, this, component);
+    
     return this;
   }
   
@@ -222,8 +272,11 @@ export class Entity implements IEntity {
     // If there are no more components of this type, remove the array
     if (components.length === 0) {
       this.components.delete(componentClass);
+      this.notifyWorld();
     }
     
+    publishComponentEvent(EcsEvents.COMPONENT_REMOVED, this, component);
+    
     return true;
   }
   
@@ -252,6 +305,9 @@ export class Entity implements IEntity {
     // Remove the components
     this.components.delete(componentClass);
     
+    this.notifyWorld();
+    components.forEach(component => publishComponentEvent(EcsEvents.COMPONENT_REMOVED, this, component));
+    
     return count;
   }
   
@@ -259,8 +315,10 @@ export class Entity implements IEntity {
    * Remove all components from this entity
    */
   public removeAllComponents(): void {
+    const components = this.getAllComponents();
+    
     // Call lifecycle hooks and clean up for all components
-    this.getAllComponents().forEach(component => {
+    components.forEach(component => {
       if (component.onDetach) {
         component.onDetach(this);
       }
@@ -272,6 +330,9 @@ export class Entity implements IEntity {
     
     // Clear the components map
     this.components.clear();
+    
+    this.notifyWorld();
+    components.forEach(component => publishComponentEvent(EcsEvents.COMPONENT_REMOVED, this, component));
   }
   
   /**
@@ -289,7 +350,7 @@ export class Entity implements IEntity {
   }
   
   /**
-   * Destroy this entity, removing it from the world
+   * Destroy this entity and all its descendants, removing them from the world
    */
   public destroy(): void {
     if (this._world) {
@@ -299,6 +360,123 @@ export class Entity implements IEntity {
     }
   }
   
+  /**
+   * Get the parent entity, or null if this is a root entity
+   */
+  public getParent(): IEntity | null {
+    return this._parent;
+  }
+  
+  /**
+   * Get the direct children of this entity, in order
+   * @returns A copy of the children array
+   */
+  public getChildren(): IEntity[] {
+    return [...this._children];
+  }
+  
+  /**
+   * Get all descendants of this entity, depth-first
+   */
+  public getDescendants(): IEntity[] {
+    const descendants: IEntity[] = [];
+    
+    for (const child of this._children) {
+      descendants.push(child, ...child.getDescendants());
+    }
+    
+    return descendants;
+  }
+  
+  /**
+   * Get the root of this entity's hierarchy (the entity itself if it has no parent)
+   */
+  public getRoot(): IEntity {
+    let root: Entity = this;
+    while (root._parent) {
+      root = root._parent;
+    }
+    return root;
+  }
+  
+  /**
+   * Check if this entity is a descendant of another entity
+   * @param ancestor The potential ancestor
+   */
+  public isDescendantOf(ancestor: IEntity): boolean {
+    for (let parent = this._parent; parent; parent = parent._parent) {
+      if (parent === ancestor) return true;
+    }
+    return false;
+  }
+  
+  /**
+   * Move this entity under a new parent
+   * Components are notified through onParentChanged, e.g. so ThreeObject can
+   * move its Three.js object in the scene graph
+   * @param parent The new parent, or null to make this a root entity
+   * @param keepWorldTransform Whether to keep the world transform (otherwise the local transform is kept)
+   * @returns This entity for method chaining
+   * @throws Error if the parent is this entity, one of its descendants, or in another world
+   */
+  public setParent(parent: IEntity | null, keepWorldTransform: boolean = true): this {
+    if (parent === this._parent) return this;
+    
+    if (parent) {
+      if (parent === this || parent.isDescendantOf(this)) {
+        throw new Error(`Cannot parent entity ${this.id} to itself or one of its descendants`);
+      }
+      
+      if (parent.world !== this._world) {
+        throw new Error(`Cannot parent entity ${this.id} to entity ${parent.id} in another world`);
+      }
+    }
+    
+    // Unlink from the old parent
+    if (this._parent) {
+      const siblings = this._parent._children;
+      siblings.splice(siblings.indexOf(this), 1);
+    }
+    
+    // Link to the new parent
+    this._parent = parent as Entity | null;
+    if (this._parent) {
+      this._parent._children.push(this);
+    }
+    
+    this.getAllComponents().forEach(component => {
+      if (component.onParentChanged) {
+        component.onParentChanged(parent, keepWorldTransform);
+      }
+    });
+    
+    return this;
+  }
+  
+  /**
+   * Add a child entity
+   * @param child The entity to add as child
+   * @param keepWorldTransform Whether the child keeps its world transform
+   * @returns This entity for method chaining
+   */
+  public addChild(child: IEntity, keepWorldTransform: boolean = true): this {
+    child.setParent(this, keepWorldTransform);
+    return this;
+  }
+  
+  /**
+   * Remove a child entity, making it a root entity
+   * @param child The child to remove
+   * @param keepWorldTransform Whether the child keeps its world transform
+   * @returns True if the entity was a child of this entity
+   */
+  public removeChild(child: IEntity, keepWorldTransform: boolean = true): boolean {
+    if (child.getParent() !== this) return false;
+    
+    child.setParent(null, keepWorldTransform);
+    return true;
+  }
+  
   /**
    * Serialize this entity to a plain object
    * @returns A plain object representation of this entity
@@ -306,24 +484,27 @@ export class Entity implements IEntity {
   public serialize(): unknown {
     const componentData: Record<string, unknown> = {};
     
-    // Serialize each component
+    // Serialize each component, keyed by its stable type id; class names
+    // are only a fallback for unregistered components as they get minified
     this.components.forEach((components, componentClass) => {
-      const className = componentClass.name;
+      const typeId = (this._world && this._world.getComponentTypeId(componentClass as ComponentClass)) || componentClass.name;
       
-      if (!componentData[className]) {
-        componentData[className] = [];
+      if (!componentData[typeId]) {
+        componentData[typeId] = [];
       }
       
       // Serialize each component of this type
       components.forEach(component => {
-        (componentData[className] as unknown[]).push(component.serialize());
+        (componentData[typeId] as unknown[]).push(component.serialize());
       });
     });
     
     return {
       id: this.id,
+      generation: this._generation,
       name: this.name,
       active: this._active,
+      parentId: this._parent ? this._parent.id : null,
       components: componentData
     };
   }
@@ -347,8 +528,9 @@ export class Entity implements IEntity {
     
     if (typeof entityData.active === 'boolean') {
       this._active = entityData.active;
+      this.notifyWorld();
     }
     
-    // Components will be added by the World after deserialization
+    // Components and the parent (parentId) will be restored by the World after deserialization
   }
 } 
\ No newline at end of file
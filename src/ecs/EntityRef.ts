@@ -0,0 +1,31 @@
+import { EntityRef } from './types';
+
+/**
+ * Create a reference to an entity
+ * @param entity The entity (or another reference) to reference
+ * @returns A plain reference holding the entity's ID and generation
+ */
+export function createEntityRef(entity: EntityRef): EntityRef {
+  return { id: entity.id, generation: entity.generation };
+}
+
+/**
+ * Check if a value is an entity reference, e.g. when reading serialized data
+ * @param value The value to check
+ */
+export function isEntityRef(value: unknown): value is EntityRef {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const ref = value as Record<string, unknown>;
+  return typeof ref.id === 'number' && typeof ref.generation === 'number';
+}
+
+/**
+ * Check if two entity references point to the same entity
+ * @param a The first reference
+ * @param b The second reference
+ */
+export function entityRefEquals(a: EntityRef | null, b: EntityRef | null): boolean {
+  if (!a || !b) return a === b;
+  return a.id === b.id && a.generation === b.generation;
+}
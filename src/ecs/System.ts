@@ -1,4 +1,8 @@
-import { Component, ComponentClass, IEntity, ISystem, IWorld } from './types';
+import { Component, ComponentClass, IEntity, ISystem, IWorld, RunCondition, SystemClass } from './types';
+import { Query, QueryDescriptor } from './query/Query';
+import { QueryTracker } from './query/QueryTracker';
+import { CommandBuffer } from './CommandBuffer';
+import { SystemPhase } from './scheduling/SystemScheduler';
 
 /**
  * Base class for all systems
@@ -11,10 +15,30 @@ export abstract class System implements ISystem {
   public readonly id: number;
   
   /**
-   * Priority of this system (higher priority systems are updated first)
+   * Priority of this system within its phase (higher priority systems are updated first)
    */
   public readonly priority: number;
   
+  /**
+   * Phase this system runs in
+   */
+  public phase: SystemPhase;
+  
+  /**
+   * System classes this system must run before
+   */
+  public readonly before: SystemClass[] = [];
+  
+  /**
+   * System classes this system must run after
+   */
+  public readonly after: SystemClass[] = [];
+  
+  /**
+   * Conditions that must all hold for this system to run
+   */
+  public readonly runConditions: RunCondition[] = [];
+  
   /**
    * Whether this system is enabled
    */
@@ -25,6 +49,11 @@ export abstract class System implements ISystem {
    */
   protected world: IWorld | null = null;
   
+  /**
+   * Query trackers owned by this system, cleared after each update
+   */
+  private trackers: QueryTracker[] = [];
+  
   /**
    * Static counter for system IDs
    */
@@ -32,11 +61,54 @@ export abstract class System implements ISystem {
   
   /**
    * Constructor
-   * @param priority Priority of this system (higher priority systems are updated first)
+   * @param priority Priority of this system within its phase (higher priority systems are updated first)
+   * @param phase Phase this system runs in
    */
-  constructor(priority: number = 0) {
+  constructor(priority: number = 0, phase: SystemPhase = SystemPhase.UPDATE) {
     this.id = System.nextId++;
     this.priority = priority;
+    this.phase = phase;
+  }
+  
+  /**
+   * Set the phase this system runs in
+   * Scheduling options must be set before the system is registered
+   * @param phase The phase
+   * @returns This system for method chaining
+   */
+  public inPhase(phase: SystemPhase): this {
+    this.phase = phase;
+    return this;
+  }
+  
+  /**
+   * Require this system to run before other systems of the same phase
+   * @param systemClasses The system classes to run before
+   * @returns This system for method chaining
+   */
+  public runBefore(...systemClasses: SystemClass[]): this {
+    this.before.push(...systemClasses);
+    return this;
+  }
+  
+  /**
+   * Require this system to run after other systems of the same phase
+   * @param systemClasses The system classes to run after
+   * @returns This system for method chaining
+   */
+  public runAfter(...systemClasses: SystemClass[]): this {
+    this.after.push(...systemClasses);
+    return this;
+  }
+  
+  /**
+   * Add a condition that must hold for this system to run
+   * @param condition The run condition
+   * @returns This system for method chaining
+   */
+  public runIf(condition: RunCondition): this {
+    this.runConditions.push(condition);
+    return this;
   }
   
   /**
@@ -63,6 +135,9 @@ export abstract class System implements ISystem {
   public update(deltaTime: number): void {
     if (!this.enabled || !this.world) return;
     this.onUpdate(deltaTime);
+    
+    // Changes seen by this update are no longer pending
+    this.trackers.forEach(tracker => tracker.clear());
   }
   
   /**
@@ -96,6 +171,8 @@ export abstract class System implements ISystem {
    */
   public cleanup(): void {
     this.onCleanup();
+    this.trackers.forEach(tracker => tracker.dispose());
+    this.trackers = [];
     this.world = null;
   }
   
@@ -107,13 +184,47 @@ export abstract class System implements ISystem {
     // Base implementation does nothing
   }
   
+  /**
+   * Command buffer for structural changes made while iterating query results
+   * Recorded commands are applied by the world right after this system updates
+   */
+  protected get commands(): CommandBuffer | null {
+    return this.world ? this.world.getCommandBuffer() : null;
+  }
+  
   /**
    * Query for entities with specific components
+   * Accepts either component classes (entities must have all of them)
+   * or a descriptor with all/any/none filters
    * @param componentClasses The component classes to query for
-   * @returns An array of entities with all the specified components
+   * @returns An array of entities matching the query
    */
-  protected query<T extends Component>(...componentClasses: ComponentClass<T>[]): IEntity[] {
+  protected query<T extends Component>(...componentClasses: ComponentClass<T>[]): IEntity[];
+  protected query(descriptor: QueryDescriptor): IEntity[];
+  protected query(...args: (ComponentClass<any> | QueryDescriptor)[]): IEntity[] {
     if (!this.world) return [];
-    return this.world.query(...componentClasses);
+    
+    if (args.length === 1 && typeof args[0] !== 'function') {
+      return this.world.getQuery(args[0] as QueryDescriptor).getEntities();
+    }
+    
+    return this.world.query(...(args as ComponentClass[]));
+  }
+  
+  /**
+   * Track entities added to, removed from or changed in a query
+   * The tracker is cleared after every update of this system, so during
+   * onUpdate it holds the changes since this system last ran
+   * @param descriptor Filter describing which entities match, or an existing query
+   * @returns The tracker, or null if the system is not initialized
+   */
+  protected track(descriptor: QueryDescriptor | Query): QueryTracker | null {
+    if (!this.world) return null;
+    
+    const query = descriptor instanceof Query ? descriptor : this.world.getQuery(descriptor);
+    const tracker = query.track();
+    this.trackers.push(tracker);
+    
+    return tracker;
   }
 } 
\ No newline at end of file
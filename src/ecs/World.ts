@@ -1,11 +1,31 @@
 import { Entity } from './Entity';
-import { Component, ComponentClass, IEntity, ISystem, IWorld } from './types';
+import { Component, ComponentClass, EntityRef, EntityRefRemapper, IEntity, ISystem, IWorld } from './types';
+import { createEntityRef } from './EntityRef';
+import { SerializedEntity, SerializedWorld, isSerializedEntity } from './serialization/SaveFormat';
+import { ComponentPatch, WorldPatch, diffWorlds } from './serialization/WorldPatch';
+import { setDataProperty } from './serialization/DataPath';
+import { EventSystem, EventPriority } from '../core/events/EventSystem';
+import {
+  ComponentEventData,
+  ComponentEventType,
+  EcsEventMap,
+  EcsEvents,
+  publishEcsEvent
+} from './events/EcsEvents';
 import * as THREE from 'three';
 import { ThreeObject } from './components/ThreeObject';
 import { Renderer } from '../rendering/Renderer';
 import { CameraSystem } from './systems/CameraSystem';
 import { SceneSystem } from './systems/SceneSystem';
 import { ConstraintSystem } from './systems/ConstraintSystem';
+import { LightSystem } from './systems/LightSystem';
+import { ShaderSystem } from './systems/ShaderSystem';
+import { QueryIndex } from './query/QueryIndex';
+import { Query, QueryDescriptor } from './query/Query';
+import { QueryBuilder } from './query/QueryBuilder';
+import { CommandBuffer } from './CommandBuffer';
+import { scheduleSystems } from './scheduling/SystemScheduler';
+import { registerBuiltinComponents } from './serialization/BuiltinComponents';
 
 /**
  * World implementation
@@ -23,15 +43,51 @@ export class World implements IWorld {
   private entitiesByName: Map<string, Entity> = new Map();
   
   /**
-   * Systems in this world
+   * Systems in this world, in execution order
    */
   private systems: ISystem[] = [];
   
   /**
-   * Component registry for serialization
+   * Systems in this world, in registration order
+   */
+  private registeredSystems: ISystem[] = [];
+  
+  /**
+   * Whether gameplay is paused
+   */
+  private paused: boolean = false;
+  
+  /**
+   * Component signature index backing cached queries
+   */
+  private queryIndex: QueryIndex = new QueryIndex();
+  
+  /**
+   * Deferred structural changes, applied at sync points during update and render
+   */
+  private commandBuffer: CommandBuffer = new CommandBuffer();
+  
+  /**
+   * Component registry for serialization, by stable type id
    */
   private componentRegistry: Map<string, ComponentClass> = new Map();
   
+  /**
+   * Stable type id and schema version of each registered component class
+   */
+  private componentTypes: Map<ComponentClass, { typeId: string; version: number }> = new Map();
+  
+  /**
+   * Entities created by applyPatch, by their ID and generation in the patched world
+   * Later patches address the entities by that ID
+   */
+  private patchedEntities: Map<number, { entity: IEntity; generation: number }> = new Map();
+  
+  /**
+   * ID in the patched world of each entity created by applyPatch
+   */
+  private patchIds: Map<IEntity, number> = new Map();
+  
   /**
    * Three.js scene for this world
    * Created by default in the constructor
@@ -54,6 +110,8 @@ export class World implements IWorld {
   private cameraSystem: CameraSystem | null = null;
   private sceneSystem: SceneSystem | null = null;
   private constraintSystem: ConstraintSystem | null = null;
+  private lightSystem: LightSystem | null = null;
+  private shaderSystem: ShaderSystem | null = null;
   
   /**
    * Constructor
@@ -66,6 +124,9 @@ export class World implements IWorld {
     this.ambientLight = new THREE.AmbientLight(0xffffff, 0);
     this.scene.add(this.ambientLight);
     
+    // Make the built-in components serializable
+    registerBuiltinComponents(this);
+    
     console.log('Created new Three.js scene for World with default ambient light');
   }
   
@@ -129,6 +190,13 @@ export class World implements IWorld {
       this.registerSystem(this.constraintSystem);
     }
     
+    // Check if we already have a LightSystem
+    this.lightSystem = this.getSystem(LightSystem);
+    if (!this.lightSystem) {
+      this.lightSystem = new LightSystem();
+      this.registerSystem(this.lightSystem);
+    }
+    
     // Check if we already have a CameraSystem
     this.cameraSystem = this.getSystem(CameraSystem);
     if (!this.cameraSystem) {
@@ -136,6 +204,13 @@ export class World implements IWorld {
       this.registerSystem(this.cameraSystem);
     }
     
+    // Check if we already have a ShaderSystem
+    this.shaderSystem = this.getSystem(ShaderSystem);
+    if (!this.shaderSystem) {
+      this.shaderSystem = new ShaderSystem();
+      this.registerSystem(this.shaderSystem);
+    }
+    
     console.log('Core ECS systems initialized');
   }
   
@@ -160,13 +235,67 @@ export class World implements IWorld {
     return this.cameraSystem;
   }
   
+  /**
+   * Get the LightSystem
+   */
+  public getLightSystem(): LightSystem | null {
+    return this.lightSystem;
+  }
+  
+  /**
+   * Get the ShaderSystem
+   */
+  public getShaderSystem(): ShaderSystem | null {
+    return this.shaderSystem;
+  }
+  
   /**
    * Register a component class for serialization
-   * @param name The name of the component
+   * The type id is written to save files instead of the class name, which
+   * doesn't survive minification, so it must stay the same across builds
+   * @param typeId Stable type id of the component
+   * @param componentClass The component class
+   * @param version Schema version of the component's serialized data; bump it and
+   *   register a migration in MigrationRegistry when the data layout changes
+   * @throws Error if the type id is already used by another component class
+   */
+  public registerComponent(typeId: string, componentClass: ComponentClass, version: number = 1): void {
+    const registered = this.componentRegistry.get(typeId);
+    if (registered && registered !== componentClass) {
+      throw new Error(`Component type id ${typeId} is already registered for ${registered.name}`);
+    }
+    
+    this.componentRegistry.set(typeId, componentClass);
+    this.componentTypes.set(componentClass, { typeId, version });
+  }
+  
+  /**
+   * Get the stable type id of a component class
    * @param componentClass The component class
+   * @returns The type id, or null if the class isn't registered
    */
-  public registerComponent(name: string, componentClass: ComponentClass): void {
-    this.componentRegistry.set(name, componentClass);
+  public getComponentTypeId(componentClass: ComponentClass): string | null {
+    const type = this.componentTypes.get(componentClass);
+    return type ? type.typeId : null;
+  }
+  
+  /**
+   * Get the component class registered for a type id
+   * @param typeId The stable type id
+   * @returns The component class, or null if the type isn't registered
+   */
+  public getComponentClass(typeId: string): ComponentClass | null {
+    return this.componentRegistry.get(typeId) || null;
+  }
+  
+  /**
+   * Get the current schema version of a component type
+   * @param typeId The stable type id
+   * @returns The schema version, or null if the type isn't registered
+   */
+  public getComponentVersion(typeId: string): number | null {
+    const componentClass = this.componentRegistry.get(typeId);
+    return componentClass ? this.componentTypes.get(componentClass)!.version : null;
   }
   
   /**
@@ -185,6 +314,11 @@ export class World implements IWorld {
       this.entitiesByName.set(name, entity);
     }
     
+    // Index the new entity so it shows up in queries
+    this.queryIndex.updateEntity(entity);
+    
+    publishEcsEvent(EcsEvents.ENTITY_CREATED, () => ({ world: this, entity }));
+    
     return entity;
   }
   
@@ -197,6 +331,26 @@ export class World implements IWorld {
     return this.entities.get(id) || null;
   }
   
+  /**
+   * Rename an entity, keeping lookups by name up to date
+   * @param entity The entity
+   * @param name The new name, or undefined to remove the name
+   */
+  public renameEntity(entity: IEntity, name: string | undefined): void {
+    const entityImpl = entity as Entity;
+    const indexed = this.entities.get(entity.id) === entityImpl;
+    
+    if (indexed) {
+      this.unindexName(entityImpl);
+    }
+    
+    entityImpl.name = name;
+    
+    if (indexed && name) {
+      this.entitiesByName.set(name, entityImpl);
+    }
+  }
+  
   /**
    * Get an entity by name
    * @param name The entity name
@@ -206,6 +360,18 @@ export class World implements IWorld {
     return this.entitiesByName.get(name) || null;
   }
   
+  /**
+   * Resolve an entity reference
+   * @param ref The reference to resolve
+   * @returns The entity, or null if it was destroyed or never existed
+   */
+  public resolveEntityRef(ref: EntityRef | null): IEntity | null {
+    if (!ref) return null;
+    
+    const entity = this.entities.get(ref.id);
+    return entity && entity.generation === ref.generation ? entity : null;
+  }
+  
   /**
    * Get all entities
    * @returns An array of all entities
@@ -223,7 +389,15 @@ export class World implements IWorld {
   }
   
   /**
-   * Destroy an entity
+   * Get all entities without a parent
+   * @returns An array of root entities
+   */
+  public getRootEntities(): IEntity[] {
+    return Array.from(this.entities.values()).filter(entity => !entity.getParent());
+  }
+  
+  /**
+   * Destroy an entity and all its descendants
    * @param entity The entity or entity ID to destroy
    * @returns True if the entity was destroyed, false if it wasn't found
    */
@@ -233,47 +407,47 @@ export class World implements IWorld {
     
     if (!entityToDestroy) return false;
     
-    // Check for ThreeObject component to find child entities
-    const threeObj = entityToDestroy.getComponent(ThreeObject);
-    if (threeObj && threeObj.children.length > 0) {
-      // Create a copy of the children array to avoid issues during iteration
-      const children = [...threeObj.children];
-      
-      // Recursively destroy all child entities
-      for (const childEntity of children) {
-        this.destroyEntity(childEntity);
-      }
+    // Recursively destroy all child entities (getChildren returns a copy)
+    for (const childEntity of entityToDestroy.getChildren()) {
+      this.destroyEntity(childEntity);
     }
     
     // Remove from named entities map if it has a name
-    if (entityToDestroy.name) {
-      this.entitiesByName.delete(entityToDestroy.name);
-    }
+    this.unindexName(entityToDestroy);
     
     // Remove all components
     entityToDestroy.removeAllComponents();
     
-    // Remove from entities map
+    // Unlink from the parent, which may outlive this entity
+    entityToDestroy.setParent(null);
+    
+    // Existing references to the entity no longer resolve
+    entityToDestroy._invalidateRefs();
+    
+    publishEcsEvent(EcsEvents.ENTITY_DESTROYED, () => ({ world: this, entity: entityToDestroy }));
+    
+    // Remove from entities map and query index
     this.entities.delete(id);
+    this.queryIndex.removeEntity(entityToDestroy);
     
     return true;
   }
   
   /**
    * Register a system
+   * The system is placed according to its phase, before/after constraints and priority
    * @param system The system to register
    * @returns This world for method chaining
+   * @throws Error if the system's ordering constraints form a cycle or contradict the phase order
    */
   public registerSystem(system: ISystem): this {
+    // Schedule first so an invalid system is rejected before it is initialized
+    this.systems = scheduleSystems([...this.registeredSystems, system]);
+    this.registeredSystems.push(system);
+    
     // Initialize the system
     system.initialize(this);
     
-    // Add to systems array
-    this.systems.push(system);
-    
-    // Sort systems by priority (higher priority first)
-    this.systems.sort((a, b) => b.priority - a.priority);
-    
     return this;
   }
   
@@ -291,8 +465,9 @@ export class World implements IWorld {
     // Clean up the system
     this.systems[index].cleanup();
     
-    // Remove from systems array
-    this.systems.splice(index, 1);
+    // Remove from systems arrays
+    const removed = this.systems.splice(index, 1)[0];
+    this.registeredSystems = this.registeredSystems.filter(s => s !== removed);
     
     return true;
   }
@@ -309,45 +484,218 @@ export class World implements IWorld {
   
   /**
    * Update all systems
+   * Deferred commands are flushed before the first system and after each system,
+   * so every system sees the structural changes made by the systems before it
    * @param deltaTime Time since the last update in seconds
    */
   public update(deltaTime: number): void {
-    // Update all systems
-    for (const system of this.systems) {
-      if (system.enabled) {
+    // Apply commands recorded outside of the update (e.g. by states or event handlers)
+    this.flushCommands();
+    
+    // Update all systems (iterate a copy so systems can be registered during update)
+    for (const system of [...this.systems]) {
+      if (this.shouldRun(system)) {
         system.update(deltaTime);
+        this.flushCommands();
       }
     }
+    
+    // Record the tick's transforms for render interpolation
+    this.snapshotTransforms();
   }
   
   /**
    * Render all systems
+   * Deferred commands recorded while rendering are flushed once all systems have rendered
    * @param deltaTime Time since the last render in seconds
    */
   public render(deltaTime: number): void {
     // Render all systems
-    for (const system of this.systems) {
-      if (system.enabled) {
+    for (const system of [...this.systems]) {
+      if (this.shouldRun(system)) {
         system.render(deltaTime);
       }
     }
+    
+    this.flushCommands();
+  }
+  
+  /**
+   * Record the transforms of all 3D objects at the end of a fixed tick
+   */
+  public snapshotTransforms(): void {
+    for (const entity of this.query(ThreeObject)) {
+      entity.getComponent(ThreeObject)!.snapshotTransform();
+    }
+  }
+  
+  /**
+   * Move all 3D objects to their transforms interpolated between the last two ticks
+   * Must be followed by restoreTransforms once the frame has been drawn
+   * @param alpha Progress from the previous to the latest tick (0-1)
+   */
+  public interpolateTransforms(alpha: number): void {
+    for (const entity of this.query(ThreeObject)) {
+      entity.getComponent(ThreeObject)!.applyInterpolation(alpha);
+    }
+  }
+  
+  /**
+   * Put back the game logic transforms of all 3D objects after drawing a frame
+   */
+  public restoreTransforms(): void {
+    for (const entity of this.query(ThreeObject)) {
+      entity.getComponent(ThreeObject)!.restoreTransform();
+    }
+  }
+  
+  /**
+   * Subscribe to ECS events of this world
+   * @param eventType The event to subscribe to
+   * @param callback Called with the event data
+   * @param priority Priority of the subscription
+   * @returns Unsubscribe function
+   */
+  public on<K extends keyof EcsEventMap>(
+    eventType: K,
+    callback: (data: EcsEventMap[K]) => void,
+    priority: EventPriority = EventPriority.NORMAL
+  ): () => void {
+    return EventSystem.getInstance().subscribe<EcsEventMap[K]>(eventType, data => {
+      if (data.world === this) {
+        callback(data);
+      }
+    }, priority);
+  }
+  
+  /**
+   * Subscribe to components of a given class being added to or removed from entities of this world
+   * Components of subclasses are reported as well
+   * @param eventType COMPONENT_ADDED or COMPONENT_REMOVED
+   * @param componentClass The component class to filter by
+   * @param callback Called with the event data
+   * @param priority Priority of the subscription
+   * @returns Unsubscribe function
+   */
+  public onComponent<T extends Component>(
+    eventType: ComponentEventType,
+    componentClass: ComponentClass<T>,
+    callback: (data: ComponentEventData<T>) => void,
+    priority: EventPriority = EventPriority.NORMAL
+  ): () => void {
+    return this.on(eventType, data => {
+      if (data.component instanceof componentClass) {
+        callback(data as ComponentEventData<T>);
+      }
+    }, priority);
+  }
+  
+  /**
+   * Check if a system should run this tick
+   * @param system The system to check
+   * @returns True if the system is enabled and all its run conditions hold
+   */
+  private shouldRun(system: ISystem): boolean {
+    if (!system.enabled) return false;
+    
+    const conditions = system.runConditions;
+    return !conditions || conditions.every(condition => condition(this));
+  }
+  
+  /**
+   * Pause or unpause gameplay
+   * Systems using RunConditions.unpaused() are skipped while paused
+   * @param paused Whether the world is paused
+   * @returns This world for method chaining
+   */
+  public setPaused(paused: boolean): this {
+    this.paused = paused;
+    return this;
+  }
+  
+  /**
+   * Check if the world is paused
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+  
+  /**
+   * Get the command buffer used to defer structural changes
+   * Commands are applied at the next sync point in update or render
+   */
+  public getCommandBuffer(): CommandBuffer {
+    return this.commandBuffer;
+  }
+  
+  /**
+   * Apply all deferred commands now
+   * Component requirements are checked once per entity after all commands ran,
+   * so components can be recorded in any order
+   */
+  public flushCommands(): void {
+    if (this.commandBuffer.isEmpty()) return;
+    
+    const touched = this.commandBuffer.flush(this);
+    
+    if (this.sceneSystem) {
+      for (const entity of touched) {
+        this.sceneSystem.enforceComponentRequirements(entity);
+      }
+    }
   }
   
   /**
    * Query for entities with specific components
+   * Results come from a cached query that is kept up to date incrementally,
+   * so calling this every tick does not rescan the world
    * @param componentClasses The component classes to query for
-   * @returns An array of entities with all the specified components
+   * @returns An array of active entities with all the specified components, ordered by ID
    */
   public query<T extends Component>(...componentClasses: ComponentClass<T>[]): IEntity[] {
-    // If no component classes are specified, return all entities
-    if (componentClasses.length === 0) {
-      return this.getActiveEntities();
-    }
+    return this.getQuery({ all: componentClasses }).getEntities();
+  }
+  
+  /**
+   * Get the cached query for a filter
+   * Systems can hold on to the returned query instead of calling query() each tick
+   * @param descriptor Filter describing which entities match
+   * @returns The cached query
+   */
+  public getQuery(descriptor: QueryDescriptor): Query {
+    return this.queryIndex.getQuery(descriptor, this.entities.values());
+  }
+  
+  /**
+   * Start building a query with all/any/none filters
+   * @returns A new query builder for this world
+   */
+  public queryBuilder(): QueryBuilder {
+    return new QueryBuilder(this);
+  }
+  
+  /**
+   * Notify the world that an entity's components or active state changed
+   * @param entity The entity that changed
+   * @internal Used by Entity to keep cached queries up to date
+   */
+  public _onEntityChanged(entity: IEntity): void {
+    // Ignore entities that still reference this world but are not part of it
+    if (this.entities.get(entity.id) !== entity) return;
     
-    // Filter entities that have all specified components
-    return this.getActiveEntities().filter(entity => {
-      return componentClasses.every(componentClass => entity.hasComponent(componentClass));
-    });
+    this.queryIndex.updateEntity(entity);
+  }
+  
+  /**
+   * Notify the world that a component was mutated
+   * @param entity The entity owning the component
+   * @param component The mutated component
+   * @internal Used by BaseComponent.markChanged to drive change tracking
+   */
+  public _onComponentChanged(entity: IEntity, component: Component): void {
+    if (this.entities.get(entity.id) !== entity) return;
+    
+    this.queryIndex.componentChanged(entity, component.constructor as ComponentClass);
   }
   
   /**
@@ -367,19 +715,31 @@ export class World implements IWorld {
     // Clean up systems
     this.systems.forEach(system => system.cleanup());
     
+    // Drop commands targeting the old entities
+    this.commandBuffer.clear();
+    
     // Clear all entities
     this.entities.forEach(entity => entity.removeAllComponents());
+    this.entities.forEach(entity => {
+      publishEcsEvent(EcsEvents.ENTITY_DESTROYED, () => ({ world: this, entity }));
+    });
     
     // Clear all maps and arrays
     this.entities.clear();
     this.entitiesByName.clear();
+    this.patchedEntities.clear();
+    this.patchIds.clear();
+    this.queryIndex.clear();
     this.systems = [];
+    this.registeredSystems = [];
     
     // Clear renderer reference
     this.renderer = null;
     this.cameraSystem = null;
     this.sceneSystem = null;
     this.constraintSystem = null;
+    this.lightSystem = null;
+    this.shaderSystem = null;
     
     // Create a new scene
     this.scene = new THREE.Scene();
@@ -424,13 +784,13 @@ export class World implements IWorld {
   }
   
   /**
-   * Create a component instance by name
+   * Create a component instance by type id
    * Used for deserialization
-   * @param name The component class name
+   * @param typeId The stable type id of the component
    * @returns A new component instance, or null if the component class is not registered
    */
-  private createComponentByName(name: string): Component | null {
-    const componentClass = this.componentRegistry.get(name);
+  private createComponentByTypeId(typeId: string): Component | null {
+    const componentClass = this.componentRegistry.get(typeId);
     if (!componentClass) return null;
     
     return new componentClass();
@@ -440,15 +800,25 @@ export class World implements IWorld {
    * Serialize this world to a plain object
    * @returns A plain object representation of this world
    */
-  public serialize(): unknown {
+  public serialize(): SerializedWorld {
     const entities: unknown[] = [];
+    const componentVersions: Record<string, number> = {};
     
     // Serialize all entities
     this.entities.forEach(entity => {
       entities.push(entity.serialize());
+      
+      // Record the schema version of every component type written
+      entity.getAllComponents().forEach(component => {
+        const type = this.componentTypes.get(component.constructor as ComponentClass);
+        if (type) {
+          componentVersions[type.typeId] = type.version;
+        }
+      });
     });
     
     return {
+      componentVersions,
       entities
     };
   }
@@ -468,6 +838,404 @@ export class World implements IWorld {
     
     if (!Array.isArray(entitiesData)) return;
     
+    // The world was cleared, so references to entities outside the data are stale
+    this.deserializeEntities(entitiesData, false);
+  }
+  
+  /**
+   * Restore this world to serialized state in place
+   * Unlike deserialize, systems stay registered and entities that still exist
+   * keep their identity; only what differs from the data is changed. Entities
+   * missing from the world are recreated with new IDs, and references to them
+   * are remapped.
+   * Entities are matched by ID and generation, which only identify the same
+   * entity within this session, so use replaceEntities for saved games.
+   * @param data Serialized world, e.g. a snapshot
+   */
+  public restore(data: SerializedWorld): void {
+    const snapshot: Map<number, SerializedEntity> = new Map();
+    for (const entityData of data.entities.filter(isSerializedEntity)) {
+      snapshot.set(entityData.id, entityData);
+    }
+    
+    // An entity only matches data with the same ID and generation
+    const matches = (entity: IEntity): boolean => {
+      const entityData = snapshot.get(entity.id);
+      return !!entityData && (typeof entityData.generation === 'number' ? entityData.generation : 0) === entity.generation;
+    };
+    
+    // Destroy entities that aren't in the data, keeping children that are
+    for (const entity of Array.from(this.entities.values())) {
+      if (matches(entity) || this.entities.get(entity.id) !== entity) continue;
+      
+      this.destroyEntityKeepingChildren(entity, matches);
+    }
+    
+    // Recreate entities that have been destroyed since
+    const missing = Array.from(snapshot.values()).filter(entityData => !this.entities.has(entityData.id));
+    const recreated = this.recreateEntities(missing);
+    
+    // Bring the remaining entities back to their serialized state
+    for (const [id, entityData] of snapshot) {
+      const entity = this.entities.get(id);
+      if (entity && !recreated.has(id)) {
+        this.restoreEntity(entity, entityData);
+      }
+    }
+    
+    // Restore the hierarchy, including that of the recreated entities
+    for (const [id, entityData] of snapshot) {
+      const entity = recreated.get(id) || this.entities.get(id)!;
+      const parentId = entityData.parentId;
+      const parent = typeof parentId === 'number' ? recreated.get(parentId) || this.entities.get(parentId) || null : null;
+      
+      if (entity.getParent() !== parent) {
+        entity.setParent(parent, false);
+      }
+    }
+    
+    // Point references to destroyed entities at their recreated counterparts
+    this.remapToRecreated(recreated, missing);
+  }
+  
+  /**
+   * Replace all entities with serialized ones, e.g. from a loaded save
+   * Unlike deserialize, systems and the renderer stay attached. Unlike restore,
+   * no entity is matched by ID, since the IDs in a save may belong to unrelated
+   * entities of this session: the loaded entities get new IDs and references
+   * between them are remapped.
+   * @param data Serialized world
+   * @returns The loaded entities, in data order
+   */
+  public replaceEntities(data: SerializedWorld): IEntity[] {
+    // Drop commands and patch IDs targeting the old entities
+    this.commandBuffer.clear();
+    this.patchedEntities.clear();
+    this.patchIds.clear();
+    
+    for (const entity of this.getRootEntities()) {
+      this.destroyEntity(entity);
+    }
+    
+    return this.deserializeEntities(data.entities, false);
+  }
+  
+  /**
+   * Compute the changes from one serialized world to another
+   * @param from The old world, e.g. a snapshot
+   * @param to The new world
+   * @returns A patch that turns from into to when applied with applyPatch
+   */
+  public static diff(from: SerializedWorld, to: SerializedWorld): WorldPatch {
+    return diffWorlds(from, to);
+  }
+  
+  /**
+   * Apply changes computed by World.diff to this world
+   * The world should be in the state the patch was computed from. Entities
+   * can't be created with a given ID, so added entities get new IDs; the
+   * world remembers their IDs in the patches, so later patches can change
+   * them and references to them are remapped.
+   * @param patch The changes
+   * @returns The added entities by their ID in the patch
+   */
+  public applyPatch(patch: WorldPatch): Map<number, IEntity> {
+    const removed = new Set(patch.removed);
+    
+    // Destroy entities, keeping children that stay
+    for (const id of patch.removed) {
+      const entity = this.resolvePatchId(id);
+      if (entity) {
+        this.destroyEntityKeepingChildren(entity, child => !removed.has(this.patchIds.get(child) ?? child.id));
+      }
+      this.forgetPatchId(id);
+    }
+    
+    // References in the patch use the IDs of the patched world
+    const remap: EntityRefRemapper = (ref: EntityRef) => {
+      const patched = this.patchedEntities.get(ref.id);
+      return patched && patched.generation === ref.generation ? createEntityRef(patched.entity) : ref;
+    };
+    
+    const addedData = patch.added.filter(isSerializedEntity);
+    const added = this.recreateEntities(addedData, remap);
+    for (const entityData of addedData) {
+      const entity = added.get(entityData.id)!;
+      this.forgetPatchId(entityData.id);
+      this.patchedEntities.set(entityData.id, { entity, generation: entityData.generation || 0 });
+      this.patchIds.set(entity, entityData.id);
+    }
+    
+    for (const entityPatch of patch.changed) {
+      const entity = this.resolvePatchId(entityPatch.id) as Entity | null;
+      if (!entity) {
+        console.warn(`Entity ${entityPatch.id} to patch not found`);
+        continue;
+      }
+      
+      if (entityPatch.name !== undefined) {
+        this.renameEntity(entity, entityPatch.name === null ? undefined : entityPatch.name);
+      }
+      if (entityPatch.active !== undefined) {
+        entity.active = entityPatch.active;
+      }
+      
+      for (const [typeId, componentPatch] of Object.entries(entityPatch.components || {})) {
+        this.applyComponentPatch(entity, typeId, componentPatch, remap);
+      }
+    }
+    
+    // Restore the hierarchy once all entities exist
+    for (const entityData of addedData) {
+      const parent = typeof entityData.parentId === 'number' ? this.resolvePatchId(entityData.parentId) : null;
+      if (parent) {
+        added.get(entityData.id)!.setParent(parent, false);
+      }
+    }
+    for (const entityPatch of patch.changed) {
+      const entity = this.resolvePatchId(entityPatch.id);
+      if (entity && entityPatch.parentId !== undefined) {
+        const parent = entityPatch.parentId !== null ? this.resolvePatchId(entityPatch.parentId) : null;
+        if (entity.getParent() !== parent) {
+          entity.setParent(parent, false);
+        }
+      }
+    }
+    
+    return added;
+  }
+  
+  /**
+   * Find the entity a patch addresses by ID
+   * Entities created by patches are found by their ID in the patches,
+   * other entities by their own ID
+   * @param id ID of the entity in the patch
+   * @returns The entity, or null if it isn't in this world
+   */
+  private resolvePatchId(id: number): IEntity | null {
+    const patched = this.patchedEntities.get(id);
+    const entity = patched ? patched.entity : this.entities.get(id);
+    
+    if (!entity || this.entities.get(entity.id) !== entity) return null;
+    
+    // The ID of an entity created by a patch may mean a different entity in the patches
+    return patched || !this.patchIds.has(entity) ? entity : null;
+  }
+  
+  /**
+   * Forget the entity created by a patch under an ID
+   * @param id ID of the entity in the patches
+   */
+  private forgetPatchId(id: number): void {
+    const patched = this.patchedEntities.get(id);
+    if (patched) {
+      this.patchIds.delete(patched.entity);
+      this.patchedEntities.delete(id);
+    }
+  }
+  
+  /**
+   * Apply the changes to the components of one type
+   * @param entity The entity
+   * @param typeId The stable type id of the components
+   * @param patch The changes
+   * @param remap Maps the references in the patch to entities of this world
+   */
+  private applyComponentPatch(entity: Entity, typeId: string, patch: ComponentPatch, remap: EntityRefRemapper): void {
+    const componentClass = this.componentRegistry.get(typeId);
+    if (!componentClass) {
+      console.warn(`Skipping unregistered component type: ${typeId}`);
+      return;
+    }
+    
+    if (patch === null) {
+      entity.removeComponents(componentClass);
+    } else if ('replace' in patch) {
+      this.replaceComponents(entity, componentClass, patch.replace);
+      entity.getComponents(componentClass).forEach(component => {
+        if (component.remapEntityRefs) {
+          component.remapEntityRefs(remap);
+        }
+      });
+    } else {
+      const components = entity.getComponents(componentClass);
+      
+      patch.fields.forEach((fields, index) => {
+        const component = components[index];
+        if (!fields || !component) return;
+        
+        // Edit the data with the IDs of the patched world, so all references are remapped alike
+        const data = this.serializeForPatch(component);
+        for (const [path, value] of Object.entries(fields)) {
+          setDataProperty(data, path, value);
+        }
+        component.deserialize(data);
+        if (component.remapEntityRefs) {
+          component.remapEntityRefs(remap);
+        }
+        this._onComponentChanged(entity, component);
+      });
+    }
+  }
+  
+  /**
+   * Serialize a component with references to entities created by patches
+   * pointing at their IDs in the patches
+   * @param component The component
+   */
+  private serializeForPatch(component: Component): unknown {
+    const data = component.serialize();
+    if (!component.remapEntityRefs || this.patchIds.size === 0) return data;
+    
+    const toPatchIds: EntityRefRemapper = (ref: EntityRef) => {
+      const entity = this.entities.get(ref.id);
+      const id = entity && entity.generation === ref.generation ? this.patchIds.get(entity) : undefined;
+      return id !== undefined ? { id, generation: this.patchedEntities.get(id)!.generation } : ref;
+    };
+    
+    // Remap on a detached copy so the component itself is left alone
+    const copy = new (component.constructor as ComponentClass)();
+    copy.deserialize(data);
+    copy.remapEntityRefs!(toPatchIds);
+    return copy.serialize();
+  }
+  
+  /**
+   * Destroy an entity, moving the children that should stay to the root first
+   * @param entity The entity
+   * @param keep Whether a child should stay
+   */
+  private destroyEntityKeepingChildren(entity: IEntity, keep: (child: IEntity) => boolean): void {
+    for (const child of entity.getChildren()) {
+      if (keep(child)) {
+        child.setParent(null, false);
+      }
+    }
+    this.destroyEntity(entity);
+  }
+  
+  /**
+   * Recreate serialized entities as root entities; their parents are set by the caller
+   * @param entitiesData Serialized entities
+   * @param remapExternalRefs Maps references to entities outside the data; they are kept by default
+   * @returns The created entities by their serialized ID
+   */
+  private recreateEntities(entitiesData: SerializedEntity[], remapExternalRefs?: EntityRefRemapper): Map<number, IEntity> {
+    const recreated: Map<number, IEntity> = new Map();
+    const rootsData = entitiesData.map(entityData => ({ ...entityData, parentId: null }));
+    
+    this.deserializeEntities(rootsData, remapExternalRefs || true).forEach((entity, index) => {
+      recreated.set(entitiesData[index].id, entity);
+    });
+    
+    return recreated;
+  }
+  
+  /**
+   * Point references to serialized entities at the entities recreated from them
+   * @param recreated The recreated entities by their serialized ID
+   * @param entitiesData The serialized entities
+   */
+  private remapToRecreated(recreated: Map<number, IEntity>, entitiesData: SerializedEntity[]): void {
+    if (recreated.size === 0) return;
+    
+    const generations: Map<number, number> = new Map(
+      entitiesData.map(entityData => [entityData.id, entityData.generation || 0])
+    );
+    const remap: EntityRefRemapper = (ref: EntityRef) => {
+      const entity = recreated.get(ref.id);
+      return entity && generations.get(ref.id) === ref.generation ? createEntityRef(entity) : ref;
+    };
+    
+    this.entities.forEach(entity => {
+      entity.getAllComponents().forEach(component => {
+        if (component.remapEntityRefs) {
+          component.remapEntityRefs(remap);
+          this._onComponentChanged(entity, component);
+        }
+      });
+    });
+  }
+  
+  /**
+   * Bring an existing entity to its serialized state
+   * Components whose data didn't change are left untouched
+   * @param entity The entity
+   * @param entityData The serialized entity
+   */
+  private restoreEntity(entity: Entity, entityData: SerializedEntity): void {
+    const name = typeof entityData.name === 'string' ? entityData.name : undefined;
+    if (entity.name !== name) {
+      this.renameEntity(entity, name);
+    }
+    
+    if (typeof entityData.active === 'boolean') {
+      entity.active = entityData.active;
+    }
+    
+    const componentsData: Record<string, unknown[]> = entityData.components || {};
+    
+    // Remove registered components the entity didn't have
+    for (const component of entity.getAllComponents()) {
+      const type = this.componentTypes.get(component.constructor as ComponentClass);
+      if (type && !componentsData[type.typeId]) {
+        entity.removeComponents(component.constructor as ComponentClass);
+      }
+    }
+    
+    for (const [typeId, componentDataArray] of Object.entries(componentsData)) {
+      const componentClass = this.componentRegistry.get(typeId);
+      if (!componentClass || !Array.isArray(componentDataArray)) continue;
+      
+      const components = entity.getComponents(componentClass);
+      
+      if (components.length === componentDataArray.length) {
+        // Update the components in place
+        components.forEach((component, index) => {
+          if (JSON.stringify(component.serialize()) !== JSON.stringify(componentDataArray[index])) {
+            component.deserialize(componentDataArray[index]);
+            this._onComponentChanged(entity, component);
+          }
+        });
+      } else {
+        this.replaceComponents(entity, componentClass, componentDataArray);
+      }
+    }
+  }
+  
+  /**
+   * Recreate all components of a type from serialized data
+   * @param entity The entity
+   * @param componentClass The component class
+   * @param componentDataArray Serialized components of the type
+   */
+  private replaceComponents(entity: Entity, componentClass: ComponentClass, componentDataArray: unknown[]): void {
+    entity.removeComponents(componentClass);
+    componentDataArray.forEach(componentData => {
+      const component = new componentClass();
+      component.deserialize(componentData);
+      entity.addComponent(component);
+    });
+  }
+  
+  /**
+   * Create entities from serialized entity data
+   * Components are created through the component registry, the hierarchy is restored
+   * from parent IDs and entity references are remapped to the new entities
+   * @param entitiesData Serialized entities
+   * @param keepExternalRefs Whether to keep references to entities outside the data
+   *   (e.g. for prefabs instantiated in the world they were made in) instead of dropping them,
+   *   or a function that maps them
+   * @returns The created entities, in data order
+   */
+  public deserializeEntities(entitiesData: unknown[], keepExternalRefs: boolean | EntityRefRemapper = false): IEntity[] {
+    const created: Entity[] = [];
+    
+    // Entities get new IDs, so keep track of them by their serialized ID
+    const entitiesBySerializedId: Map<number, Entity> = new Map();
+    const serializedGenerations: Map<number, number> = new Map();
+    const parentIds: Map<Entity, number> = new Map();
+    
     // Create and deserialize entities
     entitiesData.forEach(entityData => {
       if (typeof entityData !== 'object' || entityData === null) return;
@@ -477,6 +1245,15 @@ export class World implements IWorld {
       
       // Create the entity
       const entity = this.createEntity(name) as Entity;
+      created.push(entity);
+      
+      if (typeof data.id === 'number') {
+        entitiesBySerializedId.set(data.id, entity);
+        serializedGenerations.set(data.id, typeof data.generation === 'number' ? data.generation : 0);
+      }
+      if (typeof data.parentId === 'number') {
+        parentIds.set(entity, data.parentId);
+      }
       
       // Deserialize entity data
       entity.deserialize(entityData);
@@ -486,13 +1263,16 @@ export class World implements IWorld {
       
       if (typeof componentsData === 'object' && componentsData !== null) {
         // Iterate through component types
-        Object.entries(componentsData).forEach(([componentName, componentDataArray]) => {
+        Object.entries(componentsData).forEach(([typeId, componentDataArray]) => {
           if (!Array.isArray(componentDataArray)) return;
           
           // Create and add each component
           componentDataArray.forEach(componentData => {
-            const component = this.createComponentByName(componentName);
-            if (!component) return;
+            const component = this.createComponentByTypeId(typeId);
+            if (!component) {
+              console.warn(`Skipping unregistered component type: ${typeId}`);
+              return;
+            }
             
             // Deserialize the component
             component.deserialize(componentData);
@@ -503,6 +1283,41 @@ export class World implements IWorld {
         });
       }
     });
+    
+    // Restore the hierarchy once all entities exist (serialized transforms are local)
+    parentIds.forEach((parentId, entity) => {
+      const parent = entitiesBySerializedId.get(parentId);
+      if (parent) {
+        entity.setParent(parent, false);
+      } else {
+        console.warn(`Parent entity ${parentId} of entity ${entity.id} not found`);
+      }
+    });
+    
+    // Point entity references at the new entities
+    const remap: EntityRefRemapper = (ref: EntityRef) => {
+      const entity = entitiesBySerializedId.get(ref.id);
+      
+      if (entity) {
+        // A reference that was already stale when serialized stays invalid
+        return serializedGenerations.get(ref.id) === ref.generation ? createEntityRef(entity) : null;
+      }
+      
+      if (typeof keepExternalRefs === 'function') {
+        return keepExternalRefs(ref);
+      }
+      return keepExternalRefs ? ref : null;
+    };
+    
+    for (const entity of created) {
+      entity.getAllComponents().forEach(component => {
+        if (component.remapEntityRefs) {
+          component.remapEntityRefs(remap);
+        }
+      });
+    }
+    
+    return created;
   }
   
   /**
@@ -525,15 +1340,16 @@ export class World implements IWorld {
       this.entitiesByName.set(entity.name, entityImpl);
     }
     
-    // Check for ThreeObject component to find child entities
-    const threeObj = entity.getComponent(ThreeObject);
-    if (threeObj && threeObj.children.length > 0) {
-      // Recursively add all child entities
-      for (const childEntity of threeObj.children) {
-        // Don't re-add if already in this world
-        if (this.getEntity(childEntity.id) === null) {
-          this.addEntity(childEntity);
-        }
+    // Index the entity with its current components
+    this.queryIndex.updateEntity(entityImpl);
+    
+    publishEcsEvent(EcsEvents.ENTITY_CREATED, () => ({ world: this, entity: entityImpl }));
+    
+    // Recursively add all child entities
+    for (const childEntity of entity.getChildren()) {
+      // Don't re-add if already in this world
+      if (this.getEntity(childEntity.id) === null) {
+        this.addEntity(childEntity);
       }
     }
     
@@ -551,27 +1367,52 @@ export class World implements IWorld {
     
     if (!entityToRemove) return null;
     
-    // Remove from named entities map if it has a name
-    if (entityToRemove.name) {
-      this.entitiesByName.delete(entityToRemove.name);
-    }
+    // Unlink from a parent that stays in this world; the removed subtree keeps its own hierarchy
+    entityToRemove.setParent(null);
+    
+    this.removeEntityTree(entityToRemove);
     
-    // Check for ThreeObject component to find child entities
-    const threeObj = entityToRemove.getComponent(ThreeObject);
-    if (threeObj && threeObj.children.length > 0) {
-      // Recursively remove all child entities
-      for (const childEntity of [...threeObj.children]) {
-        this.removeEntity(childEntity);
+    return entityToRemove;
+  }
+  
+  /**
+   * Remove an entity from the named entities map
+   * If other entities share its name, the name maps to one of them instead
+   * @param entity The entity being removed
+   */
+  private unindexName(entity: Entity): void {
+    if (!entity.name || this.entitiesByName.get(entity.name) !== entity) return;
+    
+    this.entitiesByName.delete(entity.name);
+    
+    for (const other of this.entities.values()) {
+      if (other !== entity && other.name === entity.name) {
+        this.entitiesByName.set(entity.name, other);
+        break;
       }
     }
+  }
+  
+  /**
+   * Remove an entity and its descendants from this world
+   * @param entity The root of the subtree to remove
+   */
+  private removeEntityTree(entity: Entity): void {
+    // Remove from named entities map if it has a name
+    this.unindexName(entity);
     
-    // Remove from entities map
-    this.entities.delete(id);
+    // Recursively remove all child entities
+    for (const childEntity of entity.getChildren()) {
+      this.removeEntityTree(childEntity as Entity);
+    }
     
-    // Clear world reference
-    (entityToRemove as Entity)._setWorld(null);
+    // Remove from entities map and query index
+    this.entities.delete(entity.id);
+    this.queryIndex.removeEntity(entity);
     
-    return entityToRemove;
+    // Clear world reference and invalidate references into this world
+    entity._setWorld(null);
+    entity._invalidateRefs();
   }
   
   /**
@@ -3,7 +3,7 @@ import { BaseComponent } from '../Component';
 import { ComponentClass, IEntity } from '../types';
 import { ThreeObject } from './ThreeObject';
 import { MeshComponent } from './MeshComponent';
-import { AssetManager } from '../../core/assets/AssetManager';
+import { AssetManager, ModelLoadResult } from '../../core/assets/AssetManager';
 
 /**
  * Loop modes for animations
@@ -28,6 +28,11 @@ export class AnimationComponent extends BaseComponent {
    */
   private animations: THREE.AnimationClip[] = [];
   
+  /**
+   * Asset ID of the model the animations come from
+   */
+  private animationsId: string | null = null;
+  
   /**
    * Currently playing animations
    */
@@ -70,6 +75,7 @@ export class AnimationComponent extends BaseComponent {
   constructor(animations: THREE.AnimationClip[] = []) {
     super();
     this.animations = animations;
+    this.animationsId = AssetManager.getInstance().getAssetId(animations);
     
     // Log available animations for debugging
     if (this.animations.length > 0) {
@@ -95,6 +101,11 @@ export class AnimationComponent extends BaseComponent {
     if (threeObject) {
       // Create animation mixer for the model
       this.mixer = new THREE.AnimationMixer(threeObject.object);
+      
+      // Resume an animation restored by deserialize
+      if (this.currentAnimation && this.hasAnimation(this.currentAnimation)) {
+        this.playAnimation(this.currentAnimation);
+      }
     }
   }
   
@@ -121,6 +132,7 @@ export class AnimationComponent extends BaseComponent {
     this.actions.clear();
     
     this.animations = animations;
+    this.animationsId = AssetManager.getInstance().getAssetId(animations);
     
     // Log available animations for debugging
     if (this.animations.length > 0) {
@@ -129,6 +141,41 @@ export class AnimationComponent extends BaseComponent {
     }
   }
   
+  /**
+   * Use the animations of a model asset
+   * The model is loaded first if it isn't cached yet
+   * @param id Asset ID of the model
+   */
+  public setAnimationsAsset(id: string): void {
+    // Referenced right away, so the component serializes the same while loading
+    this.animationsId = id;
+    
+    AssetManager.getInstance().resolveAsset(id, (model: ModelLoadResult) => {
+      // Ignore models replaced while loading
+      if (this.animationsId !== id) return;
+      
+      // Setting the animations stops the current one, so play it again
+      const current = this.currentAnimation;
+      this.setAnimations(model.animations);
+      
+      if (current && this.hasAnimation(current)) {
+        if (this.mixer) {
+          this.playAnimation(current);
+        } else {
+          this.currentAnimation = current;
+        }
+      }
+    });
+  }
+  
+  /**
+   * Get the asset ID of the model the animations come from
+   * @returns The asset ID, or null if the animations aren't from a model asset
+   */
+  public getAnimationsId(): string | null {
+    return this.animationsId;
+  }
+  
   /**
    * Play an animation by name
    * @param name Name of the animation to play
@@ -281,7 +328,8 @@ export class AnimationComponent extends BaseComponent {
       loop: this.loop,
       loopMode: this.loopMode,
       crossFade: this.crossFade,
-      crossFadeDuration: this.crossFadeDuration
+      crossFadeDuration: this.crossFadeDuration,
+      animations: this.animationsId
     };
   }
   
@@ -298,12 +346,20 @@ export class AnimationComponent extends BaseComponent {
       // We don't play the animation directly here because the mixer might not be ready
       // The system using this component should handle starting the animation
       this.currentAnimation = animData.currentAnimation;
+    } else if (animData.currentAnimation === null && this.currentAnimation !== null) {
+      // Restoring a state without an animation playing
+      this.stopAllAnimations();
     }
-    
+
     if (typeof animData.playbackSpeed === 'number') this.playbackSpeed = animData.playbackSpeed;
     if (typeof animData.loop === 'boolean') this.loop = animData.loop;
     if (typeof animData.loopMode === 'string') this.loopMode = animData.loopMode as AnimationLoopMode;
     if (typeof animData.crossFade === 'boolean') this.crossFade = animData.crossFade;
     if (typeof animData.crossFadeDuration === 'number') this.crossFadeDuration = animData.crossFadeDuration;
+    
+    // The animations are referenced by asset ID and may still need loading
+    if (typeof animData.animations === 'string' && animData.animations !== this.animationsId) {
+      this.setAnimationsAsset(animData.animations);
+    }
   }
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { BaseComponent } from '../Component';
 import { ComponentClass, IEntity } from '../types';
+import { ComponentSchema, PropertyType } from '../ComponentSchema';
 import { ThreeObject } from './ThreeObject';
 
 /**
@@ -93,6 +94,61 @@ export class CameraComponent extends BaseComponent {
     return [ThreeObject];
   }
   
+  /**
+   * Editable properties, also used to serialize the camera
+   * The type is fixed when the camera is created
+   */
+  public static override getSchema(): ComponentSchema<CameraComponent> {
+    return {
+      type: {
+        type: PropertyType.ENUM,
+        values: Object.values(CameraType),
+        default: CameraType.PERSPECTIVE,
+        readOnly: true,
+        set: (camera, value) => { camera.type = value; }
+      },
+      isActive: { type: PropertyType.BOOLEAN, default: false, label: 'Active', set: (camera, value) => { camera.isActive = value; } },
+      fov: {
+        type: PropertyType.NUMBER,
+        default: 75,
+        min: 1,
+        max: 179,
+        label: 'Field of view',
+        get: camera => camera.fov,
+        set: (camera, value) => camera.setFov(value)
+      },
+      aspect: { type: PropertyType.NUMBER, default: 1, min: 0, get: camera => camera.aspect, set: (camera, value) => camera.setAspect(value) },
+      near: {
+        type: PropertyType.NUMBER,
+        default: 0.1,
+        min: 0,
+        get: camera => camera.near,
+        set: (camera, value) => camera.setClippingPlanes(value, camera.far)
+      },
+      far: {
+        type: PropertyType.NUMBER,
+        default: 1000,
+        min: 0,
+        get: camera => camera.far,
+        set: (camera, value) => camera.setClippingPlanes(camera.near, value)
+      },
+      size: { type: PropertyType.NUMBER, default: 10, min: 0, get: camera => camera.size, set: (camera, value) => camera.setSize(value) },
+      clearColor: {
+        type: PropertyType.COLOR,
+        default: 0x000000,
+        get: camera => camera.clearColor.getHex(),
+        set: (camera, value) => camera.setClearColor(value)
+      }
+    };
+  }
+  
+  /**
+   * Changes go through setters that call markChanged
+   */
+  public static override reportsChanges(): boolean {
+    return true;
+  }
+  
   /**
    * Get the camera object
    */
@@ -120,6 +176,8 @@ export class CameraComponent extends BaseComponent {
    */
   public setActive(isActive: boolean): void {
     this.isActive = isActive;
+    
+    this.markChanged();
   }
   
   /**
@@ -142,6 +200,8 @@ export class CameraComponent extends BaseComponent {
       orthoCamera.right = halfWidth;
       orthoCamera.updateProjectionMatrix();
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -156,6 +216,8 @@ export class CameraComponent extends BaseComponent {
       perspCamera.fov = fov;
       perspCamera.updateProjectionMatrix();
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -176,6 +238,8 @@ export class CameraComponent extends BaseComponent {
       orthoCamera.right = halfWidth;
       orthoCamera.updateProjectionMatrix();
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -198,6 +262,8 @@ export class CameraComponent extends BaseComponent {
       orthoCamera.far = far;
       orthoCamera.updateProjectionMatrix();
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -218,6 +284,8 @@ export class CameraComponent extends BaseComponent {
     } else {
       this.clearColor = new THREE.Color(color);
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -232,62 +300,4 @@ export class CameraComponent extends BaseComponent {
       threeObj.setObject(this.camera);
     }
   }
-  
-  /**
-   * Serialize this component
-   */
-  public override serialize(): unknown {
-    return {
-      type: this.type,
-      isActive: this.isActive,
-      fov: this.fov,
-      aspect: this.aspect,
-      near: this.near,
-      far: this.far,
-      size: this.size,
-      clearColor: this.clearColor.getHex()
-    };
-  }
-  
-  /**
-   * Deserialize this component
-   * @param data The data to deserialize from
-   */
-  public override deserialize(data: unknown): void {
-    if (typeof data !== 'object' || data === null) return;
-    
-    const cameraData = data as Record<string, any>;
-    
-    // Restore camera type
-    if (cameraData.type) {
-      this.type = cameraData.type as CameraType;
-    }
-    
-    // Restore active state
-    if (typeof cameraData.isActive === 'boolean') {
-      this.isActive = cameraData.isActive;
-    }
-    
-    // Restore camera properties
-    if (typeof cameraData.fov === 'number') {
-      this.setFov(cameraData.fov);
-    }
-    
-    if (typeof cameraData.aspect === 'number') {
-      this.setAspect(cameraData.aspect);
-    }
-    
-    if (typeof cameraData.near === 'number' && typeof cameraData.far === 'number') {
-      this.setClippingPlanes(cameraData.near, cameraData.far);
-    }
-    
-    if (typeof cameraData.size === 'number') {
-      this.setSize(cameraData.size);
-    }
-    
-    // Restore clear color
-    if (typeof cameraData.clearColor === 'number') {
-      this.setClearColor(cameraData.clearColor);
-    }
-  }
-} 
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { BaseComponent } from '../Component';
-import { ComponentClass, IEntity } from '../types';
+import { ComponentClass, EntityRef, EntityRefRemapper, IEntity } from '../types';
+import { createEntityRef, isEntityRef } from '../EntityRef';
 import { ThreeObject } from './ThreeObject';
 import { CurveComponent } from './CurveComponent';
 
@@ -26,7 +27,7 @@ export interface Constraint {
  * TrackTo constraint makes an entity point toward a target
  */
 export interface TrackToConstraint extends Constraint {
-  targetEntityId: number | null; // ID of the target entity
+  target: EntityRef | null; // Reference to the target entity
   trackAxis: THREE.Vector3; // Which local axis points to the target
   upAxis: THREE.Vector3; // Which axis aligns with the world up vector
   offset: THREE.Euler; // Additional offset rotation applied after tracking
@@ -36,7 +37,7 @@ export interface TrackToConstraint extends Constraint {
  * PathFollow constraint makes an entity follow a path defined by a CurveComponent
  */
 export interface PathFollowConstraint extends Constraint {
-  pathEntityId: number; // ID of the entity with the CurveComponent
+  path: EntityRef | null; // Reference to the entity with the CurveComponent
   distance: number; // Distance along the path (0-1)
   rotateToFace: boolean; // Whether entity should rotate to face movement direction
   trackAxis: THREE.Vector3; // Which local axis should align with the path direction
@@ -77,6 +78,8 @@ export class ConstraintComponent extends BaseComponent {
     
     // Sort constraints by priority (higher first)
     this.constraints.sort((a, b) => b.priority - a.priority);
+    
+    this.markChanged();
   }
 
   /**
@@ -87,7 +90,11 @@ export class ConstraintComponent extends BaseComponent {
   public removeConstraint(type: ConstraintType): boolean {
     const initialLength = this.constraints.length;
     this.constraints = this.constraints.filter(c => c.type !== type);
-    return this.constraints.length !== initialLength;
+    
+    if (this.constraints.length === initialLength) return false;
+    
+    this.markChanged();
+    return true;
   }
 
   /**
@@ -107,7 +114,7 @@ export class ConstraintComponent extends BaseComponent {
 
   /**
    * Create a TrackTo constraint
-   * @param targetEntityId The entity to track
+   * @param target The entity to track (or a reference to it)
    * @param trackAxis Which axis should point to the target (defaults to -Z forward)
    * @param upAxis Which axis should align with the world up vector (defaults to +Y up)
    * @param influence How much influence the constraint has (0-1)
@@ -116,7 +123,7 @@ export class ConstraintComponent extends BaseComponent {
    * @returns The created constraint
    */
   public createTrackToConstraint(
-    targetEntityId: number,
+    target: EntityRef,
     trackAxis: THREE.Vector3 = new THREE.Vector3(0, 0, -1), // Default to -Z (forward)
     upAxis: THREE.Vector3 = new THREE.Vector3(0, 1, 0), // Default to +Y (up)
     influence: number = 1.0,
@@ -132,7 +139,7 @@ export class ConstraintComponent extends BaseComponent {
       enabled: true,
       priority,
       influence,
-      targetEntityId,
+      target: createEntityRef(target),
       trackAxis: normalizedTrackAxis,
       upAxis: normalizedUpAxis,
       offset
@@ -144,7 +151,7 @@ export class ConstraintComponent extends BaseComponent {
 
   /**
    * Create a PathFollow constraint that follows a path defined by a CurveComponent
-   * @param pathEntityId ID of the entity with the CurveComponent
+   * @param path The entity with the CurveComponent (or a reference to it)
    * @param distance Initial distance along the path (0-1)
    * @param rotateToFace Whether entity should rotate to face movement direction
    * @param trackAxis Which axis should align with the path direction (defaults to -Z forward)
@@ -156,7 +163,7 @@ export class ConstraintComponent extends BaseComponent {
    * @returns The created constraint
    */
   public createPathFollowConstraint(
-    pathEntityId: number,
+    path: EntityRef,
     distance: number = 0,
     rotateToFace: boolean = true,
     trackAxis: THREE.Vector3 = new THREE.Vector3(0, 0, -1), // Default to -Z (forward)
@@ -175,7 +182,7 @@ export class ConstraintComponent extends BaseComponent {
       enabled: true,
       priority,
       influence,
-      pathEntityId,
+      path: createEntityRef(path),
       distance: Math.max(0, Math.min(1, distance)), // Clamp to 0-1
       rotateToFace,
       trackAxis: normalizedTrackAxis,
@@ -199,6 +206,7 @@ export class ConstraintComponent extends BaseComponent {
     
     // Update the first path constraint found (most common case)
     pathConstraints[0].distance = distance;
+    this.markChanged();
     return true;
   }
   
@@ -227,6 +235,7 @@ export class ConstraintComponent extends BaseComponent {
       constraint.loop = loop;
     }
     
+    this.markChanged();
     return true;
   }
 
@@ -321,6 +330,7 @@ export class ConstraintComponent extends BaseComponent {
           
           this.addConstraint({
             ...constraintItem,
+            target: isEntityRef(constraintItem.target) ? createEntityRef(constraintItem.target) : null,
             trackAxis,
             upAxis,
             offset
@@ -347,6 +357,7 @@ export class ConstraintComponent extends BaseComponent {
           
           this.addConstraint({
             ...constraintItem,
+            path: isEntityRef(constraintItem.path) ? createEntityRef(constraintItem.path) : null,
             trackAxis,
             upAxis,
             offset
@@ -355,4 +366,22 @@ export class ConstraintComponent extends BaseComponent {
       }
     }
   }
+  
+  /**
+   * Point the target and path references at the entities created on deserialization
+   * @param remap Maps a serialized reference to the new one
+   */
+  public override remapEntityRefs(remap: EntityRefRemapper): void {
+    for (const constraint of this.constraints) {
+      if (constraint.type === ConstraintType.TRACK_TO) {
+        const trackTo = constraint as TrackToConstraint;
+        trackTo.target = trackTo.target ? remap(trackTo.target) : null;
+      } else if (constraint.type === ConstraintType.PATH_FOLLOW) {
+        const pathFollow = constraint as PathFollowConstraint;
+        pathFollow.path = pathFollow.path ? remap(pathFollow.path) : null;
+      }
+    }
+    
+    this.markChanged();
+  }
 } 
\ No newline at end of file
@@ -154,6 +154,8 @@ export class CurveComponent extends BaseComponent {
     }
     
     this.updateCurve();
+    
+    this.markChanged();
   }
   
   /**
@@ -169,6 +171,8 @@ export class CurveComponent extends BaseComponent {
     }
     
     this.updateCurve();
+    
+    this.markChanged();
   }
   
   /**
@@ -178,6 +182,8 @@ export class CurveComponent extends BaseComponent {
   public setControlPoints(controlPoints: THREE.Vector3[]): void {
     this.controlPoints = controlPoints.map(p => p.clone());
     this.updateCurve();
+    
+    this.markChanged();
   }
   
   /**
@@ -201,6 +207,8 @@ export class CurveComponent extends BaseComponent {
         }
       }
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -228,6 +236,8 @@ export class CurveComponent extends BaseComponent {
         });
       }
     }
+    
+    this.markChanged();
   }
 
   /**
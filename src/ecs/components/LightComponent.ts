@@ -1,6 +1,8 @@
 import * as THREE from 'three';
 import { BaseComponent } from '../Component';
-import { ComponentClass, IEntity } from '../types';
+import { ComponentClass, EntityRef, EntityRefRemapper, IEntity } from '../types';
+import { createEntityRef } from '../EntityRef';
+import { ComponentSchema, PropertyType } from '../ComponentSchema';
 import { ThreeObject } from './ThreeObject';
 
 /**
@@ -8,11 +10,15 @@ import { ThreeObject } from './ThreeObject';
  */
 export enum LightType {
   POINT = 'point',
+  DIRECTIONAL = 'directional',
+  SPOT = 'spot',
+  HEMISPHERE = 'hemisphere',
 }
 
 /**
  * Component for managing lights in the scene
- * Currently only supports point lights
+ * Directional and spot lights shine from the entity towards their target
+ * entity, or along the entity's forward axis (-Z) without a target
  */
 export class LightComponent extends BaseComponent {
   /**
@@ -20,13 +26,24 @@ export class LightComponent extends BaseComponent {
    */
   private light: THREE.Light | null = null;
   
+  /**
+   * Target directional and spot lights point at without a target entity
+   * Placed in front of the light, so the entity's rotation aims the light
+   */
+  private defaultTarget: THREE.Object3D = new THREE.Object3D();
+  
+  /**
+   * Reusable vector for placing hemisphere lights
+   */
+  private tmpUp: THREE.Vector3 = new THREE.Vector3();
+  
   /**
    * Type of light
    */
   public lightType: LightType = LightType.POINT;
   
   /**
-   * Color of the light
+   * Color of the light (sky color for hemisphere lights)
    */
   public color: number = 0xffffff;
   
@@ -36,17 +53,74 @@ export class LightComponent extends BaseComponent {
   public intensity: number = 1.0;
   
   /**
-   * Distance that the light reaches (point lights only)
+   * Distance that the light reaches (point and spot lights only)
    * Default is 0, which means infinite distance
    */
   public distance: number = 0;
   
   /**
-   * The rate at which the intensity of the light decreases with distance (point lights only)
+   * The rate at which the intensity of the light decreases with distance (point and spot lights only)
    * Default is 1 (linear decay)
    */
   public decay: number = 1;
   
+  /**
+   * Entity the light points at (directional and spot lights only)
+   */
+  public target: EntityRef | null = null;
+  
+  /**
+   * Angle of the light cone from its direction in radians (spot lights only)
+   */
+  public angle: number = Math.PI / 3;
+  
+  /**
+   * Part of the cone that fades out at its edge, from 0 to 1 (spot lights only)
+   */
+  public penumbra: number = 0;
+  
+  /**
+   * Color of the light from below (hemisphere lights only)
+   */
+  public groundColor: number = 0x444444;
+  
+  /**
+   * Whether the light casts shadows (not for hemisphere lights)
+   * Meshes also need castShadow or receiveShadow to take part, and shadows.enabled must be set in the config
+   */
+  public castShadow: boolean = false;
+  
+  /**
+   * Width and height of the shadow map in texels
+   * Small maps match the low output resolution and keep shadow edges crisp
+   */
+  public shadowMapSize: number = 256;
+  
+  /**
+   * Depth offset against shadow acne
+   */
+  public shadowBias: number = -0.001;
+  
+  /**
+   * Offset along surface normals against shadow acne
+   */
+  public shadowNormalBias: number = 0;
+  
+  /**
+   * Width and height of the area covered by the shadow map (directional lights only)
+   */
+  public shadowCameraSize: number = 20;
+  
+  /**
+   * Near plane of the shadow camera
+   */
+  public shadowCameraNear: number = 0.5;
+  
+  /**
+   * Far plane of the shadow camera
+   */
+  public shadowCameraFar: number = 50;
+  
   /**
    * Constructor
    * @param lightType Type of light
@@ -54,14 +128,15 @@ export class LightComponent extends BaseComponent {
    * @param intensity Intensity of the light
    */
   constructor(
-    lightType: LightType = LightType.POINT, 
-    color: number = 0xffffff, 
+    lightType: LightType = LightType.POINT,
+    color: number = 0xffffff,
     intensity: number = 1.0
   ) {
     super();
     this.lightType = lightType;
     this.color = color;
     this.intensity = intensity;
+    this.defaultTarget.position.set(0, 0, -1);
   }
   
   /**
@@ -71,6 +146,85 @@ export class LightComponent extends BaseComponent {
     return [ThreeObject];
   }
   
+  /**
+   * Editable properties, also used to serialize the light
+   */
+  public static override getSchema(): ComponentSchema<LightComponent> {
+    return {
+      lightType: {
+        type: PropertyType.ENUM,
+        values: Object.values(LightType),
+        default: LightType.POINT,
+        label: 'Type',
+        set: (light, value) => light.setLightType(value)
+      },
+      color: { type: PropertyType.COLOR, default: 0xffffff, set: (light, value) => light.setColor(value) },
+      intensity: { type: PropertyType.NUMBER, default: 1, min: 0, step: 0.1, set: (light, value) => light.setIntensity(value) },
+      distance: { type: PropertyType.NUMBER, default: 0, min: 0, set: (light, value) => light.setDistance(value) },
+      decay: { type: PropertyType.NUMBER, default: 1, min: 0, step: 0.1, set: (light, value) => light.setDecay(value) },
+      target: {
+        type: PropertyType.ENTITY,
+        default: null,
+        description: 'Entity directional and spot lights point at',
+        set: (light, value) => light.setTarget(value)
+      },
+      angle: {
+        type: PropertyType.NUMBER,
+        default: Math.PI / 3,
+        min: 0,
+        max: Math.PI / 2,
+        step: 0.05,
+        description: 'Cone angle of spot lights in radians',
+        set: (light, value) => light.setAngle(value)
+      },
+      penumbra: {
+        type: PropertyType.NUMBER,
+        default: 0,
+        min: 0,
+        max: 1,
+        step: 0.05,
+        description: 'Soft edge of spot light cones',
+        set: (light, value) => light.setPenumbra(value)
+      },
+      groundColor: {
+        type: PropertyType.COLOR,
+        default: 0x444444,
+        description: 'Color of hemisphere lights from below',
+        set: (light, value) => light.setGroundColor(value)
+      },
+      castShadow: { type: PropertyType.BOOLEAN, default: false, set: (light, value) => light.setCastShadow(value) },
+      shadowMapSize: {
+        type: PropertyType.INTEGER,
+        default: 256,
+        min: 16,
+        max: 4096,
+        description: 'Shadow map size in texels',
+        set: (light, value) => light.setShadowMapSize(value)
+      },
+      shadowBias: { type: PropertyType.NUMBER, default: -0.001, step: 0.0005, set: (light, value) => light.setShadowBias(value) },
+      shadowNormalBias: { type: PropertyType.NUMBER, default: 0, step: 0.01, set: (light, value) => light.setShadowNormalBias(value) },
+      shadowCameraSize: {
+        type: PropertyType.NUMBER,
+        default: 20,
+        min: 0,
+        description: 'Area covered by directional light shadows',
+        set: (light, value) => light.setShadowCameraSize(value)
+      },
+      shadowCameraNear: {
+        type: PropertyType.NUMBER,
+        default: 0.5,
+        min: 0,
+        set: (light, value) => light.setShadowCameraClipping(value, light.shadowCameraFar)
+      },
+      shadowCameraFar: {
+        type: PropertyType.NUMBER,
+        default: 50,
+        min: 0,
+        set: (light, value) => light.setShadowCameraClipping(light.shadowCameraNear, value)
+      },
+    };
+  }
+  
   /**
    * Called when the component is added to an entity
    * @param entity The entity this component was added to
@@ -78,12 +232,7 @@ export class LightComponent extends BaseComponent {
   public override onAttach(entity: IEntity): void {
     // Create light
     this.createLight();
-    
-    // Get the ThreeObject component and add the light to it
-    const threeObj = entity.getComponent(ThreeObject);
-    if (threeObj && this.light) {
-      threeObj.object.add(this.light);
-    }
+    this.update();
   }
   
   /**
@@ -95,6 +244,15 @@ export class LightComponent extends BaseComponent {
     this.dispose();
   }
   
+  /**
+   * Point the target reference at the entity created on deserialization
+   * @param remap Maps a serialized reference to the new one
+   */
+  public override remapEntityRefs(remap: EntityRefRemapper): void {
+    this.target = this.target ? remap(this.target) : null;
+    this.update();
+  }
+  
   /**
    * Create the light based on current settings
    */
@@ -104,8 +262,39 @@ export class LightComponent extends BaseComponent {
     
     // Create new light based on type
     switch (this.lightType) {
+      case LightType.DIRECTIONAL: {
+        // Parallel rays from the light towards the target (e.g. the sun)
+        const directionalLight = new THREE.DirectionalLight(this.color, this.intensity);
+        directionalLight.position.set(0, 0, 0);
+        
+        this.light = directionalLight;
+        break;
+      }
+      
+      case LightType.SPOT: {
+        // Cone from the light towards the target (e.g. a torch)
+        const spotLight = new THREE.SpotLight(
+          this.color,
+          this.intensity,
+          this.distance,
+          this.angle,
+          this.penumbra,
+          this.decay
+        );
+        spotLight.position.set(0, 0, 0);
+        
+        this.light = spotLight;
+        break;
+      }
+      
+      case LightType.HEMISPHERE: {
+        // Sky color from above, ground color from below (e.g. ambient fill)
+        this.light = new THREE.HemisphereLight(this.color, this.groundColor, this.intensity);
+        break;
+      }
+      
       case LightType.POINT:
-      default:
+      default: {
         // Point light (emits in all directions)
         const pointLight = new THREE.PointLight(
           this.color,
@@ -116,9 +305,83 @@ export class LightComponent extends BaseComponent {
         
         this.light = pointLight;
         break;
+      }
     }
+    
+    // Directional and spot lights aim at the default target until a target entity is resolved
+    if (this.light instanceof THREE.DirectionalLight || this.light instanceof THREE.SpotLight) {
+      this.light.add(this.defaultTarget);
+      this.light.target = this.defaultTarget;
+    }
+    
+    this.applyShadow();
   }
-
+  
+  /**
+   * Apply the shadow settings to the light
+   * Hemisphere lights can't cast shadows
+   */
+  private applyShadow(): void {
+    if (!this.light || !this.light.shadow) return;
+    
+    const shadow = this.light.shadow;
+    this.light.castShadow = this.castShadow;
+    shadow.bias = this.shadowBias;
+    shadow.normalBias = this.shadowNormalBias;
+    
+    // The map is recreated at the new size on the next render
+    if (shadow.mapSize.x !== this.shadowMapSize || shadow.mapSize.y !== this.shadowMapSize) {
+      shadow.mapSize.set(this.shadowMapSize, this.shadowMapSize);
+      if (shadow.map) {
+        shadow.map.dispose();
+        shadow.map = null;
+      }
+    }
+    
+    const camera = shadow.camera;
+    if (camera instanceof THREE.OrthographicCamera) {
+      const halfSize = this.shadowCameraSize / 2;
+      camera.left = -halfSize;
+      camera.right = halfSize;
+      camera.top = halfSize;
+      camera.bottom = -halfSize;
+    }
+    if (camera instanceof THREE.OrthographicCamera || camera instanceof THREE.PerspectiveCamera) {
+      camera.near = this.shadowCameraNear;
+      camera.far = this.shadowCameraFar;
+      camera.updateProjectionMatrix();
+    }
+  }
+  
+  /**
+   * Keep the light attached to the entity's object and aimed at its target
+   * Called every update by the LightSystem, as the target entity may be
+   * created, destroyed or get a new object at any time
+   */
+  public update(): void {
+    const entity = this.entity;
+    if (!entity || !this.light) return;
+    
+    const threeObj = entity.getComponent(ThreeObject);
+    if (threeObj && this.light.parent !== threeObj.object) {
+      threeObj.object.add(this.light);
+    }
+    
+    if (this.light instanceof THREE.DirectionalLight || this.light instanceof THREE.SpotLight) {
+      const targetEntity = this.target && entity.world ? entity.world.resolveEntityRef(this.target) : null;
+      const targetObj = targetEntity ? targetEntity.getComponent(ThreeObject) : null;
+      
+      this.light.target = targetObj ? targetObj.object : this.defaultTarget;
+    }
+    
+    // Hemisphere lights take their up direction from their world position,
+    // so keep them one unit above the world origin wherever the entity is
+    if (this.light instanceof THREE.HemisphereLight && threeObj) {
+      threeObj.object.updateWorldMatrix(true, false);
+      this.light.position.copy(threeObj.object.worldToLocal(this.tmpUp.set(0, 1, 0)));
+    }
+  }
+  
   /**
    * Get the light object
    */
@@ -130,6 +393,14 @@ export class LightComponent extends BaseComponent {
    * Dispose existing light
    */
   private disposeLight(): void {
+    if (this.light) {
+      if (this.light.parent) {
+        this.light.parent.remove(this.light);
+      }
+      this.light.remove(this.defaultTarget);
+      this.light.dispose();
+    }
+    
     this.light = null;
   }
   
@@ -140,6 +411,22 @@ export class LightComponent extends BaseComponent {
     this.disposeLight();
   }
   
+  /**
+   * Change the type of the light, recreating it
+   * @param lightType The new type
+   */
+  public setLightType(lightType: LightType): void {
+    if (this.lightType === lightType) return;
+    
+    this.lightType = lightType;
+    if (this.light) {
+      this.createLight();
+      this.update();
+    }
+    
+    this.markChanged();
+  }
+  
   /**
    * Set the color of the light
    * @param color The color to set
@@ -149,6 +436,8 @@ export class LightComponent extends BaseComponent {
     if (this.light) {
       this.light.color.set(color);
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -160,57 +449,151 @@ export class LightComponent extends BaseComponent {
     if (this.light) {
       this.light.intensity = intensity;
     }
+    
+    this.markChanged();
   }
   
   /**
-   * Set the distance of the point light
+   * Set the distance of the point or spot light
    * @param distance The distance to set
    */
   public setDistance(distance: number): void {
     this.distance = distance;
-    if (this.light && this.light instanceof THREE.PointLight) {
+    if (this.light instanceof THREE.PointLight || this.light instanceof THREE.SpotLight) {
       this.light.distance = distance;
     }
+    
+    this.markChanged();
   }
   
   /**
-   * Set the decay rate of the point light
+   * Set the decay rate of the point or spot light
    * @param decay The decay rate to set
    */
   public setDecay(decay: number): void {
     this.decay = decay;
-    if (this.light && this.light instanceof THREE.PointLight) {
+    if (this.light instanceof THREE.PointLight || this.light instanceof THREE.SpotLight) {
       this.light.decay = decay;
     }
+    
+    this.markChanged();
   }
   
   /**
-   * Serialize this component
+   * Set the entity the directional or spot light points at
+   * @param target The entity (or a reference to it), or null to point along the entity's forward axis
    */
-  public override serialize(): unknown {
-    return {
-      lightType: this.lightType,
-      color: this.color,
-      intensity: this.intensity,
-      distance: this.distance,
-      decay: this.decay,
-    };
+  public setTarget(target: EntityRef | null): void {
+    this.target = target ? createEntityRef(target) : null;
+    this.update();
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the cone angle of the spot light
+   * @param angle The angle from the light direction in radians, up to PI / 2
+   */
+  public setAngle(angle: number): void {
+    this.angle = angle;
+    if (this.light instanceof THREE.SpotLight) {
+      this.light.angle = angle;
+    }
+    
+    this.markChanged();
   }
   
   /**
-   * Deserialize this component
-   * @param data The data to deserialize from
+   * Set the soft edge of the spot light cone
+   * @param penumbra Part of the cone that fades out, from 0 to 1
    */
-  public override deserialize(data: unknown): void {
-    if (typeof data !== 'object' || data === null) return;
+  public setPenumbra(penumbra: number): void {
+    this.penumbra = penumbra;
+    if (this.light instanceof THREE.SpotLight) {
+      this.light.penumbra = penumbra;
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the ground color of the hemisphere light
+   * @param color The color to set
+   */
+  public setGroundColor(color: number): void {
+    this.groundColor = color;
+    if (this.light instanceof THREE.HemisphereLight) {
+      this.light.groundColor.set(color);
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set whether the light casts shadows
+   * @param castShadow Whether the light casts shadows
+   */
+  public setCastShadow(castShadow: boolean): void {
+    this.castShadow = castShadow;
+    this.applyShadow();
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the size of the shadow map
+   * @param size Width and height of the shadow map in texels
+   */
+  public setShadowMapSize(size: number): void {
+    this.shadowMapSize = size;
+    this.applyShadow();
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the depth offset of the shadow
+   * @param bias The bias to set
+   */
+  public setShadowBias(bias: number): void {
+    this.shadowBias = bias;
+    this.applyShadow();
     
-    const lightData = data as Record<string, any>;
+    this.markChanged();
+  }
+  
+  /**
+   * Set the offset of the shadow along surface normals
+   * @param normalBias The normal bias to set
+   */
+  public setShadowNormalBias(normalBias: number): void {
+    this.shadowNormalBias = normalBias;
+    this.applyShadow();
     
-    // Restore properties
-    if (lightData.lightType) this.lightType = lightData.lightType;
-    if (typeof lightData.color === 'number') this.color = lightData.color;
-    if (typeof lightData.intensity === 'number') this.intensity = lightData.intensity;
-    if (typeof lightData.distance === 'number') this.distance = lightData.distance;
-    if (typeof lightData.decay === 'number') this.decay = lightData.decay;
+    this.markChanged();
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Set the area covered by the shadow map of the directional light
+   * @param size Width and height of the area
+   */
+  public setShadowCameraSize(size: number): void {
+    this.shadowCameraSize = size;
+    this.applyShadow();
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the near and far planes of the shadow camera
+   * @param near The near plane
+   * @param far The far plane
+   */
+  public setShadowCameraClipping(near: number, far: number): void {
+    this.shadowCameraNear = near;
+    this.shadowCameraFar = far;
+    this.applyShadow();
+    
+    this.markChanged();
+  }
+}
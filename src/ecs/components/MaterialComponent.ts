@@ -3,41 +3,110 @@ import { BaseComponent } from '../Component';
 import { ComponentClass, IEntity } from '../types';
 import { ThreeObject } from './ThreeObject';
 import { MeshComponent } from './MeshComponent';
+import { AssetManager } from '../../core/assets/AssetManager';
+
+/**
+ * Kinds of materials
+ */
+export enum MaterialKind {
+  /**
+   * Unlit, only the color and map
+   */
+  BASIC = 'basic',
+
+  /**
+   * Diffuse lighting (default)
+   */
+  LAMBERT = 'lambert',
+
+  /**
+   * Cel shading in bands set by the gradient map
+   */
+  TOON = 'toon',
+
+  /**
+   * Physically based, with roughness and metalness
+   */
+  STANDARD = 'standard',
+
+  /**
+   * Custom vertex and fragment shaders
+   */
+  SHADER = 'shader',
+}
+
+/**
+ * Texture maps of a material
+ */
+export type MaterialMap = 'map' | 'normalMap' | 'gradientMap';
+
+/**
+ * All texture maps, in serialization order
+ */
+const MATERIAL_MAPS: MaterialMap[] = ['map', 'normalMap', 'gradientMap'];
 
 /**
  * Interface for material options
+ * Options a kind doesn't use are kept, so switching kinds back restores them
  */
 export interface MaterialOptions {
+  kind?: MaterialKind;
   color?: number;
   transparent?: boolean;
   opacity?: number;
   map?: THREE.Texture | null;
-  emissive?: number;
+  emissive?: number; // Not for basic and shader materials
   emissiveIntensity?: number;
   side?: THREE.Side;
+  normalMap?: THREE.Texture | null; // Not for basic materials
+  gradientMap?: THREE.Texture | null; // Toon only; one texel per light band
+  roughness?: number; // Standard only
+  metalness?: number; // Standard only
+  alphaTest?: number; // Pixels with a lower alpha are discarded
+  vertexColors?: boolean;
+  vertexShader?: string | null; // Shader only; GLSL source
+  fragmentShader?: string | null; // Shader only; GLSL source
 }
 
 /**
  * Component that manages Three.js materials
- * Initially focuses on MeshLambertMaterial
+ * Custom shaders get the color, opacity, map and normalMap options as uniforms
  */
 export class MaterialComponent extends BaseComponent {
   /**
    * The Three.js material
    */
-  private material: THREE.MeshLambertMaterial | null = null;
+  private material: THREE.Material | null = null;
   
   /**
    * Material options
    */
   private options: MaterialOptions = {
+    kind: MaterialKind.LAMBERT,
     color: 0x808080,
     transparent: false,
     opacity: 1.0,
     map: null,
     emissive: 0x000000,
     emissiveIntensity: 1.0,
-    side: THREE.DoubleSide
+    side: THREE.DoubleSide,
+    normalMap: null,
+    gradientMap: null,
+    roughness: 1.0,
+    metalness: 0.0,
+    alphaTest: 0,
+    vertexColors: false,
+    vertexShader: null,
+    fragmentShader: null
+  };
+  
+  /**
+   * Asset IDs of the texture maps
+   */
+  private mapIds: Record<MaterialMap, string | null> = {
+    map: null,
+    normalMap: null,
+    gradientMap: null
   };
   
   /**
@@ -57,6 +126,13 @@ export class MaterialComponent extends BaseComponent {
     return [ThreeObject, MeshComponent];
   }
   
+  /**
+   * The material setters call markChanged
+   */
+  public static override reportsChanges(): boolean {
+    return true;
+  }
+  
   /**
    * Set material options
    * @param options Options to apply
@@ -68,6 +144,12 @@ export class MaterialComponent extends BaseComponent {
       ...options
     };
     
+    for (const name of MATERIAL_MAPS) {
+      if (options[name] !== undefined) {
+        this.mapIds[name] = AssetManager.getInstance().getAssetId(options[name]);
+      }
+    }
+    
     // Update material if it exists
     if (this.material) {
       this.updateMaterial();
@@ -90,38 +172,137 @@ export class MaterialComponent extends BaseComponent {
       this.material.dispose();
     }
     
-    if(this.options.map) {
-      this.options.map.colorSpace = THREE.SRGBColorSpace;
+    for (const name of MATERIAL_MAPS) {
+      this.prepareTexture(name, this.options[name] || null);
     }
-
-    // Create new material
-    this.material = new THREE.MeshLambertMaterial({
-      color: this.options.color,
+    
+    // Parameters every kind supports
+    const common = {
       transparent: this.options.transparent,
       opacity: this.options.opacity,
-      map: this.options.map,
-      emissive: this.options.emissive,
-      emissiveIntensity: this.options.emissiveIntensity,
-      side: this.options.side
-    });
+      side: this.options.side,
+      alphaTest: this.options.alphaTest,
+      vertexColors: this.options.vertexColors
+    };
+    
+    // Create new material
+    switch (this.options.kind) {
+      case MaterialKind.BASIC:
+        this.material = new THREE.MeshBasicMaterial({
+          ...common,
+          color: this.options.color,
+          map: this.options.map
+        });
+        break;
+      
+      case MaterialKind.TOON:
+        this.material = new THREE.MeshToonMaterial({
+          ...common,
+          color: this.options.color,
+          map: this.options.map,
+          normalMap: this.options.normalMap,
+          gradientMap: this.options.gradientMap,
+          emissive: this.options.emissive,
+          emissiveIntensity: this.options.emissiveIntensity
+        });
+        break;
+      
+      case MaterialKind.STANDARD:
+        this.material = new THREE.MeshStandardMaterial({
+          ...common,
+          color: this.options.color,
+          map: this.options.map,
+          normalMap: this.options.normalMap,
+          roughness: this.options.roughness,
+          metalness: this.options.metalness,
+          emissive: this.options.emissive,
+          emissiveIntensity: this.options.emissiveIntensity
+        });
+        break;
+      
+      case MaterialKind.SHADER:
+        // Without shaders of its own, Three.js renders the material in plain red
+        this.material = new THREE.ShaderMaterial({
+          ...common,
+          ...(this.options.vertexShader ? { vertexShader: this.options.vertexShader } : {}),
+          ...(this.options.fragmentShader ? { fragmentShader: this.options.fragmentShader } : {}),
+          uniforms: {
+            color: { value: new THREE.Color(this.options.color) },
+            opacity: { value: this.options.opacity },
+            map: { value: this.options.map || null },
+            normalMap: { value: this.options.normalMap || null }
+          }
+        });
+        break;
+      
+      case MaterialKind.LAMBERT:
+      default:
+        this.material = new THREE.MeshLambertMaterial({
+          ...common,
+          color: this.options.color,
+          map: this.options.map,
+          normalMap: this.options.normalMap as THREE.Texture,
+          emissive: this.options.emissive,
+          emissiveIntensity: this.options.emissiveIntensity
+        });
+        break;
+    }
+  }
+  
+  /**
+   * Set up a texture for its use in the material
+   * @param name The map the texture is used as
+   * @param texture The texture
+   */
+  private prepareTexture(name: MaterialMap, texture: THREE.Texture | null): void {
+    if (!texture) return;
+    
+    if (name === 'map') {
+      texture.colorSpace = THREE.SRGBColorSpace;
+    } else if (name === 'gradientMap') {
+      // Interpolating the ramp would blur the light bands
+      texture.minFilter = THREE.NearestFilter;
+      texture.magFilter = THREE.NearestFilter;
+      texture.generateMipmaps = false;
+    }
   }
   
   /**
    * Get the Three.js material
    */
-  public getMaterial(): THREE.MeshLambertMaterial | null {
+  public getMaterial(): THREE.Material | null {
     return this.material;
   }
   
+  /**
+   * Get the kind of the material
+   */
+  public getKind(): MaterialKind {
+    return this.options.kind || MaterialKind.LAMBERT;
+  }
+  
+  /**
+   * Change the kind of the material, recreating it
+   * @param kind The new kind
+   */
+  public setKind(kind: MaterialKind): void {
+    this.options.kind = kind;
+    this.updateMaterial();
+  }
+  
   /**
    * Set material color
    * @param color New color value
    */
   public setColor(color: number): void {
     this.options.color = color;
-    if (this.material) {
+    if (this.material instanceof THREE.ShaderMaterial) {
+      this.material.uniforms.color.value.setHex(color);
+    } else if (this.material && 'color' in this.material && this.material.color instanceof THREE.Color) {
       this.material.color.setHex(color);
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -135,12 +316,14 @@ export class MaterialComponent extends BaseComponent {
       this.options.emissiveIntensity = intensity;
     }
     
-    if (this.material) {
+    if (this.material && 'emissive' in this.material && this.material.emissive instanceof THREE.Color) {
       this.material.emissive.setHex(color);
       if (intensity !== undefined) {
-        this.material.emissiveIntensity = intensity;
+        (this.material as THREE.MeshLambertMaterial).emissiveIntensity = intensity;
       }
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -154,7 +337,13 @@ export class MaterialComponent extends BaseComponent {
     if (this.material) {
       this.material.transparent = transparent;
       this.material.opacity = opacity;
+      
+      if (this.material instanceof THREE.ShaderMaterial) {
+        this.material.uniforms.opacity.value = opacity;
+      }
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -162,13 +351,80 @@ export class MaterialComponent extends BaseComponent {
    * @param texture The texture to use, or null to clear
    */
   public setTexture(texture: THREE.Texture | null): void {
-    this.options.map = texture;
-    if (this.material) {
-      this.material.map = texture;
+    this.setMap('map', texture);
+  }
+  
+  /**
+   * Set the texture map to a texture asset
+   * The texture is loaded first if it isn't cached yet
+   * @param id Asset ID of the texture, or null to clear
+   */
+  public setTextureAsset(id: string | null): void {
+    this.setMapAsset('map', id);
+  }
+  
+  /**
+   * Get the asset ID of the texture map
+   * @returns The asset ID, or null if there is no map or it isn't a texture asset
+   */
+  public getTextureId(): string | null {
+    return this.getMapId('map');
+  }
+  
+  /**
+   * Set one of the texture maps
+   * @param name The map to set
+   * @param texture The texture to use, or null to clear
+   */
+  public setMap(name: MaterialMap, texture: THREE.Texture | null): void {
+    this.options[name] = texture;
+    this.mapIds[name] = AssetManager.getInstance().getAssetId(texture);
+    this.prepareTexture(name, texture);
+    
+    if (this.material instanceof THREE.ShaderMaterial) {
+      if (this.material.uniforms[name]) {
+        this.material.uniforms[name].value = texture;
+      }
+    } else if (this.material && name in this.material) {
+      (this.material as unknown as Record<string, unknown>)[name] = texture;
       this.material.needsUpdate = true;
     }
+    
+    this.markChanged();
   }
-
+  
+  /**
+   * Set one of the texture maps to a texture asset
+   * The texture is loaded first if it isn't cached yet
+   * @param name The map to set
+   * @param id Asset ID of the texture, or null to clear
+   */
+  public setMapAsset(name: MaterialMap, id: string | null): void {
+    if (!id) {
+      this.setMap(name, null);
+      return;
+    }
+    
+    // Referenced right away, so the component serializes the same while loading
+    this.mapIds[name] = id;
+    
+    AssetManager.getInstance().resolveAsset(id, (texture: THREE.Texture) => {
+      // Ignore textures replaced while loading
+      if (this.mapIds[name] === id) {
+        this.setMap(name, texture);
+      }
+    });
+  }
+  
+  /**
+   * Get the asset ID of one of the texture maps
+   * @param name The map
+   * @returns The asset ID, or null if there is no such map or it isn't a texture asset
+   */
+  public getMapId(name: MaterialMap): string | null {
+    return this.mapIds[name];
+  }
+  
   /**
    * Set the side of the material
    * @param side The side to use
@@ -178,6 +434,79 @@ export class MaterialComponent extends BaseComponent {
     if (this.material) {
       this.material.side = side;
     }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the roughness of the standard material
+   * @param roughness Roughness from 0 (mirror) to 1 (diffuse)
+   */
+  public setRoughness(roughness: number): void {
+    this.options.roughness = roughness;
+    if (this.material instanceof THREE.MeshStandardMaterial) {
+      this.material.roughness = roughness;
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the metalness of the standard material
+   * @param metalness Metalness from 0 (non-metal) to 1 (metal)
+   */
+  public setMetalness(metalness: number): void {
+    this.options.metalness = metalness;
+    if (this.material instanceof THREE.MeshStandardMaterial) {
+      this.material.metalness = metalness;
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the alpha below which pixels are discarded
+   * Cuts out sprites and foliage without the sorting issues of transparency
+   * @param alphaTest Alpha threshold from 0 (off) to 1
+   */
+  public setAlphaTest(alphaTest: number): void {
+    this.options.alphaTest = alphaTest;
+    if (this.material) {
+      this.material.alphaTest = alphaTest;
+      this.material.needsUpdate = true;
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set whether the material is tinted by the geometry's vertex colors
+   * @param vertexColors Whether to use vertex colors
+   */
+  public setVertexColors(vertexColors: boolean): void {
+    this.options.vertexColors = vertexColors;
+    if (this.material) {
+      this.material.vertexColors = vertexColors;
+      this.material.needsUpdate = true;
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set the shaders of the custom shader material
+   * @param vertexShader GLSL source of the vertex shader
+   * @param fragmentShader GLSL source of the fragment shader
+   */
+  public setShaders(vertexShader: string, fragmentShader: string): void {
+    this.options.vertexShader = vertexShader;
+    this.options.fragmentShader = fragmentShader;
+    
+    if (this.options.kind === MaterialKind.SHADER) {
+      this.updateMaterial();
+    } else {
+      this.markChanged();
+    }
   }
   
   /**
@@ -252,23 +581,33 @@ export class MaterialComponent extends BaseComponent {
         this.applyToMesh(threeObject.object);
       }
     }
+    
+    this.markChanged();
   }
   
   /**
    * Serialize this component
+   * Texture maps are written as asset IDs
    */
   public override serialize(): unknown {
     return {
       options: {
+        kind: this.options.kind,
         color: this.options.color,
         transparent: this.options.transparent,
         opacity: this.options.opacity,
         emissive: this.options.emissive,
         emissiveIntensity: this.options.emissiveIntensity,
         side: this.options.side,
-        // Note: Textures cannot be directly serialized
-        // In a real implementation, we would store the texture path/id
-        hasTexture: this.options.map !== null
+        map: this.mapIds.map,
+        normalMap: this.mapIds.normalMap,
+        gradientMap: this.mapIds.gradientMap,
+        roughness: this.options.roughness,
+        metalness: this.options.metalness,
+        alphaTest: this.options.alphaTest,
+        vertexColors: this.options.vertexColors,
+        vertexShader: this.options.vertexShader,
+        fragmentShader: this.options.fragmentShader
       }
     };
   }
@@ -288,16 +627,29 @@ export class MaterialComponent extends BaseComponent {
       const optionsData = componentData.options;
       
       // Restore properties
+      if (Object.values(MaterialKind).includes(optionsData.kind)) options.kind = optionsData.kind;
       if (typeof optionsData.color === 'number') options.color = optionsData.color;
       if (typeof optionsData.transparent === 'boolean') options.transparent = optionsData.transparent;
       if (typeof optionsData.opacity === 'number') options.opacity = optionsData.opacity;
       if (typeof optionsData.emissive === 'number') options.emissive = optionsData.emissive;
       if (typeof optionsData.emissiveIntensity === 'number') options.emissiveIntensity = optionsData.emissiveIntensity;
       if (typeof optionsData.side === 'number') options.side = optionsData.side;
+      if (typeof optionsData.roughness === 'number') options.roughness = optionsData.roughness;
+      if (typeof optionsData.metalness === 'number') options.metalness = optionsData.metalness;
+      if (typeof optionsData.alphaTest === 'number') options.alphaTest = optionsData.alphaTest;
+      if (typeof optionsData.vertexColors === 'boolean') options.vertexColors = optionsData.vertexColors;
+      if (typeof optionsData.vertexShader === 'string' || optionsData.vertexShader === null) options.vertexShader = optionsData.vertexShader;
+      if (typeof optionsData.fragmentShader === 'string' || optionsData.fragmentShader === null) options.fragmentShader = optionsData.fragmentShader;
       // Apply the options
       this.setOptions(options);
+      
+      // The textures are referenced by asset ID and may still need loading
+      for (const name of MATERIAL_MAPS) {
+        const id = typeof optionsData[name] === 'string' ? optionsData[name] : null;
+        if (id !== this.mapIds[name]) {
+          this.setMapAsset(name, id);
+        }
+      }
     }
-    
-    // Note: Texture would be loaded by AssetManager in a real implementation
   }
-} 
\ No newline at end of file
+}
@@ -1,7 +1,9 @@
 import * as THREE from 'three';
 import { BaseComponent } from '../Component';
 import { ComponentClass, IEntity } from '../types';
+import { ComponentSchema, PropertyType, deserializeProperties, serializeProperties } from '../ComponentSchema';
 import { ThreeObject } from './ThreeObject';
+import { AssetManager, ModelLoadResult } from '../../core/assets/AssetManager';
 
 /**
  * Enum for basic geometry types
@@ -49,6 +51,16 @@ export class MeshComponent extends BaseComponent {
    */
   private rootBone: THREE.Bone | null = null;
   
+  /**
+   * Asset ID of the model the geometry comes from
+   */
+  private modelId: string | null = null;
+  
+  /**
+   * Asset ID of the model the skeleton comes from
+   */
+  private skeletonId: string | null = null;
+  
   /**
    * Type of geometry to create
    */
@@ -81,6 +93,17 @@ export class MeshComponent extends BaseComponent {
    */
   public segments: number = 8;
   
+  /**
+   * Whether the mesh casts shadows from lights with castShadow
+   */
+  public castShadow: boolean = false;
+  
+  /**
+   * Whether shadows are drawn on the mesh
+   * Unlit (basic) materials don't show shadows
+   */
+  public receiveShadow: boolean = false;
+  
   /**
    * Constructor
    * @param geometryType Type of geometry to create
@@ -104,12 +127,14 @@ export class MeshComponent extends BaseComponent {
     if (geometryType === GeometryType.MODEL && geometry) {
       console.log('Setting geometry directly');
       this.geometry = geometry;
+      this.modelId = AssetManager.getInstance().getAssetId(geometry);
     }
     
     // Store the skeleton and root bone if provided
     if (skeleton) {
       console.log('Setting skeleton with', skeleton.bones.length, 'bones');
       this.skeleton = skeleton;
+      this.skeletonId = AssetManager.getInstance().getAssetId(skeleton);
     }
     
     if (rootBone) {
@@ -126,6 +151,31 @@ export class MeshComponent extends BaseComponent {
     return [ThreeObject];
   }
   
+  /**
+   * Editable properties of the generated geometry
+   * Model and skeleton references are serialized separately
+   */
+  public static override getSchema(): ComponentSchema<MeshComponent> {
+    return {
+      geometryType: { type: PropertyType.ENUM, values: Object.values(GeometryType), default: GeometryType.BOX, label: 'Geometry' },
+      wireframe: { type: PropertyType.BOOLEAN, default: true },
+      color: { type: PropertyType.COLOR, default: 0x00ff00 },
+      size: {
+        type: PropertyType.OBJECT,
+        default: { width: 1, height: 1, depth: 1 },
+        properties: {
+          width: { type: PropertyType.NUMBER, default: 1, min: 0, step: 0.1 },
+          height: { type: PropertyType.NUMBER, default: 1, min: 0, step: 0.1 },
+          depth: { type: PropertyType.NUMBER, default: 1, min: 0, step: 0.1 },
+        }
+      },
+      radius: { type: PropertyType.NUMBER, default: 0.5, min: 0, step: 0.1 },
+      segments: { type: PropertyType.INTEGER, default: 8, min: 1 },
+      castShadow: { type: PropertyType.BOOLEAN, default: false, set: (mesh, value) => mesh.setCastShadow(value) },
+      receiveShadow: { type: PropertyType.BOOLEAN, default: false, set: (mesh, value) => mesh.setReceiveShadow(value) },
+    };
+  }
+  
   /**
    * Called when the component is added to an entity
    * @param entity The entity this component was added to
@@ -140,7 +190,7 @@ export class MeshComponent extends BaseComponent {
     if (entity.hasComponent(ThreeObject)) {
       // Update existing ThreeObject
       const threeObject = entity.getComponent(ThreeObject)!;
-      threeObject.setObject(this.mesh!);
+      threeObject.setObject(this.mesh!, true);
       console.log(`Updated ThreeObject on entity ${entity.name || entity.id} with mesh`);
     } else {
       // In Phase 7, we should auto-add ThreeObject to make the integration easier
@@ -158,13 +208,27 @@ export class MeshComponent extends BaseComponent {
     this.dispose();
   }
   
+  /**
+   * Rebuild the mesh after a property was edited
+   * @param name Name of the property
+   */
+  public override onPropertyChanged(name: string): void {
+    // Shadow flags are applied by their setters
+    if (name !== 'castShadow' && name !== 'receiveShadow') {
+      this.updateMesh();
+    }
+  }
+  
   /**
    * Create the geometry based on the current settings
    */
   private createGeometry(): void {
     // Dispose existing geometry
-    if (this.geometry) {
-      this.geometry.dispose();
+    this.disposeGeometry();
+    
+    // Only models use asset geometry
+    if (this.geometryType !== GeometryType.MODEL) {
+      this.modelId = null;
     }
     
     // Create new geometry based on type
@@ -349,7 +413,7 @@ export class MeshComponent extends BaseComponent {
     
     // Dispose existing mesh
     if (this.mesh) {
-      if (this.mesh.geometry) {
+      if (this.mesh.geometry && !this.isAssetGeometry(this.mesh.geometry)) {
         this.mesh.geometry.dispose();
       }
       if (this.mesh.material instanceof THREE.Material) {
@@ -389,6 +453,9 @@ export class MeshComponent extends BaseComponent {
     
     // Set the name
     this.mesh.name = 'mesh_' + this.geometryType;
+    
+    this.mesh.castShadow = this.castShadow;
+    this.mesh.receiveShadow = this.receiveShadow;
   }
   
   /**
@@ -412,9 +479,11 @@ export class MeshComponent extends BaseComponent {
     if (entity && this.mesh) {
       const threeObject = entity.getComponent(ThreeObject);
       if (threeObject) {
-        threeObject.setObject(this.mesh);
+        threeObject.setObject(this.mesh, true);
       }
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -423,12 +492,13 @@ export class MeshComponent extends BaseComponent {
    */
   public setGeometry(geometry: THREE.BufferGeometry): void {
     // Dispose existing geometry
-    if (this.geometry) {
-      this.geometry.dispose();
+    if (this.geometry !== geometry) {
+      this.disposeGeometry();
     }
     
     // Set the new geometry
     this.geometry = geometry;
+    this.modelId = AssetManager.getInstance().getAssetId(geometry);
     
     // Update or create material if needed
     if (!this.material) {
@@ -452,9 +522,11 @@ export class MeshComponent extends BaseComponent {
     if (entity && this.mesh) {
       const threeObject = entity.getComponent(ThreeObject);
       if (threeObject) {
-        threeObject.setObject(this.mesh);
+        threeObject.setObject(this.mesh, true);
       }
     }
+    
+    this.markChanged();
   }
   
   /**
@@ -464,6 +536,7 @@ export class MeshComponent extends BaseComponent {
    */
   public setSkeleton(skeleton: THREE.Skeleton, rootBone?: THREE.Bone): void {
     this.skeleton = skeleton;
+    this.skeletonId = AssetManager.getInstance().getAssetId(skeleton);
     
     if (rootBone) {
       this.rootBone = rootBone;
@@ -478,10 +551,95 @@ export class MeshComponent extends BaseComponent {
       if (entity) {
         const threeObject = entity.getComponent(ThreeObject);
         if (threeObject) {
-          threeObject.setObject(this.mesh);
+          threeObject.setObject(this.mesh, true);
         }
       }
     }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Use the geometry and skeleton of a model asset
+   * The model is loaded first if it isn't cached yet
+   * @param id Asset ID of the model
+   */
+  public setModel(id: string): void {
+    this.geometryType = GeometryType.MODEL;
+    this.resolveModel(id, true, true);
+  }
+  
+  /**
+   * Get the asset ID of the model the geometry comes from
+   * @returns The asset ID, or null if the geometry isn't from a model asset
+   */
+  public getModelId(): string | null {
+    return this.modelId;
+  }
+  
+  /**
+   * Apply the geometry and/or skeleton of a model asset once it is available
+   * @param id Asset ID of the model
+   * @param geometry Whether to use the model's geometry
+   * @param skeleton Whether to use the model's skeleton
+   */
+  private resolveModel(id: string, geometry: boolean, skeleton: boolean): void {
+    // Referenced right away, so the component serializes the same while loading
+    if (geometry) this.modelId = id;
+    if (skeleton) this.skeletonId = id;
+    
+    AssetManager.getInstance().resolveAsset(id, (model: ModelLoadResult) => {
+      // Ignore models replaced while loading
+      if (skeleton && this.skeletonId === id && model.skeleton) {
+        this.setSkeleton(model.skeleton, model.rootBone);
+      }
+      if (geometry && this.modelId === id) {
+        this.setGeometry(model.geometry);
+      }
+    });
+  }
+  
+  /**
+   * Check if a geometry belongs to a model asset and must not be disposed
+   * @param geometry The geometry
+   */
+  private isAssetGeometry(geometry: THREE.BufferGeometry): boolean {
+    return AssetManager.getInstance().getAssetId(geometry) !== null;
+  }
+  
+  /**
+   * Dispose the geometry unless a model asset owns it
+   */
+  private disposeGeometry(): void {
+    if (this.geometry && !this.isAssetGeometry(this.geometry)) {
+      this.geometry.dispose();
+    }
+  }
+  
+  /**
+   * Set whether the mesh casts shadows
+   * @param castShadow Whether the mesh casts shadows
+   */
+  public setCastShadow(castShadow: boolean): void {
+    this.castShadow = castShadow;
+    if (this.mesh) {
+      this.mesh.castShadow = castShadow;
+    }
+    
+    this.markChanged();
+  }
+  
+  /**
+   * Set whether shadows are drawn on the mesh
+   * @param receiveShadow Whether the mesh receives shadows
+   */
+  public setReceiveShadow(receiveShadow: boolean): void {
+    this.receiveShadow = receiveShadow;
+    if (this.mesh) {
+      this.mesh.receiveShadow = receiveShadow;
+    }
+    
+    this.markChanged();
   }
   
   /**
@@ -504,10 +662,10 @@ export class MeshComponent extends BaseComponent {
    * Dispose resources when no longer needed
    */
   private dispose(): void {
-    if (this.geometry) {
-      this.geometry.dispose();
-      this.geometry = null;
-    }
+    this.disposeGeometry();
+    this.geometry = null;
+    this.modelId = null;
+    this.skeletonId = null;
     
     if (this.material) {
       this.material.dispose();
@@ -524,13 +682,9 @@ export class MeshComponent extends BaseComponent {
    */
   public override serialize(): unknown {
     return {
-      geometryType: this.geometryType,
-      wireframe: this.wireframe,
-      color: this.color,
-      size: { ...this.size },
-      radius: this.radius,
-      segments: this.segments,
-      hasSkeleton: this.skeleton !== null,
+      ...serializeProperties(this),
+      model: this.modelId,
+      skeleton: this.skeletonId,
     };
   }
   
@@ -544,26 +698,22 @@ export class MeshComponent extends BaseComponent {
     const meshData = data as Record<string, any>;
     
     // Restore properties
-    if (meshData.geometryType) this.geometryType = meshData.geometryType;
-    if (typeof meshData.wireframe === 'boolean') this.wireframe = meshData.wireframe;
-    if (typeof meshData.color === 'number') this.color = meshData.color;
-    
-    // Restore size
-    if (meshData.size && typeof meshData.size === 'object') {
-      if (typeof meshData.size.width === 'number') this.size.width = meshData.size.width;
-      if (typeof meshData.size.height === 'number') this.size.height = meshData.size.height;
-      if (typeof meshData.size.depth === 'number') this.size.depth = meshData.size.depth;
-    }
-    
-    // Restore other parameters
-    if (typeof meshData.radius === 'number') this.radius = meshData.radius;
-    if (typeof meshData.segments === 'number') this.segments = meshData.segments;
-    
-    // Note: We don't restore the skeleton from serialization
-    // Skeletons are complex objects that should be loaded from the model
-    // The actual skeleton will need to be set using setSkeleton after deserialization
+    deserializeProperties(this, meshData);
     
     // Recreate the mesh with restored properties
     this.updateMesh();
+    
+    // Model geometry and skeleton are referenced by asset ID and may still need loading
+    const modelId = typeof meshData.model === 'string' ? meshData.model : null;
+    const skeletonId = typeof meshData.skeleton === 'string' ? meshData.skeleton : null;
+    
+    if (modelId !== this.modelId || skeletonId !== this.skeletonId) {
+      if (modelId && modelId === skeletonId) {
+        this.resolveModel(modelId, true, true);
+      } else {
+        if (modelId) this.resolveModel(modelId, true, false);
+        if (skeletonId) this.resolveModel(skeletonId, false, true);
+      }
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { BaseComponent } from '../Component';
+import { EntityRef, EntityRefRemapper } from '../types';
+import { createEntityRef, isEntityRef } from '../EntityRef';
+import { PrefabOverride } from '../prefabs/PrefabDefinition';
+
+/**
+ * Marks the root entity of a prefab instance
+ * Keeps the instance's overrides and its entities by node key, so the
+ * instance can be updated when the prefab changes (see PrefabLibrary)
+ */
+export class PrefabInstanceComponent extends BaseComponent {
+  /**
+   * Name of the prefab
+   */
+  public prefab: string;
+
+  /**
+   * Overrides of this instance, applied on top of the prefab
+   */
+  public overrides: PrefabOverride[];
+
+  /**
+   * Entities of the instance by node key (nested prefabs by the key of their root)
+   */
+  public nodes: Record<string, EntityRef> = {};
+
+  /**
+   * Constructor
+   * @param prefab Name of the prefab
+   * @param overrides Overrides of this instance
+   */
+  constructor(prefab: string = '', overrides: PrefabOverride[] = []) {
+    super();
+    this.prefab = prefab;
+    this.overrides = overrides;
+  }
+
+  /**
+   * Serialize this component
+   */
+  public override serialize(): unknown {
+    return {
+      prefab: this.prefab,
+      overrides: this.overrides.map(override => ({ ...override })),
+      nodes: { ...this.nodes }
+    };
+  }
+
+  /**
+   * Deserialize this component
+   * @param data The data to deserialize from
+   */
+  public override deserialize(data: unknown): void {
+    if (typeof data !== 'object' || data === null) return;
+
+    const instanceData = data as Record<string, any>;
+
+    if (typeof instanceData.prefab === 'string') this.prefab = instanceData.prefab;
+    if (Array.isArray(instanceData.overrides)) {
+      this.overrides = instanceData.overrides.map((override: PrefabOverride) => ({ ...override }));
+    }
+
+    this.nodes = {};
+    if (typeof instanceData.nodes === 'object' && instanceData.nodes !== null) {
+      for (const [key, ref] of Object.entries(instanceData.nodes)) {
+        if (isEntityRef(ref)) {
+          this.nodes[key] = createEntityRef(ref);
+        }
+      }
+    }
+  }
+
+  /**
+   * Point the node references at remapped entities
+   * @param remap Maps a serialized reference to the new one
+   */
+  public override remapEntityRefs(remap: EntityRefRemapper): void {
+    for (const [key, ref] of Object.entries(this.nodes)) {
+      const remapped = remap(ref);
+      if (remapped) {
+        this.nodes[key] = remapped;
+      } else {
+        delete this.nodes[key];
+      }
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { BaseComponent } from '../Component';
+import { ComponentSchema, PropertyType } from '../ComponentSchema';
+
+/**
+ * Marks an entity as loaded from a scene
+ * Added by SerializationSystem.loadSceneAdditive, so the scene can be unloaded again
+ */
+export class SceneMemberComponent extends BaseComponent {
+  /**
+   * ID of the scene the entity was loaded from
+   */
+  public sceneId: string;
+
+  /**
+   * Constructor
+   * @param sceneId ID of the scene the entity was loaded from
+   */
+  constructor(sceneId: string = '') {
+    super();
+    this.sceneId = sceneId;
+  }
+  
+  /**
+   * Properties of the component, also used to serialize it
+   */
+  public static override getSchema(): ComponentSchema<SceneMemberComponent> {
+    return {
+      sceneId: { type: PropertyType.STRING, default: '', label: 'Scene', readOnly: true },
+    };
+  }
+}
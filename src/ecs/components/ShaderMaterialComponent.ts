@@ -0,0 +1,694 @@
+import * as THREE from 'three';
+import { BaseComponent } from '../Component';
+import { ComponentClass, IEntity } from '../types';
+import { ComponentSchema, PropertyType, deserializeProperties, serializeProperties } from '../ComponentSchema';
+import { ThreeObject } from './ThreeObject';
+import { MeshComponent } from './MeshComponent';
+import { AssetManager, AssetType } from '../../core/assets/AssetManager';
+
+/**
+ * Types of shader uniforms
+ */
+export enum UniformType {
+  FLOAT = 'float',
+  INT = 'int',
+  BOOL = 'bool',
+  VEC2 = 'vec2',
+  VEC3 = 'vec3',
+  VEC4 = 'vec4',
+  /**
+   * Color, a vec3 in GLSL
+   */
+  COLOR = 'color',
+  MAT4 = 'mat4',
+  /**
+   * Texture, a sampler2D in GLSL
+   */
+  TEXTURE = 'texture',
+}
+
+/**
+ * Values of the uniform types
+ */
+export interface UniformValues {
+  [UniformType.FLOAT]: number;
+  [UniformType.INT]: number;
+  [UniformType.BOOL]: boolean;
+  [UniformType.VEC2]: THREE.Vector2;
+  [UniformType.VEC3]: THREE.Vector3;
+  [UniformType.VEC4]: THREE.Vector4;
+  [UniformType.COLOR]: THREE.Color;
+  [UniformType.MAT4]: THREE.Matrix4;
+  [UniformType.TEXTURE]: THREE.Texture | null;
+}
+
+/**
+ * Uniforms fed every frame by the ShaderSystem
+ * The camera uniforms keep their last values while there is no active camera.
+ * Three.js itself declares and feeds cameraPosition, modelMatrix, modelViewMatrix,
+ * viewMatrix, projectionMatrix and normalMatrix, so the shaders use those without
+ * declaring them, and the light uniforms of materials with lights enabled.
+ */
+export const AUTO_UNIFORMS: Readonly<Record<string, UniformType>> = {
+  time: UniformType.FLOAT,
+  deltaTime: UniformType.FLOAT,
+  resolution: UniformType.VEC2,
+  cameraNear: UniformType.FLOAT,
+  cameraFar: UniformType.FLOAT,
+  /**
+   * Inverse of viewMatrix, e.g. to get world space directions from view space
+   */
+  cameraWorldMatrix: UniformType.MAT4,
+  /**
+   * Inverse of projectionMatrix, e.g. to reconstruct positions from depth
+   */
+  cameraProjectionMatrixInverse: UniformType.MAT4,
+};
+
+/**
+ * Stages of the shader program
+ */
+export type ShaderStage = 'vertexShader' | 'fragmentShader';
+
+/**
+ * Component that renders its mesh with custom GLSL shaders loaded as shader assets
+ * The shaders are swapped when their assets are reloaded (see AssetManager.reloadAsset)
+ */
+export class ShaderMaterialComponent extends BaseComponent {
+  /**
+   * The Three.js material
+   */
+  private material: THREE.ShaderMaterial;
+
+  /**
+   * Uniforms of the material, shared with it
+   */
+  private uniforms: Record<string, THREE.IUniform> = {};
+
+  /**
+   * Types of the uniforms defined with defineUniform
+   */
+  private uniformTypes: Map<string, UniformType> = new Map();
+
+  /**
+   * Asset IDs of the textures of texture uniforms
+   */
+  private textureIds: Map<string, string | null> = new Map();
+
+  /**
+   * Asset IDs of the shaders
+   */
+  private shaderIds: Record<ShaderStage, string | null> = { vertexShader: null, fragmentShader: null };
+
+  /**
+   * Asset IDs of the shaders whose source the material uses
+   */
+  private appliedIds: Record<ShaderStage, string | null> = { vertexShader: null, fragmentShader: null };
+
+  /**
+   * Three.js shaders used while no shader asset is set
+   */
+  private defaultSources: Record<ShaderStage, string>;
+
+  /**
+   * Whether the material is transparent
+   */
+  private transparent: boolean = false;
+
+  /**
+   * Side of the faces that are rendered
+   */
+  private side: THREE.Side = THREE.DoubleSide;
+
+  /**
+   * Whether the material receives the light uniforms of the scene
+   * The shaders read them through Three.js's lights_pars_begin chunk
+   */
+  private lights: boolean = false;
+
+  /**
+   * Constructor
+   * @param vertexShaderId Asset ID of the vertex shader
+   * @param fragmentShaderId Asset ID of the fragment shader
+   */
+  constructor(vertexShaderId: string | null = null, fragmentShaderId: string | null = null) {
+    super();
+
+    for (const [name, type] of Object.entries(AUTO_UNIFORMS)) {
+      this.uniforms[name] = { value: createAutoUniformValue(type) };
+    }
+
+    this.material = new THREE.ShaderMaterial({
+      uniforms: this.uniforms,
+      transparent: this.transparent,
+      side: this.side
+    });
+    this.defaultSources = {
+      vertexShader: this.material.vertexShader,
+      fragmentShader: this.material.fragmentShader
+    };
+
+    this.setShaders(vertexShaderId, fragmentShaderId);
+  }
+
+  /**
+   * Define dependencies
+   */
+  public static override getRequirements(): ComponentClass[] {
+    return [ThreeObject, MeshComponent];
+  }
+
+  /**
+   * Properties of the component
+   * Uniforms are serialized separately
+   */
+  public static override getSchema(): ComponentSchema<ShaderMaterialComponent> {
+    return {
+      vertexShader: {
+        type: PropertyType.ASSET,
+        assetType: AssetType.SHADER,
+        default: null,
+        label: 'Vertex shader',
+        get: shader => shader.getShaderId('vertexShader'),
+        set: (shader, value) => shader.setVertexShader(value)
+      },
+      fragmentShader: {
+        type: PropertyType.ASSET,
+        assetType: AssetType.SHADER,
+        default: null,
+        label: 'Fragment shader',
+        get: shader => shader.getShaderId('fragmentShader'),
+        set: (shader, value) => shader.setFragmentShader(value)
+      },
+      transparent: {
+        type: PropertyType.BOOLEAN,
+        default: false,
+        get: shader => shader.isTransparent(),
+        set: (shader, value) => shader.setTransparent(value)
+      },
+      side: {
+        type: PropertyType.INTEGER,
+        default: THREE.DoubleSide,
+        min: 0,
+        max: 2,
+        get: shader => shader.getSide(),
+        set: (shader, value) => shader.setSide(value)
+      },
+      lights: {
+        type: PropertyType.BOOLEAN,
+        default: false,
+        get: shader => shader.usesLights(),
+        set: (shader, value) => shader.setLights(value)
+      },
+    };
+  }
+
+  /**
+   * Get the Three.js material
+   */
+  public getMaterial(): THREE.ShaderMaterial {
+    return this.material;
+  }
+
+  /**
+   * Check if the material has the source of all its shader assets
+   * The material isn't rendered until then
+   */
+  public isReady(): boolean {
+    return this.shaderIds.vertexShader === this.appliedIds.vertexShader &&
+      this.shaderIds.fragmentShader === this.appliedIds.fragmentShader;
+  }
+
+  /**
+   * Get the asset ID of a shader
+   * @param stage The shader stage
+   */
+  public getShaderId(stage: ShaderStage): string | null {
+    return this.shaderIds[stage];
+  }
+
+  /**
+   * Set the vertex shader
+   * The shader is loaded first if it isn't cached yet
+   * @param id Asset ID of the shader, or null for the Three.js default
+   */
+  public setVertexShader(id: string | null): void {
+    this.setShader('vertexShader', id);
+  }
+
+  /**
+   * Set the fragment shader
+   * The shader is loaded first if it isn't cached yet
+   * @param id Asset ID of the shader, or null for the Three.js default
+   */
+  public setFragmentShader(id: string | null): void {
+    this.setShader('fragmentShader', id);
+  }
+
+  /**
+   * Set both shaders
+   * @param vertexShaderId Asset ID of the vertex shader
+   * @param fragmentShaderId Asset ID of the fragment shader
+   */
+  public setShaders(vertexShaderId: string | null, fragmentShaderId: string | null): void {
+    this.setShader('vertexShader', vertexShaderId);
+    this.setShader('fragmentShader', fragmentShaderId);
+  }
+
+  /**
+   * Set the shader of a stage
+   * @param stage The shader stage
+   * @param id Asset ID of the shader, or null for the Three.js default
+   */
+  private setShader(stage: ShaderStage, id: string | null): void {
+    if (id === this.shaderIds[stage]) return;
+
+    // Referenced right away, so the component serializes the same while loading
+    this.shaderIds[stage] = id;
+    this.markChanged();
+
+    if (!id) {
+      this.applySource(stage, null, this.defaultSources[stage]);
+      return;
+    }
+
+    this.material.visible = this.isReady();
+
+    AssetManager.getInstance().resolveAsset(id, (source: string) => {
+      // Ignore shaders replaced while loading
+      if (this.shaderIds[stage] === id) {
+        this.applySource(stage, id, source);
+      }
+    });
+  }
+
+  /**
+   * Use shader source in the material, recompiling it
+   * @param stage The shader stage
+   * @param id Asset ID of the shader
+   * @param source The GLSL source
+   */
+  private applySource(stage: ShaderStage, id: string | null, source: string): void {
+    this.material[stage] = source;
+    this.material.needsUpdate = true;
+    this.appliedIds[stage] = id;
+    this.material.visible = this.isReady();
+  }
+
+  /**
+   * Swap in a reloaded asset if the material uses it
+   * Called by the ShaderSystem
+   * @param id Asset ID of the reloaded asset
+   * @param asset The reloaded asset
+   */
+  public onAssetReloaded(id: string, asset: unknown): void {
+    for (const stage of ['vertexShader', 'fragmentShader'] as ShaderStage[]) {
+      if (this.shaderIds[stage] === id && typeof asset === 'string') {
+        this.applySource(stage, id, asset);
+      }
+    }
+
+    for (const [name, textureId] of this.textureIds) {
+      if (textureId === id && asset instanceof THREE.Texture) {
+        this.uniforms[name].value = asset;
+      }
+    }
+  }
+
+  /**
+   * Define a uniform, replacing any uniform with the same name
+   * @param name Name of the uniform in the shaders
+   * @param type Type of the uniform
+   * @param value Initial value; objects are copied
+   * @returns True if the uniform was defined
+   */
+  public defineUniform<K extends UniformType>(name: string, type: K, value: UniformValues[K]): boolean {
+    if (AUTO_UNIFORMS[name] || (this.uniforms[name] && !this.uniformTypes.has(name))) {
+      console.warn(`Uniform ${name} is fed automatically and can't be defined`);
+      return false;
+    }
+    if (!isUniformValue(type, value)) {
+      console.warn(`Invalid value for ${type} uniform ${name}`);
+      return false;
+    }
+
+    this.uniformTypes.set(name, type);
+    this.uniforms[name] = { value: copyUniformValue(type, value) };
+    if (type === UniformType.TEXTURE) {
+      this.textureIds.set(name, AssetManager.getInstance().getAssetId(value));
+    }
+
+    this.markChanged();
+    return true;
+  }
+
+  /**
+   * Remove a uniform defined with defineUniform
+   * @param name Name of the uniform
+   */
+  public removeUniform(name: string): void {
+    if (!this.uniformTypes.has(name)) return;
+
+    this.uniformTypes.delete(name);
+    this.textureIds.delete(name);
+    delete this.uniforms[name];
+    this.markChanged();
+  }
+
+  /**
+   * Get the type of a uniform defined with defineUniform
+   * @param name Name of the uniform
+   * @returns The type, or undefined if there is no such uniform
+   */
+  public getUniformType(name: string): UniformType | undefined {
+    return this.uniformTypes.get(name);
+  }
+
+  /**
+   * Get the names of the uniforms defined with defineUniform
+   */
+  public getUniformNames(): string[] {
+    return Array.from(this.uniformTypes.keys());
+  }
+
+  /**
+   * Set the value of a uniform, e.g. from a system
+   * @param name Name of the uniform
+   * @param value The value, which must match the uniform's type; objects are copied
+   * @returns True if the uniform was set
+   */
+  public setUniform(name: string, value: UniformValues[UniformType]): boolean {
+    const type = this.uniformTypes.get(name);
+    if (!type) {
+      console.warn(`Shader material has no uniform ${name}`);
+      return false;
+    }
+    if (!isUniformValue(type, value)) {
+      console.warn(`Invalid value for ${type} uniform ${name}`);
+      return false;
+    }
+
+    const uniform = this.uniforms[name];
+    if (type === UniformType.TEXTURE) {
+      uniform.value = value;
+      this.textureIds.set(name, AssetManager.getInstance().getAssetId(value));
+    } else if (typeof value === 'object' && value !== null) {
+      uniform.value.copy(value);
+    } else {
+      uniform.value = value;
+    }
+
+    this.markChanged();
+    return true;
+  }
+
+  /**
+   * Get the value of a uniform
+   * @param name Name of the uniform
+   * @param type The expected type
+   * @returns A copy of the value, or undefined if there is no such uniform of that type
+   */
+  public getUniform<K extends UniformType>(name: string, type: K): UniformValues[K] | undefined {
+    if (this.uniformTypes.get(name) !== type) return undefined;
+
+    return copyUniformValue(type, this.uniforms[name].value);
+  }
+
+  /**
+   * Set a texture uniform to a texture asset
+   * The texture is loaded first if it isn't cached yet
+   * @param name Name of the texture uniform
+   * @param id Asset ID of the texture, or null to clear
+   */
+  public setUniformTextureAsset(name: string, id: string | null): void {
+    if (this.uniformTypes.get(name) !== UniformType.TEXTURE) {
+      console.warn(`Shader material has no texture uniform ${name}`);
+      return;
+    }
+    if (!id) {
+      this.setUniform(name, null);
+      return;
+    }
+
+    // Referenced right away, so the component serializes the same while loading
+    this.textureIds.set(name, id);
+
+    AssetManager.getInstance().resolveAsset(id, (texture: THREE.Texture) => {
+      // Ignore textures replaced while loading
+      if (this.textureIds.get(name) === id) {
+        this.setUniform(name, texture);
+      }
+    });
+  }
+
+  /**
+   * Feed the automatic uniforms
+   * Called by the ShaderSystem every frame
+   * @param time Seconds since the system started
+   * @param deltaTime Seconds since the last frame
+   * @param width Width of the render resolution
+   * @param height Height of the render resolution
+   * @param camera The active camera, if any
+   */
+  public updateAutoUniforms(time: number, deltaTime: number, width: number, height: number, camera: THREE.Camera | null): void {
+    this.uniforms.time.value = time;
+    this.uniforms.deltaTime.value = deltaTime;
+    this.uniforms.resolution.value.set(width, height);
+
+    if (camera instanceof THREE.PerspectiveCamera || camera instanceof THREE.OrthographicCamera) {
+      this.uniforms.cameraNear.value = camera.near;
+      this.uniforms.cameraFar.value = camera.far;
+    }
+
+    if (camera) {
+      this.uniforms.cameraWorldMatrix.value.copy(camera.matrixWorld);
+      this.uniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
+    }
+  }
+
+  /**
+   * Check if the material is transparent
+   */
+  public isTransparent(): boolean {
+    return this.transparent;
+  }
+
+  /**
+   * Set whether the material is transparent
+   * @param transparent Whether the material is transparent
+   */
+  public setTransparent(transparent: boolean): void {
+    this.transparent = transparent;
+    this.material.transparent = transparent;
+    this.material.needsUpdate = true;
+    this.markChanged();
+  }
+
+  /**
+   * Get the side of the faces that are rendered
+   */
+  public getSide(): THREE.Side {
+    return this.side;
+  }
+
+  /**
+   * Set the side of the faces that are rendered
+   * @param side The side
+   */
+  public setSide(side: THREE.Side): void {
+    this.side = side;
+    this.material.side = side;
+    this.markChanged();
+  }
+
+  /**
+   * Check if the material receives the light uniforms of the scene
+   */
+  public usesLights(): boolean {
+    return this.lights;
+  }
+
+  /**
+   * Set whether the material receives the light uniforms of the scene
+   * @param lights Whether to receive the light uniforms
+   */
+  public setLights(lights: boolean): void {
+    this.lights = lights;
+
+    for (const [name, uniform] of Object.entries(THREE.UniformsUtils.clone(THREE.UniformsLib.lights))) {
+      if (lights) {
+        this.uniforms[name] = uniform;
+      } else {
+        delete this.uniforms[name];
+      }
+    }
+
+    this.material.lights = lights;
+    this.material.needsUpdate = true;
+    this.markChanged();
+  }
+
+  /**
+   * Update an existing mesh with this material
+   * @param mesh The mesh to update
+   */
+  public applyToMesh(mesh: THREE.Mesh): void {
+    // If the mesh already has a material, dispose it
+    if (mesh.material instanceof THREE.Material && mesh.material !== this.material) {
+      mesh.material.dispose();
+    } else if (Array.isArray(mesh.material)) {
+      mesh.material.forEach(m => m.dispose());
+    }
+
+    // Apply the new material
+    mesh.material = this.material;
+  }
+
+  /**
+   * Called when the component is added to an entity
+   * @param entity The entity this component was added to
+   */
+  public override onAttach(entity: IEntity): void {
+    const threeObject = entity.getComponent(ThreeObject);
+    if (threeObject && threeObject.object instanceof THREE.Mesh) {
+      this.applyToMesh(threeObject.object);
+    }
+  }
+
+  /**
+   * Called when the component is removed from an entity
+   * @param entity The entity this component was removed from
+   */
+  public override onDetach(entity: IEntity): void {
+    this.material.dispose();
+  }
+
+  /**
+   * Serialize this component
+   * Texture uniforms are written as asset IDs
+   */
+  public override serialize(): unknown {
+    const uniforms: Record<string, { type: UniformType; value: unknown }> = {};
+    for (const [name, type] of this.uniformTypes) {
+      uniforms[name] = {
+        type,
+        value: type === UniformType.TEXTURE
+          ? this.textureIds.get(name) || null
+          : serializeUniformValue(type, this.uniforms[name].value)
+      };
+    }
+
+    return {
+      ...serializeProperties(this),
+      uniforms
+    };
+  }
+
+  /**
+   * Deserialize this component
+   * @param data The data to deserialize from
+   */
+  public override deserialize(data: unknown): void {
+    if (typeof data !== 'object' || data === null) return;
+
+    const shaderData = data as Record<string, any>;
+
+    // Restore properties
+    deserializeProperties(this, shaderData);
+
+    if (typeof shaderData.uniforms !== 'object' || shaderData.uniforms === null) return;
+
+    // Replace the uniforms
+    for (const name of this.getUniformNames()) {
+      this.removeUniform(name);
+    }
+
+    for (const [name, uniform] of Object.entries(shaderData.uniforms as Record<string, any>)) {
+      const type = uniform && uniform.type;
+      if (!Object.values(UniformType).includes(type)) {
+        console.warn(`Unknown type of uniform ${name}: ${type}`);
+        continue;
+      }
+
+      if (type === UniformType.TEXTURE) {
+        // The texture is referenced by asset ID and may still need loading
+        this.defineUniform(name, UniformType.TEXTURE, null);
+        this.setUniformTextureAsset(name, typeof uniform.value === 'string' ? uniform.value : null);
+        continue;
+      }
+
+      const value = deserializeUniformValue(type, uniform.value);
+      if (value === undefined) {
+        console.warn(`Invalid value for ${type} uniform ${name}`);
+        continue;
+      }
+      this.defineUniform(name, type, value);
+    }
+  }
+}
+
+/**
+ * Create the initial value of an automatic uniform
+ */
+function createAutoUniformValue(type: UniformType): UniformValues[UniformType] {
+  switch (type) {
+    case UniformType.VEC2: return new THREE.Vector2();
+    case UniformType.MAT4: return new THREE.Matrix4();
+    default: return 0;
+  }
+}
+
+/**
+ * Check if a value fits a uniform type
+ */
+function isUniformValue(type: UniformType, value: unknown): boolean {
+  switch (type) {
+    case UniformType.FLOAT: return typeof value === 'number' && Number.isFinite(value);
+    case UniformType.INT: return Number.isInteger(value);
+    case UniformType.BOOL: return typeof value === 'boolean';
+    case UniformType.VEC2: return value instanceof THREE.Vector2;
+    case UniformType.VEC3: return value instanceof THREE.Vector3;
+    case UniformType.VEC4: return value instanceof THREE.Vector4;
+    case UniformType.COLOR: return value instanceof THREE.Color;
+    case UniformType.MAT4: return value instanceof THREE.Matrix4;
+    case UniformType.TEXTURE: return value === null || value instanceof THREE.Texture;
+    default: return false;
+  }
+}
+
+/**
+ * Copy a uniform value so the component and the caller don't share objects
+ * Textures are shared
+ */
+function copyUniformValue<K extends UniformType>(type: K, value: UniformValues[K]): UniformValues[K] {
+  if (type === UniformType.TEXTURE || typeof value !== 'object' || value === null) return value;
+  return (value as THREE.Vector2 | THREE.Vector3 | THREE.Vector4 | THREE.Color | THREE.Matrix4).clone() as UniformValues[K];
+}
+
+/**
+ * Convert a uniform value to plain data
+ * Vectors and matrices become arrays, colors hex numbers
+ */
+function serializeUniformValue(type: UniformType, value: any): unknown {
+  if (type === UniformType.COLOR) return value.getHex();
+  if (typeof value === 'object' && value !== null) return value.toArray();
+  return value;
+}
+
+/**
+ * Convert plain data back to a uniform value
+ * @returns The value, or undefined if the data doesn't fit the type
+ */
+function deserializeUniformValue(type: UniformType, data: unknown): UniformValues[UniformType] | undefined {
+  const isNumbers = (length: number) =>
+    Array.isArray(data) && data.length === length && data.every(n => typeof n === 'number');
+
+  switch (type) {
+    case UniformType.VEC2: return isNumbers(2) ? new THREE.Vector2().fromArray(data as number[]) : undefined;
+    case UniformType.VEC3: return isNumbers(3) ? new THREE.Vector3().fromArray(data as number[]) : undefined;
+    case UniformType.VEC4: return isNumbers(4) ? new THREE.Vector4().fromArray(data as number[]) : undefined;
+    case UniformType.MAT4: return isNumbers(16) ? new THREE.Matrix4().fromArray(data as number[]) : undefined;
+    case UniformType.COLOR: return typeof data === 'number' ? new THREE.Color(data) : undefined;
+    default: return isUniformValue(type, data) ? data as UniformValues[UniformType] : undefined;
+  }
+}
@@ -1,7 +1,6 @@
 import * as THREE from 'three';
 import { BaseComponent } from '../Component';
 import { ComponentClass, IEntity } from '../types';
-import { Entity } from '../Entity';
 import { World } from '../World';
 /**
  * Component that links an entity to a Three.js Object3D
@@ -15,16 +14,53 @@ export class ThreeObject extends BaseComponent {
   public object: THREE.Object3D;
   
   /**
-   * Child entities (for entity hierarchy)
+   * Whether rendering interpolates this object between fixed ticks
+   * Disable for objects that should always be drawn at their latest tick state
    */
-  public children: Entity[] = [];
+  public interpolate: boolean = true;
+  
+  /**
+   * Transform at the end of the previous fixed tick
+   */
+  private previousPosition: THREE.Vector3 = new THREE.Vector3();
+  private previousQuaternion: THREE.Quaternion = new THREE.Quaternion();
+  private previousScale: THREE.Vector3 = new THREE.Vector3(1, 1, 1);
+  
+  /**
+   * Transform at the end of the latest fixed tick
+   */
+  private currentPosition: THREE.Vector3 = new THREE.Vector3();
+  private currentQuaternion: THREE.Quaternion = new THREE.Quaternion();
+  private currentScale: THREE.Vector3 = new THREE.Vector3(1, 1, 1);
+  
+  /**
+   * Game logic transform saved while the interpolated transform is applied
+   */
+  private logicPosition: THREE.Vector3 = new THREE.Vector3();
+  private logicQuaternion: THREE.Quaternion = new THREE.Quaternion();
+  private logicScale: THREE.Vector3 = new THREE.Vector3(1, 1, 1);
+  
+  /**
+   * Whether a tick snapshot has been taken yet
+   */
+  private hasSnapshot: boolean = false;
+  
+  /**
+   * Whether the next snapshot should skip interpolation from the previous one
+   */
+  private teleported: boolean = false;
+  
+  /**
+   * Whether the interpolated transform is currently applied to the object
+   */
+  private interpolated: boolean = false;
   
   /**
    * Constructor
    * @param position The position of the object
    * @param object Optional Three.js object to use (creates a new Object3D if not provided)
    */
-  constructor(position: THREE.Vector3, object?: THREE.Object3D) {
+  constructor(position: THREE.Vector3 = new THREE.Vector3(), object?: THREE.Object3D) {
     super();
     this.object = object || new THREE.Object3D();
     this.object.position.set(position.x, position.y, position.z);
@@ -42,86 +78,125 @@ export class ThreeObject extends BaseComponent {
   /**
    * Set the Three.js object
    * @param object The Three.js object to use
+   * @param keepTransform Whether the new object takes over the transform of the old one
    * @returns This component for method chaining
    */
-  public setObject(object: THREE.Object3D): this {
+  public setObject(object: THREE.Object3D, keepTransform: boolean = false): this {
     // Remove the old object from its parent if it exists
     if (this.object && this.object.parent) {
       this.object.parent.remove(this.object);
     }
     
+    if (keepTransform && this.object && this.object !== object) {
+      object.position.copy(this.object.position);
+      object.quaternion.copy(this.object.quaternion);
+      object.scale.copy(this.object.scale);
+    }
+    
     this.object = object;
     
-    // Re-establish parent-child relationships for all children
-    for (const childEntity of this.children) {
-      const childThreeObj = childEntity.getComponent(ThreeObject);
-      if (childThreeObj) {
-        this.object.add(childThreeObj.object);
-      }
-    }
+    // The new object has its own transform, so don't interpolate from the old one
+    this.interpolated = false;
+    this.teleport();
+    
+    // Re-establish parent-child relationships for all child entities
+    this.attachChildObjects();
     
     return this;
   }
   
   /**
-   * Set the parent entity for this object
-   * @param parentEntity The parent entity (or null to remove parent)
+   * Move the Three.js object under the object of the entity's parent
+   * Root entities are moved back to the world's scene
+   * @param parent The parent entity, or null for a root entity
+   * @param keepWorldTransform Whether the object keeps its world transform
    */
-  public setParent(parentEntity: IEntity | null): void {
-    // Remove from current parent's THREE.js object first
-    if (this.object.parent) {
-      this.object.parent.remove(this.object);
+  public override onParentChanged(parent: IEntity | null, keepWorldTransform: boolean): void {
+    const parentThreeObj = parent ? parent.getComponent(ThreeObject) : null;
+    
+    let parentObject: THREE.Object3D | null = parentThreeObj ? parentThreeObj.object : null;
+    if (!parentObject && this.entity && this.entity.world instanceof World) {
+      parentObject = this.entity.world.getScene();
     }
     
-    if (parentEntity) {
-      const parentThreeObj = parentEntity.getComponent(ThreeObject);
-      if (parentThreeObj) {
-        // Add this object as a child in the THREE.js scene graph
-        parentThreeObj.object.add(this.object);
-        
-        // Add this entity to parent's children array if not already there
-        if (!parentThreeObj.children.includes(this.entity as Entity)) {
-          parentThreeObj.children.push(this.entity as Entity);
-        }
+    if (!parentObject) {
+      if (this.object.parent) {
+        this.object.parent.remove(this.object);
       }
+    } else if (keepWorldTransform) {
+      parentObject.attach(this.object);
+    } else {
+      parentObject.add(this.object);
     }
+    
+    // The local transform jumped, so don't interpolate across the change
+    this.teleport();
   }
   
   /**
-   * Add a child entity
-   * @param childEntity The child entity to add
+   * Mark the object as teleported this tick
+   * The next rendered frames show it at its new transform instead of
+   * interpolating from where it was
+   * @returns This component for method chaining
    */
-  public addChild(childEntity: Entity): void {
-    if (!this.children.includes(childEntity)) {
-      this.children.push(childEntity);
-      
-      // Update THREE.js hierarchy
-      const childThreeObj = childEntity.getComponent(ThreeObject);
-      if (childThreeObj) {
-        this.object.add(childThreeObj.object);
-      }
-    }
+  public teleport(): this {
+    this.teleported = true;
+    return this;
   }
   
   /**
-   * Remove a child entity
-   * @param childEntity The child entity to remove
-   * @returns True if the child was removed
+   * Record the object's transform at the end of a fixed tick
+   * The previously recorded transform becomes the interpolation start
    */
-  public removeChild(childEntity: Entity): boolean {
-    const index = this.children.indexOf(childEntity);
-    if (index !== -1) {
-      this.children.splice(index, 1);
-      
-      // Update THREE.js hierarchy
-      const childThreeObj = childEntity.getComponent(ThreeObject);
-      if (childThreeObj && this.object.children.includes(childThreeObj.object)) {
-        this.object.remove(childThreeObj.object);
-      }
-      
-      return true;
+  public snapshotTransform(): void {
+    if (this.hasSnapshot && !this.teleported) {
+      this.previousPosition.copy(this.currentPosition);
+      this.previousQuaternion.copy(this.currentQuaternion);
+      this.previousScale.copy(this.currentScale);
+    } else {
+      this.previousPosition.copy(this.object.position);
+      this.previousQuaternion.copy(this.object.quaternion);
+      this.previousScale.copy(this.object.scale);
     }
-    return false;
+    
+    this.currentPosition.copy(this.object.position);
+    this.currentQuaternion.copy(this.object.quaternion);
+    this.currentScale.copy(this.object.scale);
+    
+    this.hasSnapshot = true;
+    this.teleported = false;
+  }
+  
+  /**
+   * Apply the transform interpolated between the last two tick snapshots
+   * The game logic transform is saved and must be put back with restoreTransform
+   * @param alpha Progress from the previous to the latest tick (0-1)
+   */
+  public applyInterpolation(alpha: number): void {
+    if (!this.interpolate || !this.hasSnapshot || this.teleported || this.interpolated) return;
+    
+    this.logicPosition.copy(this.object.position);
+    this.logicQuaternion.copy(this.object.quaternion);
+    this.logicScale.copy(this.object.scale);
+    
+    this.object.position.lerpVectors(this.previousPosition, this.currentPosition, alpha);
+    this.object.quaternion.slerpQuaternions(this.previousQuaternion, this.currentQuaternion, alpha);
+    this.object.scale.lerpVectors(this.previousScale, this.currentScale, alpha);
+    
+    this.interpolated = true;
+  }
+  
+  /**
+   * Put back the game logic transform after drawing an interpolated frame
+   */
+  public restoreTransform(): void {
+    if (!this.interpolated) return;
+    
+    this.object.position.copy(this.logicPosition);
+    this.object.quaternion.copy(this.logicQuaternion);
+    this.object.scale.copy(this.logicScale);
+    
+    this.interpolated = false;
   }
   
   /**
@@ -132,7 +207,29 @@ export class ThreeObject extends BaseComponent {
     // Initialize object name with entity name or ID
     this.object.name = entity.name || `entity_${entity.id}`;
     
-    // Scene attachment is now handled by SceneSystem
+    // Attach to the parent entity's object; scene attachment of roots is handled by SceneSystem
+    const parent = entity.getParent();
+    const parentThreeObj = parent ? parent.getComponent(ThreeObject) : null;
+    if (parentThreeObj) {
+      parentThreeObj.object.add(this.object);
+    }
+    
+    // Adopt the objects of child entities
+    this.attachChildObjects();
+  }
+  
+  /**
+   * Add the Three.js objects of all child entities to this object
+   */
+  private attachChildObjects(): void {
+    if (!this.entity) return;
+    
+    for (const child of this.entity.getChildren()) {
+      const childThreeObj = child.getComponent(ThreeObject);
+      if (childThreeObj) {
+        this.object.add(childThreeObj.object);
+      }
+    }
   }
   
   /**
@@ -145,8 +242,8 @@ export class ThreeObject extends BaseComponent {
       this.object.parent.remove(this.object);
     }
     
-    // Also remove all children from this object
-    for (const child of this.children) {
+    // Also remove the objects of child entities; SceneSystem moves them to the scene
+    for (const child of entity.getChildren()) {
       const childThreeObj = child.getComponent(ThreeObject);
       if (childThreeObj) {
         this.object.remove(childThreeObj.object);
@@ -160,13 +257,17 @@ export class ThreeObject extends BaseComponent {
   public override serialize(): unknown {
     // Only serialize minimal information
     // Actual Three.js objects cannot be serialized directly
+    const { position, rotation, scale } = this.object;
+    
     return {
       name: this.object.name,
       visible: this.object.visible,
       type: this.object.type,
-      childrenIds: this.children.map(child => child.id)
-      // We don't serialize position/rotation/scale here because that's
-      // handled by the Transform component
+      interpolate: this.interpolate,
+      // Local transform; the entity hierarchy is serialized by Entity
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { x: rotation.x, y: rotation.y, z: rotation.z, order: rotation.order },
+      scale: { x: scale.x, y: scale.y, z: scale.z }
     };
   }
   
@@ -182,9 +283,26 @@ export class ThreeObject extends BaseComponent {
     // Restore basic properties
     if (objData.name) this.object.name = objData.name;
     if (typeof objData.visible === 'boolean') this.object.visible = objData.visible;
+    if (typeof objData.interpolate === 'boolean') this.interpolate = objData.interpolate;
+    
+    // Restore the local transform
+    if (objData.position) {
+      this.object.position.set(objData.position.x, objData.position.y, objData.position.z);
+    }
+    if (objData.rotation) {
+      this.object.rotation.set(
+        objData.rotation.x,
+        objData.rotation.y,
+        objData.rotation.z,
+        objData.rotation.order || 'XYZ'
+      );
+    }
+    if (objData.scale) {
+      this.object.scale.set(objData.scale.x, objData.scale.y, objData.scale.z);
+    }
     
-    // Note: We don't restore position/rotation/scale here because that's
-    // handled by the Transform component
+    // Start interpolating from the restored transform
+    this.teleport();
     
     // Note: Child entity references will be restored by the World deserializer
   }
@@ -0,0 +1,99 @@
+import { EventSystem } from '../../core/events/EventSystem';
+import { Component, ComponentClass, IEntity, IWorld } from '../types';
+
+/**
+ * Events published on the EventSystem when worlds change
+ */
+export enum EcsEvents {
+  ENTITY_CREATED = 'ecs:entity_created',
+  ENTITY_DESTROYED = 'ecs:entity_destroyed',
+  ENTITY_ACTIVATED = 'ecs:entity_activated',
+  ENTITY_DEACTIVATED = 'ecs:entity_deactivated',
+  COMPONENT_ADDED = 'ecs:component_added',
+  COMPONENT_REMOVED = 'ecs:component_removed',
+}
+
+/**
+ * Data of entity events
+ */
+export interface EntityEventData {
+  /**
+   * World the entity belongs (or belonged) to
+   */
+  world: IWorld;
+
+  /**
+   * The entity
+   */
+  entity: IEntity;
+}
+
+/**
+ * Data of component events
+ */
+export interface ComponentEventData<T extends Component = Component> extends EntityEventData {
+  /**
+   * The added or removed component
+   */
+  component: T;
+
+  /**
+   * Class of the component
+   */
+  componentClass: ComponentClass<T>;
+}
+
+/**
+ * Data type of each ECS event
+ */
+export interface EcsEventMap {
+  [EcsEvents.ENTITY_CREATED]: EntityEventData;
+  [EcsEvents.ENTITY_DESTROYED]: EntityEventData;
+  [EcsEvents.ENTITY_ACTIVATED]: EntityEventData;
+  [EcsEvents.ENTITY_DEACTIVATED]: EntityEventData;
+  [EcsEvents.COMPONENT_ADDED]: ComponentEventData;
+  [EcsEvents.COMPONENT_REMOVED]: ComponentEventData;
+}
+
+/**
+ * Component event types
+ */
+export type ComponentEventType = EcsEvents.COMPONENT_ADDED | EcsEvents.COMPONENT_REMOVED;
+
+/**
+ * Publish an ECS event
+ * The event data is only created if someone is listening
+ * @param eventType The event to publish
+ * @param createData Creates the event data
+ */
+export function publishEcsEvent<K extends keyof EcsEventMap>(
+  eventType: K,
+  createData: () => EcsEventMap[K]
+): void {
+  const eventSystem = EventSystem.getInstance();
+  if (!eventSystem.hasSubscribers(eventType)) return;
+
+  eventSystem.publish(eventType, createData());
+}
+
+/**
+ * Publish a component event for an entity that is part of a world
+ * @param eventType COMPONENT_ADDED or COMPONENT_REMOVED
+ * @param entity The entity owning the component
+ * @param component The component
+ */
+export function publishComponentEvent(
+  eventType: ComponentEventType,
+  entity: IEntity,
+  component: Component
+): void {
+  const world = entity.world;
+  if (!world) return;
+
+  publishEcsEvent(eventType, () => ({
+    world,
+    entity,
+    component,
+    componentClass: component.constructor as ComponentClass
+  }));
+}
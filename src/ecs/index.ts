@@ -6,26 +6,91 @@ export { BaseComponent } from './Component';
 export { System } from './System';
 export { Entity } from './Entity';
 export { World } from './World';
+export { CommandBuffer, CommandType, DeferredEntity, CommandTarget } from './CommandBuffer';
+export { createEntityRef, isEntityRef, entityRefEquals } from './EntityRef';
+export {
+  PropertyType,
+  PropertySchema,
+  ComponentSchema,
+  getComponentSchema,
+  validateProperty,
+  validateComponent,
+  getComponentProperty,
+  setComponentProperty,
+  serializeProperties,
+  deserializeProperties
+} from './ComponentSchema';
+
+// Events
+export {
+  EcsEvents,
+  EcsEventMap,
+  EntityEventData,
+  ComponentEventData,
+  ComponentEventType
+} from './events/EcsEvents';
+
+// Scheduling
+export { SystemPhase, SYSTEM_PHASE_ORDER, scheduleSystems } from './scheduling/SystemScheduler';
+export { RunConditions } from './scheduling/RunConditions';
+
+// Queries
+export { Query, QueryDescriptor } from './query/Query';
+export { QueryBuilder } from './query/QueryBuilder';
+export { QueryTracker } from './query/QueryTracker';
+export { QueryIndex } from './query/QueryIndex';
+export { ComponentMask, getComponentBit } from './query/ComponentMask';
 
 // Components
 export { ThreeObject } from './components/ThreeObject';
 export { MeshComponent, GeometryType } from './components/MeshComponent';
-export { MaterialComponent } from './components/MaterialComponent';
+export { MaterialComponent, MaterialKind, MaterialMap, MaterialOptions } from './components/MaterialComponent';
 export { CameraComponent, CameraType } from './components/CameraComponent';
 export { AnimationComponent } from './components/AnimationComponent';
 export { 
   ConstraintComponent, 
   ConstraintType,
   Constraint, 
-  TrackToConstraint 
+  TrackToConstraint,
+  PathFollowConstraint
 } from './components/ConstraintComponent';
+export { PrefabInstanceComponent } from './components/PrefabInstanceComponent';
+export { SceneMemberComponent } from './components/SceneMemberComponent';
+export { LightComponent, LightType } from './components/LightComponent';
+export { ShaderMaterialComponent, UniformType, UniformValues, AUTO_UNIFORMS, ShaderStage } from './components/ShaderMaterialComponent';
 
 // Systems
-export { SerializationSystem } from './serialization/SerializationSystem';
+export { SerializationSystem, NameCollision, AdditiveSceneOptions } from './serialization/SerializationSystem';
+export { PrefabLibrary, Prefab } from './prefabs/PrefabLibrary';
+export {
+  PrefabDefinition,
+  PrefabNode,
+  PrefabOverride,
+  isPrefabDefinition
+} from './prefabs/PrefabDefinition';
+export { SceneDefinition, SceneEntity, isSceneDefinition } from './scenes/SceneDefinition';
+export { buildScene, SceneBuildOptions } from './scenes/SceneBuilder';
+export { MigrationRegistry, FormatMigration, ComponentMigration } from './serialization/MigrationRegistry';
+export {
+  SAVE_FORMAT_VERSION,
+  SaveFile,
+  SerializedWorld,
+  SerializedEntity,
+  isSerializedEntity,
+  SerializationFormat,
+  SaveData
+} from './serialization/SaveFormat';
+export { encodeBinary, decodeBinary, isBinaryData } from './serialization/BinaryFormat';
+export { registerBuiltinComponents } from './serialization/BuiltinComponents';
+export { SnapshotBuffer } from './serialization/SnapshotBuffer';
+export { WorldPatch, EntityPatch, ComponentPatch, isEmptyPatch } from './serialization/WorldPatch';
 export { CameraSystem } from './systems/CameraSystem';
 export { AnimationSystem } from './systems/AnimationSystem';
 export { SceneSystem } from './systems/SceneSystem';
 export { ConstraintSystem } from './systems/ConstraintSystem';
+export { LightSystem } from './systems/LightSystem';
+export { ShaderSystem } from './systems/ShaderSystem';
+export { SnapshotSystem } from './systems/SnapshotSystem';
 
 /**
  * Example usage:
@@ -34,10 +99,8 @@ export { ConstraintSystem } from './systems/ConstraintSystem';
  * // Create a world
  * const world = new World();
  * 
- * // Register component types for serialization
+ * // Register custom component types for serialization (built-ins are registered already)
  * world.registerComponent('Transform', Transform);
- * world.registerComponent('CameraComponent', CameraComponent);
- * world.registerComponent('ConstraintComponent', ConstraintComponent);
  * 
  * // Register systems
  * world.registerSystem(new SerializationSystem(0)); // Priority 0
@@ -117,5 +180,13 @@ export { ConstraintSystem } from './systems/ConstraintSystem';
  * // Save to/load from JSON
  * const jsonData = serializationSystem?.saveScene('level1');
  * serializationSystem?.loadScene(jsonData || '{}');
+ * 
+ * // Save in the compact binary format instead (loading detects the format)
+ * serializationSystem?.setFormat(SerializationFormat.BINARY);
+ * const binaryData = serializationSystem?.saveScene('level1');
+ * 
+ * // Build a scene file loaded as an asset (AssetType.SCENE), and unload it again
+ * const sceneId = serializationSystem?.buildScene(AssetManager.getInstance().getScene('dungeon')!);
+ * serializationSystem?.unloadScene(sceneId!);
  * ```
  */ 
\ No newline at end of file
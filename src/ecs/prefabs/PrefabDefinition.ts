@@ -0,0 +1,130 @@
+/**
+ * Change of one property of a component in a prefab, applied on top of the prefab data
+ */
+export interface PrefabOverride {
+  /**
+   * Key of the node the component belongs to; nodes of nested prefabs are
+   * addressed by path, e.g. "weapon/blade"
+   */
+  node: string;
+
+  /**
+   * Stable type id of the component
+   */
+  component: string;
+
+  /**
+   * Which component of that type, if the node has several (default: 0)
+   */
+  index?: number;
+
+  /**
+   * Dot separated path into the serialized component data, e.g. "position.y"
+   */
+  property: string;
+
+  /**
+   * The new value
+   */
+  value: unknown;
+}
+
+/**
+ * Entity of a prefab, or a nested prefab
+ */
+export interface PrefabNode {
+  /**
+   * Key of the node, unique within the prefab (must not contain "/")
+   */
+  key: string;
+
+  /**
+   * Key of the parent node, or null for the root node
+   */
+  parent: string | null;
+
+  /**
+   * Entity name
+   */
+  name?: string;
+
+  /**
+   * Whether the entity is active (default: true)
+   */
+  active?: boolean;
+
+  /**
+   * Serialized ID of the entity; entity references between the nodes of
+   * the prefab use it. Nodes without ID can't be referenced.
+   */
+  id?: number;
+
+  /**
+   * Serialized components by type id, as written by Entity.serialize
+   */
+  components?: Record<string, unknown[]>;
+
+  /**
+   * Name of a prefab to nest here instead of the components
+   */
+  prefab?: string;
+
+  /**
+   * Overrides of the nested prefab, addressed relative to it
+   */
+  overrides?: PrefabOverride[];
+}
+
+/**
+ * Prefab as stored in prefab files
+ */
+export interface PrefabDefinition {
+  /**
+   * Name of the prefab
+   */
+  name: string;
+
+  /**
+   * Name of the prefab this one is a variant of
+   * A variant has the nodes of its base, with its own nodes added (or replacing
+   * base nodes with the same key) and its overrides applied on top
+   */
+  base?: string;
+
+  /**
+   * Schema version of each component type in the nodes, by type id
+   * Missing entries are treated as version 1
+   */
+  componentVersions?: Record<string, number>;
+
+  /**
+   * The nodes; a prefab without base needs exactly one root node
+   */
+  nodes?: PrefabNode[];
+
+  /**
+   * Overrides applied to the nodes (mainly used by variants)
+   */
+  overrides?: PrefabOverride[];
+}
+
+/**
+ * Check if a value is a prefab definition, e.g. when loading prefab files
+ * @param value The value to check
+ */
+export function isPrefabDefinition(value: unknown): value is PrefabDefinition {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const definition = value as Record<string, unknown>;
+  if (typeof definition.name !== 'string') return false;
+
+  // Variants may only override their base
+  if (definition.nodes === undefined) {
+    return typeof definition.base === 'string';
+  }
+
+  return Array.isArray(definition.nodes) &&
+    definition.nodes.every(node =>
+      typeof node === 'object' && node !== null && typeof (node as Record<string, unknown>).key === 'string'
+    );
+}
@@ -0,0 +1,891 @@
+import { Component, ComponentClass, EntityRefRemapper, IEntity, IPrefab, IPrefabLibrary, IWorld } from '../types';
+import { BaseComponent } from '../Component';
+import { createEntityRef, entityRefEquals } from '../EntityRef';
+import { MigrationRegistry } from '../serialization/MigrationRegistry';
+import { setDataProperty } from '../serialization/DataPath';
+import { PrefabInstanceComponent } from '../components/PrefabInstanceComponent';
+import { ThreeObject } from '../components/ThreeObject';
+import {
+  PrefabDefinition,
+  PrefabNode,
+  PrefabOverride,
+  isPrefabDefinition
+} from './PrefabDefinition';
+
+/**
+ * Prefab node with the component versions of the definition it comes from
+ */
+interface ResolvedNode extends PrefabNode {
+  componentVersions: Record<string, number>;
+}
+
+/**
+ * Prefab with its variant chain merged
+ */
+interface ResolvedPrefab {
+  nodes: ResolvedNode[];
+  overrides: PrefabOverride[];
+  root: ResolvedNode;
+}
+
+/**
+ * Prefab backed by a definition in the PrefabLibrary
+ */
+export class Prefab implements IPrefab {
+  /**
+   * Constructor
+   * @param definition The prefab definition
+   */
+  constructor(private definition: PrefabDefinition) {}
+
+  /**
+   * Name of the prefab
+   */
+  public get name(): string {
+    return this.definition.name;
+  }
+
+  /**
+   * Get the prefab definition
+   */
+  public getDefinition(): PrefabDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Create an instance of this prefab
+   * @param world The world to create the instance in
+   * @returns The root entity of the instance
+   * @throws Error if the prefab isn't registered in the PrefabLibrary
+   */
+  public instantiate(world: IWorld): IEntity {
+    const root = PrefabLibrary.getInstance().instantiate(this.name, world);
+    if (!root) {
+      throw new Error(`Prefab ${this.name} is not registered`);
+    }
+    return root;
+  }
+
+  /**
+   * Serialize the prefab definition
+   */
+  public serialize(): unknown {
+    return clone(this.definition);
+  }
+
+  /**
+   * Replace the prefab definition
+   * Call PrefabLibrary.updateInstances to apply it to existing instances
+   * @param data The new definition
+   * @throws Error if the data isn't a definition of this prefab
+   */
+  public deserialize(data: unknown): void {
+    if (!isPrefabDefinition(data) || data.name !== this.name) {
+      throw new Error(`Invalid definition for prefab ${this.name}`);
+    }
+    this.definition = clone(data);
+  }
+}
+
+/**
+ * PrefabLibrary - Registry of prefabs and manager of their instances
+ *
+ * Prefabs describe entity hierarchies as serialized data. They can nest
+ * other prefabs and be variants of a base prefab. Each instance remembers
+ * its prefab and its own property overrides in a PrefabInstanceComponent on
+ * its root entity, so instances can be updated in place when the prefab
+ * changes without losing their overrides.
+ */
+export class PrefabLibrary implements IPrefabLibrary {
+  private static instance: PrefabLibrary;
+
+  /**
+   * Prefabs by name
+   */
+  private prefabs: Map<string, IPrefab> = new Map();
+
+  /**
+   * Private constructor (use getInstance instead)
+   */
+  private constructor() {}
+
+  /**
+   * Get the PrefabLibrary instance
+   */
+  public static getInstance(): PrefabLibrary {
+    if (!PrefabLibrary.instance) {
+      PrefabLibrary.instance = new PrefabLibrary();
+    }
+    return PrefabLibrary.instance;
+  }
+
+  /**
+   * Register a prefab, replacing a prefab with the same name
+   * @param prefab The prefab to register
+   */
+  public registerPrefab(prefab: IPrefab): void {
+    this.prefabs.set(prefab.name, prefab);
+  }
+
+  /**
+   * Register a prefab definition, replacing a prefab with the same name
+   * Call updateInstances to apply a replaced prefab to existing instances
+   * @param definition The prefab definition
+   * @returns The registered prefab
+   * @throws Error if the definition is invalid
+   */
+  public register(definition: PrefabDefinition): Prefab {
+    if (!isPrefabDefinition(definition)) {
+      throw new Error('Invalid prefab definition');
+    }
+
+    const prefab = new Prefab(clone(definition));
+    this.registerPrefab(prefab);
+    return prefab;
+  }
+
+  /**
+   * Remove a prefab
+   * @param name The prefab name
+   * @returns True if the prefab was registered
+   */
+  public unregister(name: string): boolean {
+    return this.prefabs.delete(name);
+  }
+
+  /**
+   * Get a prefab by name
+   * @param name The prefab name
+   */
+  public getPrefab(name: string): IPrefab | null {
+    return this.prefabs.get(name) || null;
+  }
+
+  /**
+   * Get the definition of a prefab
+   * @param name The prefab name
+   * @returns The definition, or null if the prefab isn't registered or has no definition
+   */
+  public getDefinition(name: string): PrefabDefinition | null {
+    const prefab = this.prefabs.get(name);
+    return prefab instanceof Prefab ? prefab.getDefinition() : null;
+  }
+
+  /**
+   * Check if a prefab is registered
+   * @param name The prefab name
+   */
+  public has(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  /**
+   * Create an instance of a prefab
+   * @param prefabName The prefab name
+   * @param world The world to create the instance in
+   * @param overrides Overrides of this instance
+   * @returns The root entity of the instance, or null if the prefab isn't registered
+   * @throws Error if the prefab (or a prefab it uses) is invalid
+   */
+  public instantiate(prefabName: string, world: IWorld, overrides: PrefabOverride[] = []): IEntity | null {
+    const prefab = this.prefabs.get(prefabName);
+    if (!prefab) return null;
+
+    // Prefabs without definition create their entities themselves
+    if (!(prefab instanceof Prefab)) {
+      return prefab.instantiate(world);
+    }
+
+    return this.build(prefabName, world, overrides, []);
+  }
+
+  /**
+   * Create a prefab from an entity and its descendants, and register it
+   * Entity references between the captured entities are kept, references to
+   * other entities are dropped. Instances in the hierarchy are captured as
+   * plain entities.
+   * @param entity Root entity of the hierarchy
+   * @param name Name of the prefab
+   * @returns The registered prefab
+   */
+  public createFromEntity(entity: IEntity, name: string): Prefab {
+    const world = entity.world;
+    const entities = [entity, ...entity.getDescendants()];
+    const captured = new Set(entities);
+
+    // Derive unique node keys from the entity names
+    const keys: Map<IEntity, string> = new Map();
+    const usedKeys: Set<string> = new Set();
+    for (const item of entities) {
+      const baseKey = (item.name || 'entity').replace(/\//g, '_');
+      let key = baseKey;
+      for (let n = 2; usedKeys.has(key); n++) {
+        key = `${baseKey}#${n}`;
+      }
+      keys.set(item, key);
+      usedKeys.add(key);
+    }
+
+    // References between captured entities use the entity ID as node ID
+    const remap: EntityRefRemapper = ref => {
+      const target = world ? world.resolveEntityRef(ref) : null;
+      return target && captured.has(target) ? { id: target.id, generation: 0 } : null;
+    };
+
+    const componentVersions: Record<string, number> = {};
+    const nodes: PrefabNode[] = entities.map(item => {
+      const components: Record<string, unknown[]> = {};
+
+      item.getAllComponents().forEach(component => {
+        const componentClass = component.constructor as ComponentClass;
+        if (componentClass === PrefabInstanceComponent) return;
+
+        const typeId = (world && world.getComponentTypeId(componentClass)) || componentClass.name;
+        const version = world ? world.getComponentVersion(typeId) : null;
+        if (version !== null) {
+          componentVersions[typeId] = version;
+        }
+
+        if (!components[typeId]) {
+          components[typeId] = [];
+        }
+        components[typeId].push(serializeComponent(component, remap));
+      });
+
+      const parent = item.getParent();
+      return {
+        key: keys.get(item)!,
+        parent: item === entity || !parent ? null : keys.get(parent)!,
+        name: item.name,
+        active: item.active,
+        id: item.id,
+        components
+      };
+    });
+
+    return this.register({ name, componentVersions, nodes });
+  }
+
+  /**
+   * Update all instances of a prefab in a world, keeping their overrides
+   * Also updates instances of variants and of prefabs nesting the prefab
+   * @param world The world
+   * @param prefabName The prefab name
+   * @returns The number of updated instances
+   */
+  public updateInstances(world: IWorld, prefabName: string): number {
+    const roots = world.getAllEntities().filter(entity => {
+      const instance = entity.getComponent(PrefabInstanceComponent);
+      return instance !== null && this.dependsOn(instance.prefab, prefabName, new Set());
+    });
+
+    let count = 0;
+    for (const root of roots) {
+      // Nested instances are updated with the instance they are nested in
+      if (this.isNestedInstance(root, roots)) continue;
+
+      this.updateInstance(root);
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Update an instance to the current state of its prefab, keeping its overrides
+   * Entities of the instance are updated in place; components of types the
+   * prefab doesn't have are left alone
+   * @param root Root entity of the instance
+   * @throws Error if the entity isn't the root of a prefab instance
+   */
+  public updateInstance(root: IEntity): void {
+    const instance = root.getComponent(PrefabInstanceComponent);
+    if (!instance || !root.world) {
+      throw new Error(`Entity ${root.id} is not a prefab instance`);
+    }
+
+    this.sync(root, instance, root.world, []);
+  }
+
+  /**
+   * Set an override of an instance and apply it
+   * Replaces an existing override of the same property
+   * @param root Root entity of the instance
+   * @param override The override
+   * @throws Error if the entity isn't the root of a prefab instance
+   */
+  public setOverride(root: IEntity, override: PrefabOverride): void {
+    const instance = root.getComponent(PrefabInstanceComponent);
+    if (!instance) {
+      throw new Error(`Entity ${root.id} is not a prefab instance`);
+    }
+
+    instance.overrides = instance.overrides.filter(existing => !isSameTarget(existing, override));
+    instance.overrides.push(clone(override));
+    this.updateInstance(root);
+  }
+
+  /**
+   * Remove an override of an instance, restoring the prefab value
+   * @param root Root entity of the instance
+   * @param target The property to stop overriding
+   * @returns True if the property was overridden
+   */
+  public removeOverride(root: IEntity, target: Omit<PrefabOverride, 'value'>): boolean {
+    const instance = root.getComponent(PrefabInstanceComponent);
+    if (!instance) return false;
+
+    const count = instance.overrides.length;
+    instance.overrides = instance.overrides.filter(existing => !isSameTarget(existing, target));
+    if (instance.overrides.length === count) return false;
+
+    this.updateInstance(root);
+    return true;
+  }
+
+  /**
+   * Record how an instance differs from its prefab as its overrides
+   * Use this after editing an instance directly, so the changes survive prefab updates
+   * @param root Root entity of the instance
+   * @returns The recorded overrides
+   * @throws Error if the entity isn't the root of a prefab instance
+   */
+  public captureOverrides(root: IEntity): PrefabOverride[] {
+    const instance = root.getComponent(PrefabInstanceComponent);
+    if (!instance || !root.world) {
+      throw new Error(`Entity ${root.id} is not a prefab instance`);
+    }
+
+    instance.overrides = this.diff(root, instance, root.world, [], true);
+    return instance.overrides.map(override => clone(override));
+  }
+
+  /**
+   * Merge a prefab with its variant chain and validate the result
+   * @param name The prefab name
+   * @param chain Names of the variants being resolved, to detect cycles
+   */
+  private resolve(name: string, chain: string[] = []): ResolvedPrefab {
+    if (chain.includes(name)) {
+      throw new Error(`Prefab ${name} is a variant of itself`);
+    }
+
+    const definition = this.getDefinition(name);
+    if (!definition) {
+      throw new Error(`Prefab ${name} not found`);
+    }
+
+    const componentVersions = definition.componentVersions || {};
+    const ownNodes: ResolvedNode[] = (definition.nodes || []).map(node => ({ ...node, componentVersions }));
+    let nodes = ownNodes;
+    let overrides = definition.overrides || [];
+
+    if (definition.base) {
+      const base = this.resolve(definition.base, [...chain, name]);
+      const ownKeys = new Set(ownNodes.map(node => node.key));
+
+      nodes = [...base.nodes.filter(node => !ownKeys.has(node.key)), ...ownNodes];
+      overrides = [...base.overrides, ...overrides];
+    }
+
+    // Validate the hierarchy
+    const keys: Set<string> = new Set();
+    for (const node of nodes) {
+      if (keys.has(node.key) || node.key.includes('/')) {
+        throw new Error(`Invalid or duplicate node key ${node.key} in prefab ${name}`);
+      }
+      keys.add(node.key);
+    }
+
+    const roots = nodes.filter(node => node.parent === null || node.parent === undefined);
+    if (roots.length !== 1) {
+      throw new Error(`Prefab ${name} must have exactly one root node`);
+    }
+    if (roots[0].prefab) {
+      throw new Error(`Root node of prefab ${name} can't be a nested prefab; use a variant instead`);
+    }
+
+    for (const node of nodes) {
+      if (node.parent && !keys.has(node.parent)) {
+        throw new Error(`Parent ${node.parent} of node ${node.key} not found in prefab ${name}`);
+      }
+    }
+
+    return { nodes, overrides, root: roots[0] };
+  }
+
+  /**
+   * Create the entities of a prefab
+   * @param name The prefab name
+   * @param world The world to create the entities in
+   * @param overrides Overrides of the instance
+   * @param chain Names of the prefabs being built, to detect cycles
+   * @returns The root entity
+   */
+  private build(name: string, world: IWorld, overrides: PrefabOverride[], chain: string[]): IEntity {
+    if (chain.includes(name)) {
+      throw new Error(`Prefab ${name} contains itself`);
+    }
+
+    const resolved = this.resolve(name);
+    const allOverrides = [...resolved.overrides, ...overrides];
+    const ids = getNodeIds(resolved.nodes);
+    const entities: Map<string, IEntity> = new Map();
+
+    // Create the entities of all component nodes at once, so the world remaps
+    // the references between them
+    const componentNodes = resolved.nodes.filter(node => !node.prefab);
+    const entitiesData = componentNodes.map(node => {
+      const parent = node.parent ? resolved.nodes.find(other => other.key === node.parent)! : null;
+
+      return {
+        id: ids.get(node.key),
+        generation: 0,
+        name: node.name,
+        active: node.active !== false,
+        parentId: parent && !parent.prefab ? ids.get(parent.key) : null,
+        components: this.createNodeData(node, world, allOverrides)
+      };
+    });
+
+    const created = world.deserializeEntities(entitiesData, false);
+    componentNodes.forEach((node, index) => entities.set(node.key, created[index]));
+
+    // Create the nested prefabs
+    for (const node of resolved.nodes) {
+      if (!node.prefab) continue;
+
+      const nestedRoot = this.build(node.prefab, world, getNestedOverrides(node, allOverrides), [...chain, name]);
+      if (node.active === false) {
+        nestedRoot.deactivate();
+      }
+      entities.set(node.key, nestedRoot);
+    }
+
+    this.restoreHierarchy(resolved, entities);
+
+    const root = entities.get(resolved.root.key)!;
+    const instance = new PrefabInstanceComponent(name, clone(overrides));
+    entities.forEach((entity, key) => {
+      instance.nodes[key] = createEntityRef(entity);
+    });
+    root.addComponent(instance);
+
+    return root;
+  }
+
+  /**
+   * Update the entities of an instance in place
+   * @param root Root entity of the instance
+   * @param instance The instance component of the root
+   * @param world The world of the instance
+   * @param chain Names of the prefabs being updated, to detect cycles
+   */
+  private sync(root: IEntity, instance: PrefabInstanceComponent, world: IWorld, chain: string[]): void {
+    const name = instance.prefab;
+    if (chain.includes(name)) {
+      throw new Error(`Prefab ${name} contains itself`);
+    }
+
+    const resolved = this.resolve(name);
+    const allOverrides = [...resolved.overrides, ...instance.overrides];
+    const ids = getNodeIds(resolved.nodes);
+
+    // Entities of the instance as last updated
+    const existing: Map<string, IEntity> = new Map();
+    for (const [key, ref] of Object.entries(instance.nodes)) {
+      const entity = world.resolveEntityRef(ref);
+      if (entity) {
+        existing.set(key, entity);
+      }
+    }
+    existing.set(resolved.root.key, root);
+
+    const entities: Map<string, IEntity> = new Map();
+    const entitiesByNodeId: Map<number, IEntity> = new Map();
+    const synced: Component[] = [];
+
+    for (const node of resolved.nodes) {
+      let entity = existing.get(node.key) || null;
+
+      if (node.prefab) {
+        const nestedInstance = entity ? entity.getComponent(PrefabInstanceComponent) : null;
+        const nestedOverrides = getNestedOverrides(node, allOverrides);
+
+        if (entity && nestedInstance && nestedInstance.prefab === node.prefab) {
+          nestedInstance.overrides = nestedOverrides;
+          this.sync(entity, nestedInstance, world, [...chain, name]);
+        } else {
+          entity = this.build(node.prefab, world, nestedOverrides, [...chain, name]);
+        }
+      } else {
+        // An entity that was a nested prefab before is replaced
+        if (!entity || (entity !== root && entity.hasComponent(PrefabInstanceComponent))) {
+          entity = world.createEntity(node.name);
+          if (node.active === false) {
+            entity.deactivate();
+          }
+        }
+
+        const componentsData = this.createNodeData(node, world, allOverrides);
+        
+        // Instances are placed individually, so a top level root keeps its transform
+        if (entity === root && chain.length === 0) {
+          keepTransform(root, componentsData, world);
+        }
+        
+        synced.push(...applyComponents(entity, componentsData, world));
+      }
+
+      entities.set(node.key, entity);
+      entitiesByNodeId.set(ids.get(node.key)!, entity);
+    }
+
+    this.restoreHierarchy(resolved, entities);
+
+    // Destroy the entities of removed nodes, after their remaining children moved away
+    existing.forEach((entity, key) => {
+      if (entities.get(key) !== entity && entity !== root) {
+        world.destroyEntity(entity);
+      }
+    });
+
+    // Point the references in the updated data at the instance's entities
+    const remap: EntityRefRemapper = ref => {
+      const entity = entitiesByNodeId.get(ref.id);
+      return entity ? createEntityRef(entity) : null;
+    };
+    synced.forEach(component => {
+      if (component.remapEntityRefs) {
+        component.remapEntityRefs(remap);
+      }
+    });
+
+    instance.nodes = {};
+    entities.forEach((entity, key) => {
+      instance.nodes[key] = createEntityRef(entity);
+    });
+  }
+
+  /**
+   * Compute the overrides that turn a prefab into the current state of an instance
+   * @param root Root entity of the instance
+   * @param instance The instance component of the root
+   * @param world The world of the instance
+   * @param baseOverrides Overrides the instance got from the prefab it's nested in
+   * @param topLevel Whether the instance isn't nested (its root transform isn't an override then)
+   */
+  private diff(
+    root: IEntity,
+    instance: PrefabInstanceComponent,
+    world: IWorld,
+    baseOverrides: PrefabOverride[],
+    topLevel: boolean
+  ): PrefabOverride[] {
+    const resolved = this.resolve(instance.prefab);
+    const prefabOverrides = [...resolved.overrides, ...baseOverrides];
+    const ids = getNodeIds(resolved.nodes);
+    const overrides: PrefabOverride[] = [];
+
+    const entities: Map<string, IEntity> = new Map();
+    for (const node of resolved.nodes) {
+      const ref = instance.nodes[node.key];
+      const entity = node === resolved.root ? root : (ref ? world.resolveEntityRef(ref) : null);
+      if (entity) {
+        entities.set(node.key, entity);
+      }
+    }
+
+    // Write references the way the prefab data does
+    const nodeIdsByEntity: Map<IEntity, number> = new Map();
+    entities.forEach((entity, key) => nodeIdsByEntity.set(entity, ids.get(key)!));
+    const remap: EntityRefRemapper = ref => {
+      const entity = world.resolveEntityRef(ref);
+      const nodeId = entity ? nodeIdsByEntity.get(entity) : undefined;
+      return nodeId !== undefined ? { id: nodeId, generation: 0 } : null;
+    };
+
+    for (const node of resolved.nodes) {
+      const entity = entities.get(node.key);
+      if (!entity) continue;
+
+      if (node.prefab) {
+        const nestedInstance = entity.getComponent(PrefabInstanceComponent);
+        if (!nestedInstance || nestedInstance.prefab !== node.prefab) continue;
+
+        const nestedBase = getNestedOverrides(node, prefabOverrides);
+        const nestedOverrides = this.diff(entity, nestedInstance, world, nestedBase, false);
+        nestedInstance.overrides = [...nestedBase, ...nestedOverrides];
+
+        nestedOverrides.forEach(override => overrides.push({ ...override, node: `${node.key}/${override.node}` }));
+        continue;
+      }
+
+      const prefabData = this.createNodeData(node, world, prefabOverrides);
+      if (entity === root && topLevel) {
+        keepTransform(root, prefabData, world);
+      }
+      for (const [typeId, dataList] of Object.entries(prefabData)) {
+        const componentClass = world.getComponentClass(typeId);
+        if (!componentClass) continue;
+
+        // A different number of components can't be expressed as overrides
+        const components = entity.getComponents(componentClass);
+        if (components.length !== dataList.length) continue;
+
+        components.forEach((component, index) => {
+          diffData(dataList[index], serializeComponent(component, remap), '', (property, value) => {
+            overrides.push({
+              node: node.key,
+              component: typeId,
+              ...(index > 0 ? { index } : {}),
+              property,
+              value
+            });
+          });
+        });
+      }
+    }
+
+    return overrides;
+  }
+
+  /**
+   * Create the serialized components of a node, upgraded to the world's
+   * component versions and with the overrides of the node applied
+   * @param node The node
+   * @param world The world the components are for
+   * @param overrides Overrides of the prefab and instance
+   */
+  private createNodeData(node: ResolvedNode, world: IWorld, overrides: PrefabOverride[]): Record<string, unknown[]> {
+    const migrations = MigrationRegistry.getInstance();
+    const components: Record<string, unknown[]> = {};
+
+    for (const [typeId, dataList] of Object.entries(node.components || {})) {
+      if (!Array.isArray(dataList)) continue;
+
+      const version = world.getComponentVersion(typeId);
+      const fromVersion = node.componentVersions[typeId] || 1;
+
+      components[typeId] = dataList.map(data => version === null
+        ? clone(data)
+        : migrations.migrateComponent(typeId, clone(data), fromVersion, version)
+      );
+    }
+
+    for (const override of overrides) {
+      if (override.node !== node.key) continue;
+
+      const dataList = components[override.component];
+      const data = dataList ? dataList[override.index || 0] : undefined;
+      if (typeof data !== 'object' || data === null) {
+        console.warn(`Override target not found: ${override.node} ${override.component}`);
+        continue;
+      }
+
+      setDataProperty(data, override.property, clone(override.value));
+    }
+
+    return components;
+  }
+
+  /**
+   * Parent the entities of an instance according to the prefab
+   * Serialized transforms are local, so entities keep them
+   */
+  private restoreHierarchy(resolved: ResolvedPrefab, entities: Map<string, IEntity>): void {
+    for (const node of resolved.nodes) {
+      if (!node.parent) continue;
+
+      const entity = entities.get(node.key)!;
+      const parent = entities.get(node.parent)!;
+      if (entity.getParent() !== parent) {
+        entity.setParent(parent, false);
+      }
+    }
+  }
+
+  /**
+   * Check if a prefab uses another one, as base or nested prefab
+   * @param name The prefab to check
+   * @param target The prefab that may be used
+   * @param visited Prefabs already checked
+   */
+  private dependsOn(name: string, target: string, visited: Set<string>): boolean {
+    if (name === target) return true;
+    if (visited.has(name)) return false;
+    visited.add(name);
+
+    const definition = this.getDefinition(name);
+    if (!definition) return false;
+
+    if (definition.base && this.dependsOn(definition.base, target, visited)) {
+      return true;
+    }
+
+    return (definition.nodes || []).some(node => node.prefab !== undefined && this.dependsOn(node.prefab, target, visited));
+  }
+
+  /**
+   * Check if an instance is nested in one of the given instances
+   * @param root Root entity of the instance
+   * @param roots Root entities of other instances
+   */
+  private isNestedInstance(root: IEntity, roots: IEntity[]): boolean {
+    const ref = createEntityRef(root);
+
+    for (let ancestor = root.getParent(); ancestor; ancestor = ancestor.getParent()) {
+      if (!roots.includes(ancestor)) continue;
+
+      const instance = ancestor.getComponent(PrefabInstanceComponent)!;
+      if (Object.values(instance.nodes).some(nodeRef => entityRefEquals(nodeRef, ref))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
+
+/**
+ * Deep copy JSON-compatible data
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Get the serialized entity ID of each node
+ * Nodes without ID get negative IDs, which never clash with real entity IDs
+ */
+function getNodeIds(nodes: PrefabNode[]): Map<string, number> {
+  const ids: Map<string, number> = new Map();
+  nodes.forEach((node, index) => ids.set(node.key, node.id !== undefined ? node.id : -(index + 1)));
+  return ids;
+}
+
+/**
+ * Get the overrides of a nested prefab node, relative to the nested prefab
+ * @param node The nested prefab node
+ * @param overrides Overrides of the prefab containing the node
+ */
+function getNestedOverrides(node: PrefabNode, overrides: PrefabOverride[]): PrefabOverride[] {
+  const prefix = node.key + '/';
+
+  return [
+    ...(node.overrides || []),
+    ...overrides
+      .filter(override => override.node.startsWith(prefix))
+      .map(override => ({ ...override, node: override.node.slice(prefix.length) }))
+  ];
+}
+
+/**
+ * Check if two overrides target the same property
+ */
+function isSameTarget(a: Omit<PrefabOverride, 'value'>, b: Omit<PrefabOverride, 'value'>): boolean {
+  return a.node === b.node &&
+    a.component === b.component &&
+    (a.index || 0) === (b.index || 0) &&
+    a.property === b.property;
+}
+
+/**
+ * Replace the transform in serialized components with the current transform of an entity
+ * @param entity The entity
+ * @param componentsData Serialized components of the entity by type id
+ * @param world The world the types are registered in
+ */
+function keepTransform(entity: IEntity, componentsData: Record<string, unknown[]>, world: IWorld): void {
+  const threeObject = entity.getComponent(ThreeObject);
+  const typeId = world.getComponentTypeId(ThreeObject);
+  const data = typeId && componentsData[typeId] ? componentsData[typeId][0] : undefined;
+  if (!threeObject || typeof data !== 'object' || data === null) return;
+
+  const current = threeObject.serialize() as Record<string, unknown>;
+  for (const property of ['position', 'rotation', 'scale']) {
+    (data as Record<string, unknown>)[property] = current[property];
+  }
+}
+
+/**
+ * Serialize a component with its entity references remapped
+ * @param component The component
+ * @param remap Maps the references of the component
+ */
+function serializeComponent(component: Component, remap: EntityRefRemapper): unknown {
+  const data = component.serialize();
+  if (!component.remapEntityRefs) return data;
+
+  // Remap on a detached copy so the component itself is left alone
+  const copy = new (component.constructor as ComponentClass)();
+  copy.deserialize(data);
+  copy.remapEntityRefs!(remap);
+  return copy.serialize();
+}
+
+/**
+ * Replace the components of an entity with serialized data
+ * Components are updated in place where the number of components of a type
+ * didn't change, and recreated otherwise
+ * @param entity The entity
+ * @param componentsData Serialized components by type id
+ * @param world The world the types are registered in
+ * @returns The updated and created components
+ */
+function applyComponents(entity: IEntity, componentsData: Record<string, unknown[]>, world: IWorld): Component[] {
+  const applied: Component[] = [];
+
+  for (const [typeId, dataList] of Object.entries(componentsData)) {
+    const componentClass = world.getComponentClass(typeId);
+    if (!componentClass) {
+      console.warn(`Skipping unregistered component type: ${typeId}`);
+      continue;
+    }
+
+    const components = entity.getComponents(componentClass);
+
+    if (components.length === dataList.length) {
+      components.forEach((component, index) => {
+        component.deserialize(dataList[index]);
+        if (component instanceof BaseComponent) {
+          component.markChanged();
+        }
+        applied.push(component);
+      });
+    } else {
+      entity.removeComponents(componentClass);
+      dataList.forEach(data => {
+        const component = new componentClass();
+        component.deserialize(data);
+        entity.addComponent(component);
+        applied.push(component);
+      });
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Report the leaf properties of serialized data that differ from a baseline
+ * @param base The baseline data
+ * @param current The current data
+ * @param path Path of the data
+ * @param report Called with the path and value of each difference
+ */
+function diffData(base: unknown, current: unknown, path: string, report: (property: string, value: unknown) => void): void {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const join = (key: string): string => path ? `${path}.${key}` : key;
+
+  if (isObject(base) && isObject(current)) {
+    for (const key of Object.keys(current)) {
+      diffData(base[key], current[key], join(key), report);
+    }
+  } else if (Array.isArray(base) && Array.isArray(current) && base.length === current.length) {
+    current.forEach((item, index) => diffData(base[index], item, join(String(index)), report));
+  } else if (path && JSON.stringify(base) !== JSON.stringify(current)) {
+    report(path, clone(current));
+  }
+}
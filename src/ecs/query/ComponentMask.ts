@@ -0,0 +1,150 @@
+import { Component, ComponentClass } from '../types';
+
+/**
+ * Bit indices assigned to component classes
+ * Component classes are global, so the assignment is shared by all worlds
+ */
+const componentBits: Map<ComponentClass, number> = new Map();
+
+/**
+ * Get the bit index for a component class, assigning a new one on first use
+ * @param componentClass The component class
+ * @returns The bit index of the component class
+ */
+export function getComponentBit(componentClass: ComponentClass<Component>): number {
+  let bit = componentBits.get(componentClass);
+  if (bit === undefined) {
+    bit = componentBits.size;
+    componentBits.set(componentClass, bit);
+  }
+  return bit;
+}
+
+/**
+ * Bitset describing a set of component classes
+ * Used as the component signature of an entity and as the filter of a query
+ */
+export class ComponentMask {
+  /**
+   * 32-bit words holding the bits
+   */
+  private words: number[] = [];
+
+  /**
+   * Create a mask from a list of component classes
+   * @param componentClasses The component classes to set
+   * @returns The created mask
+   */
+  public static fromClasses(componentClasses: ComponentClass<Component>[]): ComponentMask {
+    const mask = new ComponentMask();
+    for (const componentClass of componentClasses) {
+      mask.set(getComponentBit(componentClass));
+    }
+    return mask;
+  }
+
+  /**
+   * Create a mask from the components currently on an entity
+   * @param components The components of the entity
+   * @returns The created mask
+   */
+  public static fromComponents(components: Component[]): ComponentMask {
+    const mask = new ComponentMask();
+    for (const component of components) {
+      mask.set(getComponentBit(component.constructor as ComponentClass));
+    }
+    return mask;
+  }
+
+  /**
+   * Set a bit
+   * @param bit The bit index to set
+   * @returns This mask for method chaining
+   */
+  public set(bit: number): this {
+    const word = bit >>> 5;
+    while (this.words.length <= word) {
+      this.words.push(0);
+    }
+    this.words[word] |= 1 << (bit & 31);
+    return this;
+  }
+
+  /**
+   * Check if a bit is set
+   * @param bit The bit index to check
+   */
+  public has(bit: number): boolean {
+    const word = bit >>> 5;
+    return word < this.words.length && (this.words[word] & (1 << (bit & 31))) !== 0;
+  }
+
+  /**
+   * Check if no bits are set
+   */
+  public isEmpty(): boolean {
+    return this.words.every(word => word === 0);
+  }
+
+  /**
+   * Check if every bit of another mask is also set in this mask
+   * @param other The mask to check against
+   */
+  public containsAll(other: ComponentMask): boolean {
+    for (let i = 0; i < other.words.length; i++) {
+      const word = i < this.words.length ? this.words[i] : 0;
+      if ((word & other.words[i]) !== other.words[i]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check if this mask shares at least one bit with another mask
+   * @param other The mask to check against
+   */
+  public intersects(other: ComponentMask): boolean {
+    const length = Math.min(this.words.length, other.words.length);
+    for (let i = 0; i < length; i++) {
+      if ((this.words[i] & other.words[i]) !== 0) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Check if this mask has exactly the same bits as another mask
+   * @param other The mask to compare with
+   */
+  public equals(other: ComponentMask): boolean {
+    const length = Math.max(this.words.length, other.words.length);
+    for (let i = 0; i < length; i++) {
+      const a = i < this.words.length ? this.words[i] : 0;
+      const b = i < other.words.length ? other.words[i] : 0;
+      if (a !== b) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check if this mask and another mask differ in any bit of a third mask
+   * @param other The mask to compare with
+   * @param within The bits to compare
+   */
+  public differsWithin(other: ComponentMask, within: ComponentMask): boolean {
+    for (let i = 0; i < within.words.length; i++) {
+      const a = i < this.words.length ? this.words[i] : 0;
+      const b = i < other.words.length ? other.words[i] : 0;
+      if (((a ^ b) & within.words[i]) !== 0) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get a string key uniquely identifying the set bits
+   * Used to share cached queries between identical filters
+   */
+  public toKey(): string {
+    let end = this.words.length;
+    while (end > 0 && this.words[end - 1] === 0) end--;
+    return this.words.slice(0, end).map(word => (word >>> 0).toString(16)).join('.');
+  }
+}
@@ -0,0 +1,197 @@
+import { Component, ComponentClass, IEntity } from '../types';
+import { ComponentMask, getComponentBit } from './ComponentMask';
+import { QueryTracker } from './QueryTracker';
+
+/**
+ * Filter describing which entities a query matches
+ */
+export interface QueryDescriptor {
+  /**
+   * Components an entity must all have
+   */
+  all?: ComponentClass<Component>[];
+
+  /**
+   * Components an entity must have at least one of
+   */
+  any?: ComponentClass<Component>[];
+
+  /**
+   * Components an entity must not have
+   */
+  none?: ComponentClass<Component>[];
+}
+
+/**
+ * Cached query over the entities of a world
+ * Membership is maintained incrementally by the QueryIndex whenever an entity's
+ * components or active state change, so reading the results is cheap
+ */
+export class Query {
+  /**
+   * Components an entity must all have to match this query
+   */
+  public readonly all: ComponentMask;
+
+  /**
+   * Components an entity must have at least one of to match this query
+   */
+  public readonly any: ComponentMask;
+
+  /**
+   * Components an entity must not have to match this query
+   */
+  public readonly none: ComponentMask;
+
+  /**
+   * Components whose mutation counts as a change for trackers
+   * Empty means every component is watched
+   */
+  private watched: ComponentMask;
+
+  /**
+   * Entities currently matching this query
+   */
+  private members: Set<IEntity> = new Set();
+
+  /**
+   * Cached array of matching entities, rebuilt lazily after membership changes
+   */
+  private cache: IEntity[] | null = null;
+
+  /**
+   * Trackers recording membership changes of this query
+   */
+  private trackers: QueryTracker[] = [];
+
+  /**
+   * Constructor
+   * @param descriptor Filter describing which entities match this query
+   */
+  constructor(descriptor: QueryDescriptor) {
+    this.all = ComponentMask.fromClasses(descriptor.all || []);
+    this.any = ComponentMask.fromClasses(descriptor.any || []);
+    this.none = ComponentMask.fromClasses(descriptor.none || []);
+    this.watched = ComponentMask.fromClasses([...(descriptor.all || []), ...(descriptor.any || [])]);
+  }
+
+  /**
+   * Get a string key uniquely identifying a query filter
+   * @param descriptor The query filter
+   */
+  public static getKey(descriptor: QueryDescriptor): string {
+    return [
+      ComponentMask.fromClasses(descriptor.all || []).toKey(),
+      ComponentMask.fromClasses(descriptor.any || []).toKey(),
+      ComponentMask.fromClasses(descriptor.none || []).toKey()
+    ].join('|');
+  }
+
+  /**
+   * Check if an entity signature matches this query
+   * @param signature The component signature of the entity
+   */
+  public matches(signature: ComponentMask): boolean {
+    if (!signature.containsAll(this.all)) return false;
+    if (!this.any.isEmpty() && !signature.intersects(this.any)) return false;
+    return !signature.intersects(this.none);
+  }
+
+  /**
+   * Update the membership of an entity after its signature changed
+   * @param entity The entity to update
+   * @param signature The current component signature of the entity, or null if it is inactive or removed
+   * @param previous The signature of the entity before the change, or null if it wasn't indexed
+   * @internal Used by QueryIndex
+   */
+  public _update(entity: IEntity, signature: ComponentMask | null, previous: ComponentMask | null = null): void {
+    if (signature && this.matches(signature)) {
+      if (!this.members.has(entity)) {
+        this.members.add(entity);
+        this.cache = null;
+        this.trackers.forEach(tracker => tracker._onAdded(entity));
+      } else if (this.watched.isEmpty() || (previous && previous.differsWithin(signature, this.watched))) {
+        // Still matching, but a watched component was added or removed
+        this.trackers.forEach(tracker => tracker._onChanged(entity));
+      }
+    } else if (this.members.delete(entity)) {
+      this.cache = null;
+      this.trackers.forEach(tracker => tracker._onRemoved(entity));
+    }
+  }
+
+  /**
+   * Record that a component of a matching entity was mutated
+   * @param entity The entity owning the component
+   * @param componentClass The class of the mutated component
+   * @internal Used by QueryIndex
+   */
+  public _componentChanged(entity: IEntity, componentClass: ComponentClass<Component>): void {
+    if (this.trackers.length === 0 || !this.members.has(entity)) return;
+    if (!this.watched.isEmpty() && !this.watched.has(getComponentBit(componentClass))) return;
+
+    this.trackers.forEach(tracker => tracker._onChanged(entity));
+  }
+
+  /**
+   * Remove all entities from this query
+   * @internal Used by QueryIndex
+   */
+  public _clear(): void {
+    this.members.forEach(entity => {
+      this.trackers.forEach(tracker => tracker._onRemoved(entity));
+    });
+    this.members.clear();
+    this.cache = null;
+  }
+
+  /**
+   * Create a tracker that records entities added to, removed from or changed in this query
+   * Entities already matching are not reported as added
+   * @returns The created tracker
+   */
+  public track(): QueryTracker {
+    const tracker = new QueryTracker(this);
+    this.trackers.push(tracker);
+    return tracker;
+  }
+
+  /**
+   * Stop notifying a tracker
+   * @param tracker The tracker to remove
+   * @internal Used by QueryTracker.dispose
+   */
+  public _removeTracker(tracker: QueryTracker): void {
+    const index = this.trackers.indexOf(tracker);
+    if (index !== -1) {
+      this.trackers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Check if an entity currently matches this query
+   * @param entity The entity to check
+   */
+  public has(entity: IEntity): boolean {
+    return this.members.has(entity);
+  }
+
+  /**
+   * Get the number of matching entities
+   */
+  public get size(): number {
+    return this.members.size;
+  }
+
+  /**
+   * Get the matching entities, ordered by entity ID
+   * The returned array is a snapshot: later changes produce a new array,
+   * so it is safe to keep iterating it while entities change
+   */
+  public getEntities(): IEntity[] {
+    if (!this.cache) {
+      this.cache = Array.from(this.members).sort((a, b) => a.id - b.id);
+    }
+    return this.cache;
+  }
+}
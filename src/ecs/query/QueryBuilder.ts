@@ -0,0 +1,94 @@
+import { ComponentClass, IEntity, IWorld } from '../types';
+import type { Query, QueryDescriptor } from './Query';
+
+/**
+ * Fluent builder for world queries
+ *
+ * ```typescript
+ * const renderables = world.queryBuilder()
+ *   .all(MeshComponent, MaterialComponent)
+ *   .none(CameraComponent)
+ *   .build();
+ * ```
+ */
+export class QueryBuilder {
+  /**
+   * World the query is built for
+   */
+  private world: IWorld;
+
+  /**
+   * Filter collected so far
+   */
+  private descriptor: Required<QueryDescriptor> = {
+    all: [],
+    any: [],
+    none: []
+  };
+
+  /**
+   * Constructor
+   * @param world World the query is built for
+   */
+  constructor(world: IWorld) {
+    this.world = world;
+  }
+
+  /**
+   * Require entities to have all of the given components
+   * @param componentClasses The required component classes
+   * @returns This builder for method chaining
+   */
+  public all(...componentClasses: ComponentClass<any>[]): this {
+    this.descriptor.all.push(...componentClasses);
+    return this;
+  }
+
+  /**
+   * Require entities to have at least one of the given components
+   * @param componentClasses The component classes
+   * @returns This builder for method chaining
+   */
+  public any(...componentClasses: ComponentClass<any>[]): this {
+    this.descriptor.any.push(...componentClasses);
+    return this;
+  }
+
+  /**
+   * Exclude entities having any of the given components
+   * @param componentClasses The excluded component classes
+   * @returns This builder for method chaining
+   */
+  public none(...componentClasses: ComponentClass<any>[]): this {
+    this.descriptor.none.push(...componentClasses);
+    return this;
+  }
+
+  /**
+   * Get the filter collected so far
+   */
+  public getDescriptor(): QueryDescriptor {
+    return {
+      all: [...this.descriptor.all],
+      any: [...this.descriptor.any],
+      none: [...this.descriptor.none]
+    };
+  }
+
+  /**
+   * Get the cached query for the collected filter
+   * @returns The cached query
+   */
+  public build(): Query {
+    return this.world.getQuery(this.getDescriptor());
+  }
+
+  /**
+   * Get the entities currently matching the collected filter
+   * @returns The matching entities, ordered by ID
+   */
+  public entities(): IEntity[] {
+    return this.build().getEntities();
+  }
+}
+
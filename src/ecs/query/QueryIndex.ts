@@ -0,0 +1,104 @@
+import { Component, ComponentClass, IEntity } from '../types';
+import { ComponentMask } from './ComponentMask';
+import { Query, QueryDescriptor } from './Query';
+
+/**
+ * Index of component signatures and cached queries for a world
+ * Every entity gets a bitset signature of its component classes; queries are
+ * created once per distinct filter and kept up to date as signatures change
+ */
+export class QueryIndex {
+  /**
+   * Component signatures of active entities by entity ID
+   */
+  private signatures: Map<number, ComponentMask> = new Map();
+
+  /**
+   * Cached queries by filter key
+   */
+  private queries: Map<string, Query> = new Map();
+
+  /**
+   * Get or create the cached query for a filter
+   * @param descriptor Filter describing which entities match
+   * @param entities All entities of the world, used to populate a newly created query
+   * @returns The cached query
+   */
+  public getQuery(descriptor: QueryDescriptor, entities: Iterable<IEntity>): Query {
+    const key = Query.getKey(descriptor);
+
+    let query = this.queries.get(key);
+    if (!query) {
+      query = new Query(descriptor);
+      this.populate(query, entities);
+      this.queries.set(key, query);
+    }
+
+    return query;
+  }
+
+  /**
+   * Populate a new query with the currently indexed entities
+   * @param query The query to populate
+   * @param entities All entities of the world
+   */
+  private populate(query: Query, entities: Iterable<IEntity>): void {
+    for (const entity of entities) {
+      query._update(entity, this.signatures.get(entity.id) || null);
+    }
+  }
+
+  /**
+   * Recompute the signature of an entity and update all queries
+   * Called when an entity is added to the world, gains or loses a component,
+   * or is activated or deactivated
+   * @param entity The entity that changed
+   */
+  public updateEntity(entity: IEntity): void {
+    let signature: ComponentMask | null = null;
+    let previous: ComponentMask | null = null;
+
+    if (entity.active) {
+      signature = ComponentMask.fromComponents(entity.getAllComponents());
+
+      // Skip the query pass if nothing relevant changed
+      previous = this.signatures.get(entity.id) || null;
+      if (previous && previous.equals(signature)) return;
+
+      this.signatures.set(entity.id, signature);
+    } else if (!this.signatures.delete(entity.id)) {
+      return;
+    }
+
+    this.queries.forEach(query => query._update(entity, signature, previous));
+  }
+
+  /**
+   * Record that a component of an entity was mutated
+   * @param entity The entity owning the component
+   * @param componentClass The class of the mutated component
+   */
+  public componentChanged(entity: IEntity, componentClass: ComponentClass<Component>): void {
+    if (!this.signatures.has(entity.id)) return;
+
+    this.queries.forEach(query => query._componentChanged(entity, componentClass));
+  }
+
+  /**
+   * Remove an entity from the index and all queries
+   * @param entity The entity that left the world
+   */
+  public removeEntity(entity: IEntity): void {
+    this.signatures.delete(entity.id);
+    this.queries.forEach(query => query._update(entity, null));
+  }
+
+  /**
+   * Remove all entities from the index
+   * Cached queries are kept so systems holding them stay valid
+   */
+  public clear(): void {
+    this.signatures.clear();
+    this.queries.forEach(query => query._clear());
+  }
+}
@@ -0,0 +1,101 @@
+import { IEntity } from '../types';
+import type { Query } from './Query';
+
+/**
+ * Reactive view of the changes to a query since it was last cleared
+ * Systems get one per query through System.track and it is cleared after
+ * each update, so it holds the changes since that system last ran
+ */
+export class QueryTracker {
+  /**
+   * The query being tracked
+   */
+  public readonly query: Query;
+
+  /**
+   * Entities that started matching the query
+   */
+  public readonly added: Set<IEntity> = new Set();
+
+  /**
+   * Entities that stopped matching the query
+   */
+  public readonly removed: Set<IEntity> = new Set();
+
+  /**
+   * Entities that kept matching but whose component set or watched components changed
+   */
+  public readonly changed: Set<IEntity> = new Set();
+
+  /**
+   * Constructor
+   * @param query The query being tracked
+   * @internal Use Query.track to create trackers
+   */
+  constructor(query: Query) {
+    this.query = query;
+  }
+
+  /**
+   * Record that an entity started matching the query
+   * @param entity The entity
+   * @internal Used by Query
+   */
+  public _onAdded(entity: IEntity): void {
+    if (this.removed.delete(entity)) {
+      // Left and came back: report as changed rather than added
+      this.changed.add(entity);
+    } else {
+      this.added.add(entity);
+    }
+  }
+
+  /**
+   * Record that an entity stopped matching the query
+   * @param entity The entity
+   * @internal Used by Query
+   */
+  public _onRemoved(entity: IEntity): void {
+    this.changed.delete(entity);
+
+    // Entities added and removed between two runs were never seen by the system
+    if (!this.added.delete(entity)) {
+      this.removed.add(entity);
+    }
+  }
+
+  /**
+   * Record that a matching entity changed
+   * @param entity The entity
+   * @internal Used by Query
+   */
+  public _onChanged(entity: IEntity): void {
+    if (!this.added.has(entity)) {
+      this.changed.add(entity);
+    }
+  }
+
+  /**
+   * Check if anything was recorded since the last clear
+   */
+  public hasChanges(): boolean {
+    return this.added.size > 0 || this.removed.size > 0 || this.changed.size > 0;
+  }
+
+  /**
+   * Forget all recorded changes
+   */
+  public clear(): void {
+    this.added.clear();
+    this.removed.clear();
+    this.changed.clear();
+  }
+
+  /**
+   * Stop tracking the query
+   */
+  public dispose(): void {
+    this.clear();
+    this.query._removeTracker(this);
+  }
+}
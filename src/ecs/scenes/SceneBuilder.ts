@@ -0,0 +1,307 @@
+import { EntityRef, EntityRefRemapper, IEntity, IWorld } from '../types';
+import { createEntityRef, isEntityRef } from '../EntityRef';
+import { MigrationRegistry } from '../serialization/MigrationRegistry';
+import { PrefabLibrary } from '../prefabs/PrefabLibrary';
+import { SceneMemberComponent } from '../components/SceneMemberComponent';
+import { PrefabInstanceComponent } from '../components/PrefabInstanceComponent';
+import { SceneDefinition, SceneEntity } from './SceneDefinition';
+import { AssetManager } from '../../core/assets/AssetManager';
+
+/**
+ * Options for building a scene
+ */
+export interface SceneBuildOptions {
+  /**
+   * Tag the entities with a SceneMemberComponent, so the scene can be
+   * unloaded with SerializationSystem.unloadScene
+   */
+  sceneId?: string;
+}
+
+/**
+ * Entity of a scene with its place in the hierarchy
+ * Plain entities get positive IDs; prefab entities get negative IDs, so
+ * references to them can't be confused with real entity IDs
+ */
+interface SceneNode {
+  entity: SceneEntity;
+  id: number;
+  parentId: number | null;
+}
+
+/**
+ * Build the entities of a scene into a world
+ * @param definition The scene
+ * @param world The world to build the scene into
+ * @param options Build options
+ * @returns The top-level entities of the scene
+ * @throws Error if component data can't be migrated or a prefab is invalid
+ */
+export function buildScene(definition: SceneDefinition, world: IWorld, options: SceneBuildOptions = {}): IEntity[] {
+  // Make the referenced assets loadable by ID
+  const assets = AssetManager.getInstance();
+  for (const descriptor of definition.assets || []) {
+    assets.registerAsset(descriptor);
+  }
+
+  const nodes = flattenEntities(definition.entities);
+
+  const idsByName: Map<string, number> = new Map();
+  for (const node of nodes) {
+    if (node.entity.name && !idsByName.has(node.entity.name)) {
+      idsByName.set(node.entity.name, node.id);
+    }
+  }
+
+  const built: Map<number, IEntity> = new Map();
+
+  // Converts component data to the current versions, with references by name resolved
+  const toComponentsData = (node: SceneNode): Record<string, unknown[]> => {
+    const componentsData: Record<string, unknown[]> = {};
+
+    for (const [typeId, value] of Object.entries(node.entity.components || {})) {
+      const version = world.getComponentVersion(typeId);
+      const dataVersion = definition.componentVersions ? definition.componentVersions[typeId] : undefined;
+
+      componentsData[typeId] = (Array.isArray(value) ? value : [value]).map(data => {
+        data = resolveNames(data, name => {
+          const id = idsByName.get(name);
+          if (id === undefined) {
+            console.warn(`Entity ${name} referenced in scene ${definition.name} not found`);
+            return null;
+          }
+
+          const entity = built.get(id);
+          return entity ? createEntityRef(entity) : { id, generation: 0 };
+        });
+
+        return version !== null && dataVersion !== undefined
+          ? MigrationRegistry.getInstance().migrateComponent(typeId, data, dataVersion, version)
+          : data;
+      });
+    }
+
+    return componentsData;
+  };
+
+  // Create the plain entities in one go, so references between them are remapped
+  const plainNodes = nodes.filter(node => !node.entity.prefab);
+  const entitiesData = plainNodes.map(node => ({
+    id: node.id,
+    generation: 0,
+    name: node.entity.name,
+    active: node.entity.active !== false,
+    parentId: node.parentId !== null && node.parentId > 0 ? node.parentId : null,
+    components: toComponentsData(node)
+  }));
+
+  world.deserializeEntities(entitiesData, true).forEach((entity, index) => {
+    built.set(plainNodes[index].id, entity);
+  });
+
+  // Instantiate the prefabs; parents come before their children
+  for (const node of nodes) {
+    if (!node.entity.prefab) continue;
+
+    const root = PrefabLibrary.getInstance().instantiate(node.entity.prefab, world, node.entity.overrides || []);
+    if (!root) {
+      console.warn(`Prefab ${node.entity.prefab} used in scene ${definition.name} not found`);
+      continue;
+    }
+    built.set(node.id, root);
+
+    if (node.entity.name) {
+      world.renameEntity(root, node.entity.name);
+    }
+    if (node.entity.active !== undefined) {
+      root.active = node.entity.active;
+    }
+
+    if (node.entity.components) {
+      applyPrefabComponents(root, toComponentsData(node), world);
+    }
+  }
+
+  // Attach the entities to parents that were instantiated from prefabs
+  for (const node of nodes) {
+    const entity = built.get(node.id);
+    const parent = node.parentId !== null ? built.get(node.parentId) : undefined;
+
+    if (entity && parent && entity.getParent() !== parent) {
+      entity.setParent(parent, false);
+    }
+  }
+
+  // Point references to prefab entities at the instances
+  const remap: EntityRefRemapper = (ref: EntityRef) => {
+    if (ref.id >= 0) return ref;
+
+    const entity = built.get(ref.id);
+    return entity ? createEntityRef(entity) : null;
+  };
+
+  built.forEach(entity => {
+    entity.getAllComponents().forEach(component => {
+      if (component.remapEntityRefs) {
+        component.remapEntityRefs(remap);
+      }
+    });
+  });
+
+  // Tag everything the scene created, including the entities of prefab instances
+  if (options.sceneId) {
+    const created = new Set<IEntity>();
+    built.forEach(entity => {
+      created.add(entity);
+      entity.getDescendants().forEach(descendant => created.add(descendant));
+    });
+
+    created.forEach(entity => {
+      const member = entity.getComponent(SceneMemberComponent);
+      if (member) {
+        member.sceneId = options.sceneId!;
+      } else {
+        entity.addComponent(new SceneMemberComponent(options.sceneId));
+      }
+    });
+  }
+
+  return nodes
+    .filter(node => node.parentId === null && built.has(node.id))
+    .map(node => built.get(node.id)!);
+}
+
+/**
+ * List the entities of a scene with their hierarchy, parents first
+ * @param entities The top-level entities
+ */
+function flattenEntities(entities: SceneEntity[]): SceneNode[] {
+  const nodes: SceneNode[] = [];
+  let plainCount = 0;
+  let prefabCount = 0;
+
+  const visit = (entity: SceneEntity, parentId: number | null): void => {
+    const id = entity.prefab ? -(++prefabCount) : ++plainCount;
+    nodes.push({ entity, id, parentId });
+
+    for (const child of entity.children || []) {
+      visit(child, id);
+    }
+  };
+
+  entities.forEach(entity => visit(entity, null));
+  return nodes;
+}
+
+/**
+ * Copy component data with { "$entity": name } replaced by entity references
+ * @param data The component data
+ * @param resolve Maps an entity name to a reference
+ */
+function resolveNames(data: unknown, resolve: (name: string) => EntityRef | null): unknown {
+  if (Array.isArray(data)) {
+    return data.map(item => resolveNames(item, resolve));
+  }
+  if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+
+  const object = data as Record<string, unknown>;
+  if (typeof object.$entity === 'string' && Object.keys(object).length === 1) {
+    return resolve(object.$entity);
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(object)) {
+    copy[key] = resolveNames(value, resolve);
+  }
+  return copy;
+}
+
+/**
+ * Apply component data to the root of a prefab instance
+ * Properties of components the prefab has become overrides of the instance,
+ * so they survive prefab updates; other components are added to the root
+ * @param root Root entity of the instance
+ * @param componentsData Component data by type id
+ * @param world The world the types are registered in
+ */
+function applyPrefabComponents(root: IEntity, componentsData: Record<string, unknown[]>, world: IWorld): void {
+  const instance = root.getComponent(PrefabInstanceComponent);
+  const rootKey = instance
+    ? Object.keys(instance.nodes).find(key => world.resolveEntityRef(instance.nodes[key]) === root)
+    : undefined;
+
+  // Prefabs without definition can only be changed directly
+  if (!instance || rootKey === undefined) {
+    applyComponents(root, componentsData, world);
+    return;
+  }
+
+  let overridden = false;
+
+  for (const [typeId, dataList] of Object.entries(componentsData)) {
+    const componentClass = world.getComponentClass(typeId);
+    const count = componentClass ? root.getComponents(componentClass).length : 0;
+
+    dataList.forEach((data, index) => {
+      if (index >= count) return;
+
+      forEachLeaf(data, '', (property, value) => {
+        instance.overrides.push({ node: rootKey, component: typeId, index, property, value });
+        overridden = true;
+      });
+    });
+  }
+
+  if (overridden) {
+    PrefabLibrary.getInstance().updateInstance(root);
+  }
+
+  // Updates keep the transform of the root, so apply the data directly as well
+  applyComponents(root, componentsData, world);
+}
+
+/**
+ * Call a function for each leaf property of component data
+ * Arrays and entity references count as leaves
+ * @param data The data
+ * @param path Path of the data
+ * @param callback Called with the dot separated path and value of each leaf
+ */
+function forEachLeaf(data: unknown, path: string, callback: (property: string, value: unknown) => void): void {
+  if (typeof data === 'object' && data !== null && !Array.isArray(data) && !isEntityRef(data)) {
+    for (const [key, value] of Object.entries(data)) {
+      forEachLeaf(value, path ? `${path}.${key}` : key, callback);
+    }
+  } else if (path) {
+    callback(path, data);
+  }
+}
+
+/**
+ * Apply component data to an entity, merging into its existing components
+ * @param entity The entity
+ * @param componentsData Component data by type id
+ * @param world The world the types are registered in
+ */
+function applyComponents(entity: IEntity, componentsData: Record<string, unknown[]>, world: IWorld): void {
+  for (const [typeId, dataList] of Object.entries(componentsData)) {
+    const componentClass = world.getComponentClass(typeId);
+    if (!componentClass) {
+      console.warn(`Skipping unregistered component type: ${typeId}`);
+      continue;
+    }
+
+    const components = entity.getComponents(componentClass);
+    dataList.forEach((data, index) => {
+      if (index < components.length) {
+        components[index].deserialize(data);
+      } else {
+        const component = new componentClass();
+        component.deserialize(data);
+        entity.addComponent(component);
+      }
+    });
+  }
+}
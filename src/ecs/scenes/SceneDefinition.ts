@@ -0,0 +1,89 @@
+import type { AssetDescriptor } from '../../core/assets/AssetManager';
+import { PrefabOverride } from '../prefabs/PrefabDefinition';
+
+/**
+ * Entity of a scene file
+ */
+export interface SceneEntity {
+  /**
+   * Entity name, also used to reference the entity from components
+   */
+  name?: string;
+
+  /**
+   * Whether the entity is active (default: true)
+   */
+  active?: boolean;
+
+  /**
+   * Components by type id, as one object or a list of objects per type
+   * The data has the format written by the component's serialize; missing
+   * properties keep their defaults. Entity references are written as
+   * { "$entity": "<name>" }.
+   */
+  components?: Record<string, unknown>;
+
+  /**
+   * Name of a prefab to instantiate as this entity
+   * Components of a prefab entity are applied to the instance root and kept
+   * as overrides of the instance.
+   */
+  prefab?: string;
+
+  /**
+   * Overrides of the prefab instance
+   */
+  overrides?: PrefabOverride[];
+
+  /**
+   * Child entities
+   */
+  children?: SceneEntity[];
+}
+
+/**
+ * Scene as stored in scene files
+ */
+export interface SceneDefinition {
+  /**
+   * Name of the scene
+   */
+  name: string;
+
+  /**
+   * Schema version of each component type in the scene, by type id
+   * Missing entries are treated as the current version, so hand-written
+   * scenes don't need them
+   */
+  componentVersions?: Record<string, number>;
+
+  /**
+   * Assets the scene references, registered so they are loaded on demand
+   */
+  assets?: AssetDescriptor[];
+
+  /**
+   * The top-level entities
+   */
+  entities: SceneEntity[];
+}
+
+/**
+ * Check if a value is a scene definition, e.g. when loading scene files
+ * @param value The value to check
+ */
+export function isSceneDefinition(value: unknown): value is SceneDefinition {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const definition = value as Record<string, unknown>;
+  if (typeof definition.name !== 'string' || !Array.isArray(definition.entities)) return false;
+
+  const isEntity = (entity: unknown): boolean => {
+    if (typeof entity !== 'object' || entity === null) return false;
+
+    const children = (entity as Record<string, unknown>).children;
+    return children === undefined || (Array.isArray(children) && children.every(isEntity));
+  };
+
+  return definition.entities.every(isEntity);
+}
@@ -0,0 +1,51 @@
+import { IWorld, RunCondition } from '../types';
+import { ServiceManager } from '../../core/services/ServiceManager';
+import type { Engine } from '../../core/Engine';
+
+/**
+ * Common run conditions for systems
+ *
+ * ```typescript
+ * world.registerSystem(
+ *   new EnemyAISystem()
+ *     .runIf(RunConditions.unpaused())
+ *     .runIf(RunConditions.whileState('pathState'))
+ * );
+ * ```
+ */
+export class RunConditions {
+  /**
+   * Run only while the world is not paused
+   */
+  public static unpaused(): RunCondition {
+    return (world: IWorld) => !world.isPaused();
+  }
+
+  /**
+   * Run only while the given state is the engine's current state
+   * @param stateName Name of the state
+   */
+  public static whileState(stateName: string): RunCondition {
+    return () => {
+      const engine = ServiceManager.getInstance().get<Engine>('engine');
+      const currentState = engine ? engine.getStateManager().getCurrentState() : null;
+      return !!currentState && currentState.getName() === stateName;
+    };
+  }
+
+  /**
+   * Invert a run condition
+   * @param condition The condition to invert
+   */
+  public static not(condition: RunCondition): RunCondition {
+    return (world: IWorld) => !condition(world);
+  }
+
+  /**
+   * Run when at least one of the given conditions holds
+   * @param conditions The conditions to combine
+   */
+  public static any(...conditions: RunCondition[]): RunCondition {
+    return (world: IWorld) => conditions.some(condition => condition(world));
+  }
+}
@@ -0,0 +1,184 @@
+import { ISystem, SystemClass } from '../types';
+
+/**
+ * Named phases systems run in, in execution order
+ * Both World.update and World.render walk the phases in this order
+ */
+export enum SystemPhase {
+  PRE_UPDATE = 'preUpdate',
+  UPDATE = 'update',
+  POST_UPDATE = 'postUpdate',
+  PRE_RENDER = 'preRender',
+}
+
+/**
+ * Phases in execution order
+ */
+export const SYSTEM_PHASE_ORDER: SystemPhase[] = [
+  SystemPhase.PRE_UPDATE,
+  SystemPhase.UPDATE,
+  SystemPhase.POST_UPDATE,
+  SystemPhase.PRE_RENDER,
+];
+
+/**
+ * Get a readable name for a system
+ * @param system The system
+ */
+function getSystemName(system: ISystem): string {
+  return system.constructor.name;
+}
+
+/**
+ * Get the phase of a system, defaulting to UPDATE
+ * @param system The system
+ */
+export function getSystemPhase(system: ISystem): SystemPhase {
+  return system.phase || SystemPhase.UPDATE;
+}
+
+/**
+ * Order systems for execution
+ *
+ * Systems are grouped by phase. Within a phase, `before`/`after` constraints
+ * are resolved with a topological sort; systems without constraints between
+ * them run by priority (higher first), then by registration order.
+ * Constraints naming system classes that aren't registered are ignored.
+ *
+ * @param systems The systems in registration order
+ * @returns The systems in execution order
+ * @throws Error if the constraints contain a cycle or contradict the phase order
+ */
+export function scheduleSystems(systems: ISystem[]): ISystem[] {
+  // Build the edge list: an edge a -> b means a must run before b
+  const successors: Map<ISystem, Set<ISystem>> = new Map();
+  systems.forEach(system => successors.set(system, new Set()));
+
+  const instancesOf = (systemClass: SystemClass): ISystem[] =>
+    systems.filter(system => system instanceof systemClass);
+
+  const addEdge = (from: ISystem, to: ISystem): void => {
+    if (from === to) return;
+
+    const fromPhase = SYSTEM_PHASE_ORDER.indexOf(getSystemPhase(from));
+    const toPhase = SYSTEM_PHASE_ORDER.indexOf(getSystemPhase(to));
+
+    if (fromPhase > toPhase) {
+      throw new Error(
+        `${getSystemName(from)} (phase ${getSystemPhase(from)}) must run before ` +
+        `${getSystemName(to)} (phase ${getSystemPhase(to)}), which contradicts the phase order`
+      );
+    }
+
+    // Systems in earlier phases already run first
+    if (fromPhase === toPhase) {
+      successors.get(from)!.add(to);
+    }
+  };
+
+  for (const system of systems) {
+    for (const systemClass of system.before || []) {
+      instancesOf(systemClass).forEach(other => addEdge(system, other));
+    }
+    for (const systemClass of system.after || []) {
+      instancesOf(systemClass).forEach(other => addEdge(other, system));
+    }
+  }
+
+  const ordered: ISystem[] = [];
+
+  for (const phase of SYSTEM_PHASE_ORDER) {
+    const phaseSystems = systems.filter(system => getSystemPhase(system) === phase);
+    ordered.push(...sortPhase(phaseSystems, systems, successors));
+  }
+
+  return ordered;
+}
+
+/**
+ * Topologically sort the systems of one phase
+ * @param phaseSystems The systems of the phase
+ * @param allSystems All systems in registration order, used for tie-breaking
+ * @param successors Ordering edges between systems
+ * @returns The sorted systems
+ */
+function sortPhase(
+  phaseSystems: ISystem[],
+  allSystems: ISystem[],
+  successors: Map<ISystem, Set<ISystem>>
+): ISystem[] {
+  const inDegree: Map<ISystem, number> = new Map();
+  phaseSystems.forEach(system => inDegree.set(system, 0));
+  phaseSystems.forEach(system => {
+    successors.get(system)!.forEach(next => inDegree.set(next, inDegree.get(next)! + 1));
+  });
+
+  // Ready systems sorted by priority (higher first), then registration order
+  const compare = (a: ISystem, b: ISystem): number =>
+    (b.priority - a.priority) || (allSystems.indexOf(a) - allSystems.indexOf(b));
+
+  const ready = phaseSystems.filter(system => inDegree.get(system) === 0).sort(compare);
+  const sorted: ISystem[] = [];
+
+  while (ready.length > 0) {
+    const system = ready.shift()!;
+    sorted.push(system);
+
+    successors.get(system)!.forEach(next => {
+      const degree = inDegree.get(next)! - 1;
+      inDegree.set(next, degree);
+      if (degree === 0) {
+        ready.push(next);
+        ready.sort(compare);
+      }
+    });
+  }
+
+  if (sorted.length < phaseSystems.length) {
+    const remaining = phaseSystems.filter(system => !sorted.includes(system));
+    const cycle = findCycle(remaining, successors);
+    throw new Error(
+      `System dependency cycle detected: ${cycle.map(getSystemName).join(' -> ')}`
+    );
+  }
+
+  return sorted;
+}
+
+/**
+ * Find a cycle among systems that could not be sorted
+ * @param remaining Systems left over by the topological sort
+ * @param successors Ordering edges between systems
+ * @returns The systems forming the cycle, with the first system repeated at the end
+ */
+function findCycle(remaining: ISystem[], successors: Map<ISystem, Set<ISystem>>): ISystem[] {
+  const path: ISystem[] = [];
+  const visited: Set<ISystem> = new Set();
+
+  const visit = (system: ISystem): ISystem[] | null => {
+    const index = path.indexOf(system);
+    if (index !== -1) {
+      return [...path.slice(index), system];
+    }
+    if (visited.has(system)) return null;
+
+    visited.add(system);
+    path.push(system);
+
+    for (const next of successors.get(system)!) {
+      if (!remaining.includes(next)) continue;
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+
+    path.pop();
+    return null;
+  };
+
+  for (const system of remaining) {
+    const cycle = visit(system);
+    if (cycle) return cycle;
+  }
+
+  return remaining;
+}
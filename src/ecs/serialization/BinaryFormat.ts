@@ -0,0 +1,364 @@
+/**
+ * Compact binary encoding of JSON-compatible data such as save files
+ *
+ * Layout: the magic bytes and codec version, then the tagged root value.
+ * Every string (entity names, component type ids, object keys...) is written
+ * in full where it first appears and referenced by index after that, so
+ * repeated keys cost a byte or two. Decoding gives the same result as a JSON
+ * round trip of the input, including a __proto__ key becoming an own property.
+ *
+ * The output is much smaller than JSON, but encoding and decoding run in
+ * JavaScript and are slower than the native JSON.stringify and JSON.parse.
+ * Use it where size matters more than speed, e.g. for save files.
+ */
+
+/**
+ * Magic bytes at the start of binary data ("FWB")
+ */
+const MAGIC = [0x46, 0x57, 0x42];
+
+/**
+ * Version of the binary layout (not the save format version, which is part of the data)
+ */
+const CODEC_VERSION = 1;
+
+/**
+ * Largest integer magnitude written as a zigzag varint
+ * Zigzag encoding doubles the magnitude, which must stay a safe integer
+ */
+const MAX_ZIGZAG_INT = Math.floor(Number.MAX_SAFE_INTEGER / 2);
+
+/**
+ * Value tags
+ */
+enum Tag {
+  NULL = 0,
+  FALSE = 1,
+  TRUE = 2,
+  INT = 3,
+  FLOAT = 4,
+  STRING = 5,
+  ARRAY = 6,
+  OBJECT = 7,
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private length: number = 0;
+
+  /**
+   * @param capacity Initial size of the buffer, which doubles when full
+   */
+  constructor(capacity: number = 16384) {
+    this.bytes = new Uint8Array(capacity);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  /**
+   * Make room for n more bytes
+   */
+  private reserve(n: number): void {
+    if (this.length + n <= this.bytes.length) return;
+
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + n) capacity *= 2;
+
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  public writeByte(value: number): void {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  /**
+   * Write a non-negative integer (up to 2^53) as a LEB128 varint
+   */
+  public writeVarUint(value: number): void {
+    // 2^53 fits in 8 bytes of 7 bits
+    this.reserve(8);
+    while (value >= 0x80) {
+      this.bytes[this.length++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  public writeFloat64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  public writeBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /**
+   * Get the written bytes
+   */
+  public finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Sequential reader over a byte array
+ */
+class ByteReader {
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Whether all bytes have been read
+   */
+  public get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  private require(n: number): void {
+    if (this.offset + n > this.bytes.length) {
+      throw new Error('Unexpected end of binary data');
+    }
+  }
+
+  public readByte(): number {
+    this.require(1);
+    return this.bytes[this.offset++];
+  }
+
+  public readVarUint(): number {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+
+    do {
+      byte = this.readByte();
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 0x80;
+    } while (byte & 0x80);
+
+    return value;
+  }
+
+  public readFloat64(): number {
+    this.require(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  public readBytes(n: number): Uint8Array {
+    this.require(n);
+    const bytes = this.bytes.subarray(this.offset, this.offset + n);
+    this.offset += n;
+    return bytes;
+  }
+}
+
+/**
+ * Check if an object property is kept when encoding (JSON drops the others)
+ */
+function isEncodable(value: unknown): boolean {
+  return value !== undefined && typeof value !== 'function';
+}
+
+/**
+ * Set an object property like JSON.parse does
+ * Assigning __proto__ would replace the prototype, so it becomes an own property instead
+ */
+function setProperty(object: Record<string, unknown>, key: string, value: unknown): void {
+  if (key === '__proto__') {
+    Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+  } else {
+    object[key] = value;
+  }
+}
+
+/**
+ * Check if data is in the binary format
+ * @param bytes The data to check
+ */
+export function isBinaryData(bytes: Uint8Array): boolean {
+  return bytes.length > MAGIC.length && MAGIC.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Encode JSON-compatible data
+ * Values JSON can't represent are converted like JSON.stringify does
+ * (undefined and functions are dropped from objects and become null in arrays,
+ * non-finite numbers become null)
+ * @param value The value to encode
+ * @returns The binary data
+ */
+export function encodeBinary(value: unknown): Uint8Array {
+  const strings = new Map<string, number>();
+  const encoder = new TextEncoder();
+  const writer = new ByteWriter();
+
+  const writeString = (text: string): void => {
+    const index = strings.get(text);
+    if (index !== undefined) {
+      writer.writeVarUint(index + 1);
+      return;
+    }
+
+    // First appearance: 0, then the length-prefixed UTF-8 bytes
+    strings.set(text, strings.size);
+    const bytes = encoder.encode(text);
+    writer.writeVarUint(0);
+    writer.writeVarUint(bytes.length);
+    writer.writeBytes(bytes);
+  };
+
+  const writeValue = (item: unknown): void => {
+    if (item === null || item === undefined || typeof item === 'function') {
+      writer.writeByte(Tag.NULL);
+    } else if (typeof item === 'boolean') {
+      writer.writeByte(item ? Tag.TRUE : Tag.FALSE);
+    } else if (typeof item === 'number') {
+      if (!isFinite(item)) {
+        writer.writeByte(Tag.NULL);
+      } else if (Number.isInteger(item) && Math.abs(item) <= MAX_ZIGZAG_INT) {
+        // Zigzag encode so small negative numbers stay small
+        writer.writeByte(Tag.INT);
+        writer.writeVarUint(item >= 0 ? item * 2 : -item * 2 - 1);
+      } else {
+        writer.writeByte(Tag.FLOAT);
+        writer.writeFloat64(item);
+      }
+    } else if (typeof item === 'string') {
+      writer.writeByte(Tag.STRING);
+      writeString(item);
+    } else if (Array.isArray(item)) {
+      writer.writeByte(Tag.ARRAY);
+      writer.writeVarUint(item.length);
+      item.forEach(writeValue);
+    } else if (typeof item === 'object') {
+      const object = item as Record<string, unknown>;
+      const keys = Object.keys(object);
+
+      let count = 0;
+      for (const key of keys) {
+        if (isEncodable(object[key])) count++;
+      }
+
+      writer.writeByte(Tag.OBJECT);
+      writer.writeVarUint(count);
+      for (const key of keys) {
+        const entry = object[key];
+        if (!isEncodable(entry)) continue;
+
+        writeString(key);
+        writeValue(entry);
+      }
+    } else {
+      throw new Error(`Cannot encode value of type ${typeof item}`);
+    }
+  };
+
+  MAGIC.forEach(byte => writer.writeByte(byte));
+  writer.writeByte(CODEC_VERSION);
+  writeValue(value);
+
+  return writer.finish();
+}
+
+/**
+ * Decode data written by encodeBinary
+ * @param bytes The binary data
+ * @returns The decoded value
+ * @throws Error if the data isn't valid binary data
+ */
+export function decodeBinary(bytes: Uint8Array): unknown {
+  if (!isBinaryData(bytes)) {
+    throw new Error('Not binary save data');
+  }
+
+  const reader = new ByteReader(bytes);
+  reader.readBytes(MAGIC.length);
+
+  const version = reader.readByte();
+  if (version !== CODEC_VERSION) {
+    throw new Error(`Unsupported binary codec version ${version}`);
+  }
+
+  // Strings in order of their first appearance
+  const decoder = new TextDecoder();
+  const strings: string[] = [];
+
+  const readString = (): string => {
+    const reference = reader.readVarUint();
+    if (reference === 0) {
+      const text = decoder.decode(reader.readBytes(reader.readVarUint()));
+      strings.push(text);
+      return text;
+    }
+
+    if (reference > strings.length) {
+      throw new Error(`Invalid string index ${reference - 1}`);
+    }
+    return strings[reference - 1];
+  };
+
+  const readValue = (): unknown => {
+    const tag = reader.readByte();
+
+    switch (tag) {
+      case Tag.NULL:
+        return null;
+      case Tag.FALSE:
+        return false;
+      case Tag.TRUE:
+        return true;
+      case Tag.INT: {
+        const zigzag = reader.readVarUint();
+        return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+      }
+      case Tag.FLOAT:
+        return reader.readFloat64();
+      case Tag.STRING:
+        return readString();
+      case Tag.ARRAY: {
+        const length = reader.readVarUint();
+        const array: unknown[] = [];
+        for (let i = 0; i < length; i++) {
+          array.push(readValue());
+        }
+        return array;
+      }
+      case Tag.OBJECT: {
+        const count = reader.readVarUint();
+        const object: Record<string, unknown> = {};
+        for (let i = 0; i < count; i++) {
+          const key = readString();
+          setProperty(object, key, readValue());
+        }
+        return object;
+      }
+      default:
+        throw new Error(`Invalid value tag ${tag}`);
+    }
+  };
+
+  const value = readValue();
+
+  if (!reader.done) {
+    throw new Error('Unexpected trailing binary data');
+  }
+
+  return value;
+}
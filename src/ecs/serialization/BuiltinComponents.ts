@@ -0,0 +1,96 @@
+import { ComponentClass, IWorld } from '../types';
+import { MigrationRegistry } from './MigrationRegistry';
+import { ThreeObject } from '../components/ThreeObject';
+import { MeshComponent } from '../components/MeshComponent';
+import { MaterialComponent } from '../components/MaterialComponent';
+import { CameraComponent } from '../components/CameraComponent';
+import { AnimationComponent } from '../components/AnimationComponent';
+import { ConstraintComponent, ConstraintType } from '../components/ConstraintComponent';
+import { CurveComponent } from '../components/CurveComponent';
+import { LightComponent } from '../components/LightComponent';
+import { PrefabInstanceComponent } from '../components/PrefabInstanceComponent';
+import { SceneMemberComponent } from '../components/SceneMemberComponent';
+import { ShaderMaterialComponent } from '../components/ShaderMaterialComponent';
+
+/**
+ * Built-in components with their stable type ids and current schema versions
+ * Type ids are written to save files and must never change once released.
+ * Built on demand: component modules import the World, so the classes may not
+ * be defined yet while this module is evaluated.
+ */
+const builtinComponents = (): Array<[string, ComponentClass, number]> => [
+  ['ThreeObject', ThreeObject, 2],
+  ['MeshComponent', MeshComponent, 3],
+  ['MaterialComponent', MaterialComponent, 3],
+  ['CameraComponent', CameraComponent, 1],
+  ['AnimationComponent', AnimationComponent, 2],
+  ['ConstraintComponent', ConstraintComponent, 2],
+  ['CurveComponent', CurveComponent, 1],
+  ['LightComponent', LightComponent, 3],
+  ['PrefabInstance', PrefabInstanceComponent, 1],
+  ['SceneMember', SceneMemberComponent, 1],
+  ['ShaderMaterial', ShaderMaterialComponent, 1],
+];
+
+/**
+ * Register the built-in components and their migrations with a world
+ * @param world The world to register the components with
+ */
+export function registerBuiltinComponents(world: IWorld): void {
+  for (const [typeId, componentClass, version] of builtinComponents()) {
+    world.registerComponent(typeId, componentClass, version);
+  }
+
+  const migrations = MigrationRegistry.getInstance();
+
+  // Version 2 added the local transform; older data keeps the default transform.
+  // The children moved to the entity's parentId (see the format 1 migration)
+  migrations.registerComponentMigration('ThreeObject', 1, ({ childrenIds, ...rest }) => rest);
+
+  // Version 2 references models and textures by asset ID; older data only
+  // recorded whether there was one, so the reference is lost
+  migrations.registerComponentMigration('MeshComponent', 1, ({ hasSkeleton, ...rest }) => ({
+    ...rest,
+    model: null,
+    skeleton: null
+  }));
+  migrations.registerComponentMigration('MaterialComponent', 1, data => {
+    const { hasTexture, ...options } = asRecord(data.options);
+    return { ...data, options: { ...options, map: null } };
+  });
+  migrations.registerComponentMigration('AnimationComponent', 1, data => ({ ...data, animations: null }));
+
+  // Version 2 added directional, spot and hemisphere lights; older data only has point lights
+  migrations.registerComponentMigration('LightComponent', 1, data => data);
+
+  // Version 3 added shadow settings; older data doesn't cast or receive shadows
+  migrations.registerComponentMigration('LightComponent', 2, data => data);
+  migrations.registerComponentMigration('MeshComponent', 2, data => data);
+
+  // Version 3 added material kinds; older data is a Lambert material
+  migrations.registerComponentMigration('MaterialComponent', 2, data => data);
+
+  // Version 2 replaced raw entity IDs with entity references
+  migrations.registerComponentMigration('ConstraintComponent', 1, data => ({
+    ...data,
+    constraints: (Array.isArray(data.constraints) ? data.constraints : []).map((constraintData: unknown) => {
+      const constraint = asRecord(constraintData);
+      const { targetEntityId, pathEntityId, ...rest } = constraint;
+
+      if (constraint.type === ConstraintType.TRACK_TO) {
+        return { ...rest, target: typeof targetEntityId === 'number' ? { id: targetEntityId, generation: 0 } : null };
+      }
+      if (constraint.type === ConstraintType.PATH_FOLLOW) {
+        return { ...rest, path: typeof pathEntityId === 'number' ? { id: pathEntityId, generation: 0 } : null };
+      }
+      return constraintData;
+    })
+  }));
+}
+
+/**
+ * Read a serialized value as an object, treating anything else as empty
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
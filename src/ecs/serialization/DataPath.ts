@@ -0,0 +1,49 @@
+/**
+ * Helpers for addressing fields of serialized data by dot separated paths
+ * (e.g. "position.x"), as used by prefab overrides and world patches
+ */
+
+/**
+ * Path segments that would reach or replace an object's prototype
+ */
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Check if a property path only addresses the data's own fields
+ * @param path Dot separated property path
+ */
+export function isSafeDataPath(path: string): boolean {
+  return path.split('.').every(segment => segment !== '' && !UNSAFE_SEGMENTS.has(segment));
+}
+
+/**
+ * Set a property of serialized data, creating missing objects along the path
+ * Paths that are empty or go through __proto__, constructor or prototype are
+ * ignored with a warning.
+ * @param data The data
+ * @param path Dot separated property path
+ * @param value The new value
+ * @returns True if the property was set
+ */
+export function setDataProperty(data: unknown, path: string, value: unknown): boolean {
+  if (typeof data !== 'object' || data === null) return false;
+
+  if (!isSafeDataPath(path)) {
+    console.warn(`Ignoring invalid property path: ${path}`);
+    return false;
+  }
+
+  const keys = path.split('.');
+  let target = data as Record<string, unknown>;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const next = target[keys[i]];
+    if (typeof next !== 'object' || next === null) {
+      target[keys[i]] = {};
+    }
+    target = target[keys[i]] as Record<string, unknown>;
+  }
+
+  target[keys[keys.length - 1]] = value;
+  return true;
+}
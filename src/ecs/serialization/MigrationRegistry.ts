@@ -0,0 +1,250 @@
+import { SAVE_FORMAT_VERSION, SaveFile, SerializedWorld } from './SaveFormat';
+
+/**
+ * Upgrades a whole save file from one format version to the next
+ */
+export type FormatMigration = (file: SaveFile) => SaveFile;
+
+/**
+ * Upgrades the serialized data of one component from one schema version to the next
+ */
+export type ComponentMigration = (data: Record<string, unknown>) => unknown;
+
+/**
+ * Type ids of the components version 1 files could contain, by the class name they were keyed by
+ * Class names are only known for unminified builds; minified builds wrote mangled
+ * names, which can't be mapped back to a component
+ */
+const V1_COMPONENT_TYPE_IDS: Record<string, string> = {
+  ThreeObject: 'ThreeObject',
+  MeshComponent: 'MeshComponent',
+  MaterialComponent: 'MaterialComponent',
+  CameraComponent: 'CameraComponent',
+  AnimationComponent: 'AnimationComponent',
+  ConstraintComponent: 'ConstraintComponent',
+  CurveComponent: 'CurveComponent',
+  LightComponent: 'LightComponent'
+};
+
+/**
+ * Registry of migrations used to load save files written by earlier builds
+ *
+ * Format migrations upgrade the file layout one version at a time up to
+ * SAVE_FORMAT_VERSION. Component migrations upgrade the data of a single
+ * component type one schema version at a time up to the version the
+ * component is registered with in the world.
+ */
+export class MigrationRegistry {
+  private static instance: MigrationRegistry;
+
+  /**
+   * Format migrations by the version they upgrade from
+   */
+  private formatMigrations: Map<number, FormatMigration> = new Map();
+
+  /**
+   * Component migrations by type id, then by the version they upgrade from
+   */
+  private componentMigrations: Map<string, Map<number, ComponentMigration>> = new Map();
+
+  /**
+   * Private constructor (use getInstance instead)
+   */
+  private constructor() {
+    // Version 1 files keyed components by class name and had no schema versions (all version 1)
+    this.registerFormatMigration(1, file => ({
+      ...file,
+      formatVersion: 2,
+      data: {
+        componentVersions: {},
+        entities: migrateV1Entities(Array.isArray(file.data.entities) ? file.data.entities : [])
+      }
+    }));
+  }
+
+  /**
+   * Get the MigrationRegistry instance
+   */
+  public static getInstance(): MigrationRegistry {
+    if (!MigrationRegistry.instance) {
+      MigrationRegistry.instance = new MigrationRegistry();
+    }
+    return MigrationRegistry.instance;
+  }
+
+  /**
+   * Register a migration of the save file format
+   * @param fromVersion The format version the migration upgrades from (to fromVersion + 1)
+   * @param migration The migration
+   */
+  public registerFormatMigration(fromVersion: number, migration: FormatMigration): void {
+    this.formatMigrations.set(fromVersion, migration);
+  }
+
+  /**
+   * Register a migration of a component's serialized data
+   * @param typeId The stable type id of the component
+   * @param fromVersion The schema version the migration upgrades from (to fromVersion + 1)
+   * @param migration The migration
+   */
+  public registerComponentMigration(typeId: string, fromVersion: number, migration: ComponentMigration): void {
+    let migrations = this.componentMigrations.get(typeId);
+    if (!migrations) {
+      migrations = new Map();
+      this.componentMigrations.set(typeId, migrations);
+    }
+
+    migrations.set(fromVersion, migration);
+  }
+
+  /**
+   * Upgrade a save file to the current format and component schema versions
+   * @param file The parsed save file
+   * @param getComponentVersion Gets the current schema version of a component type, or null if unknown
+   * @returns The upgraded world data
+   * @throws Error if the file is newer than this build or a migration is missing
+   */
+  public migrate(file: SaveFile, getComponentVersion: (typeId: string) => number | null): SerializedWorld {
+    let formatVersion = typeof file.formatVersion === 'number' ? file.formatVersion : 1;
+
+    if (formatVersion > SAVE_FORMAT_VERSION) {
+      throw new Error(`Save format version ${formatVersion} is newer than the supported version ${SAVE_FORMAT_VERSION}`);
+    }
+
+    // Upgrade the file layout
+    while (formatVersion < SAVE_FORMAT_VERSION) {
+      const migration = this.formatMigrations.get(formatVersion);
+      if (!migration) {
+        throw new Error(`No migration from save format version ${formatVersion}`);
+      }
+
+      file = migration(file);
+      formatVersion++;
+    }
+
+    // Upgrade the component data
+    const data = file.data;
+    const fileVersions = data.componentVersions || {};
+    const componentVersions: Record<string, number> = {};
+
+    for (const entityData of data.entities) {
+      if (typeof entityData !== 'object' || entityData === null) continue;
+
+      const components = (entityData as Record<string, unknown>).components;
+      if (typeof components !== 'object' || components === null) continue;
+
+      for (const [typeId, componentDataArray] of Object.entries(components as Record<string, unknown>)) {
+        if (!Array.isArray(componentDataArray)) continue;
+
+        const fromVersion = fileVersions[typeId] || 1;
+        const toVersion = getComponentVersion(typeId);
+
+        // Unknown component types are left alone; the world skips them on load
+        if (toVersion === null) continue;
+
+        componentDataArray.forEach((componentData, index) => {
+          componentDataArray[index] = this.migrateComponent(typeId, componentData, fromVersion, toVersion);
+        });
+        componentVersions[typeId] = toVersion;
+      }
+    }
+
+    return {
+      ...data,
+      componentVersions
+    };
+  }
+
+  /**
+   * Upgrade the data of one component
+   * @param typeId The stable type id of the component
+   * @param data The serialized component data
+   * @param fromVersion The schema version of the data
+   * @param toVersion The current schema version
+   * @returns The upgraded data
+   * @throws Error if the data is newer than this build or a migration is missing
+   */
+  public migrateComponent(typeId: string, data: unknown, fromVersion: number, toVersion: number): unknown {
+    if (fromVersion > toVersion) {
+      throw new Error(`${typeId} data version ${fromVersion} is newer than the supported version ${toVersion}`);
+    }
+
+    const migrations = this.componentMigrations.get(typeId);
+
+    for (let version = fromVersion; version < toVersion; version++) {
+      const migration = migrations ? migrations.get(version) : undefined;
+      if (!migration) {
+        throw new Error(`No migration for ${typeId} from version ${version}`);
+      }
+      if (!isRecord(data)) {
+        throw new Error(`Cannot migrate ${typeId} data from version ${version}: not an object`);
+      }
+
+      data = migration(data);
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Upgrade the entities of a version 1 file
+ * Components are keyed by type id instead of class name, and the hierarchy
+ * recorded in ThreeObject childrenIds moves to the children's parentId.
+ * Components keyed by unknown (e.g. minified) class names can't be migrated
+ * and are dropped with a warning.
+ * @param entities The serialized entities
+ * @returns The upgraded entities
+ */
+function migrateV1Entities(entities: unknown[]): unknown[] {
+  const unmigratable: Set<string> = new Set();
+  const parentIds: Map<number, number> = new Map();
+
+  const migrated = entities.map(entityData => {
+    if (!isRecord(entityData) || !isRecord(entityData.components)) return entityData;
+
+    const components: Record<string, unknown> = {};
+    for (const [className, componentDataArray] of Object.entries(entityData.components)) {
+      const typeId = V1_COMPONENT_TYPE_IDS[className];
+      if (typeId) {
+        components[typeId] = componentDataArray;
+      } else {
+        unmigratable.add(className);
+      }
+    }
+
+    // Children listed by a ThreeObject belong to its entity
+    const threeObjects = components.ThreeObject;
+    if (typeof entityData.id === 'number' && Array.isArray(threeObjects)) {
+      for (const threeObject of threeObjects) {
+        if (!isRecord(threeObject) || !Array.isArray(threeObject.childrenIds)) continue;
+
+        for (const childId of threeObject.childrenIds) {
+          if (typeof childId === 'number') {
+            parentIds.set(childId, entityData.id);
+          }
+        }
+      }
+    }
+
+    return { ...entityData, components };
+  });
+
+  if (unmigratable.size > 0) {
+    console.warn(`Dropping components that can't be migrated from save format version 1: ${Array.from(unmigratable).join(', ')}`);
+  }
+
+  return migrated.map(entityData => {
+    if (!isRecord(entityData) || typeof entityData.id !== 'number') return entityData;
+
+    const parentId = parentIds.get(entityData.id);
+    return { ...entityData, parentId: parentId !== undefined ? parentId : null };
+  });
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
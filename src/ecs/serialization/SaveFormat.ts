@@ -0,0 +1,113 @@
+/**
+ * Current version of the save file format
+ *
+ * History:
+ * 1. Ad-hoc JSON, components keyed by class name, no versions
+ * 2. Components keyed by stable type id, per-component schema versions
+ */
+export const SAVE_FORMAT_VERSION = 2;
+
+/**
+ * Serialized world, as produced by World.serialize
+ */
+export interface SerializedWorld {
+  /**
+   * Schema version of each component type used in the data, by type id
+   * Missing entries are treated as version 1
+   */
+  componentVersions?: Record<string, number>;
+
+  /**
+   * Serialized entities
+   */
+  entities: unknown[];
+}
+
+/**
+ * Serialized entity, as produced by Entity.serialize
+ */
+export interface SerializedEntity {
+  /**
+   * ID of the entity
+   */
+  id: number;
+
+  /**
+   * Generation of the entity; missing means 0
+   */
+  generation?: number;
+
+  /**
+   * Name of the entity
+   */
+  name?: string;
+
+  /**
+   * Whether the entity is active
+   */
+  active?: boolean;
+
+  /**
+   * ID of the parent, or null for root entities
+   */
+  parentId?: number | null;
+
+  /**
+   * Serialized components by type id
+   */
+  components?: Record<string, unknown[]>;
+}
+
+/**
+ * Check if a value of serialized data is an entity
+ * Only the ID is checked; the other fields are checked where they are used
+ * @param value The value to check
+ */
+export function isSerializedEntity(value: unknown): value is SerializedEntity {
+  return typeof value === 'object' && value !== null && typeof (value as Record<string, unknown>).id === 'number';
+}
+
+/**
+ * Save file written by SerializationSystem (saveWorld and saveScene)
+ */
+export interface SaveFile {
+  /**
+   * Version of the save file format
+   */
+  formatVersion: number;
+
+  /**
+   * Name of the scene (scene files only)
+   */
+  name?: string;
+
+  /**
+   * When the file was written (scene files only)
+   */
+  timestamp?: number;
+
+  /**
+   * The serialized world
+   */
+  data: SerializedWorld;
+}
+
+/**
+ * Encodings SerializationSystem can write save files in
+ */
+export enum SerializationFormat {
+  /**
+   * JSON string, readable and diffable
+   */
+  JSON = 'json',
+
+  /**
+   * Compact binary (see BinaryFormat), smaller and faster for frequent saves
+   */
+  BINARY = 'binary',
+}
+
+/**
+ * Encoded save file: a JSON string or binary data
+ */
+export type SaveData = string | Uint8Array;
@@ -1,6 +1,44 @@
 import { System } from '../System';
-import { IEntity, IWorld, IPrefab } from '../types';
+import { IEntity, IPrefab } from '../types';
 import { World } from '../World';
+import { MigrationRegistry } from './MigrationRegistry';
+import { SAVE_FORMAT_VERSION, SaveData, SaveFile, SerializationFormat, SerializedWorld } from './SaveFormat';
+import { decodeBinary, encodeBinary } from './BinaryFormat';
+import { PrefabLibrary } from '../prefabs/PrefabLibrary';
+import { PrefabOverride, isPrefabDefinition } from '../prefabs/PrefabDefinition';
+import { SceneMemberComponent } from '../components/SceneMemberComponent';
+import { SceneDefinition } from '../scenes/SceneDefinition';
+import { buildScene } from '../scenes/SceneBuilder';
+
+/**
+ * How loadSceneAdditive handles entity names that are already taken
+ */
+export enum NameCollision {
+  /**
+   * Give the loaded entity a free name by appending a number, e.g. "door_2"
+   */
+  RENAME = 'rename',
+
+  /**
+   * Keep the name; getEntityByName returns the most recently loaded entity
+   */
+  KEEP = 'keep',
+}
+
+/**
+ * Options for loading a scene additively
+ */
+export interface AdditiveSceneOptions {
+  /**
+   * ID to load the scene under (defaults to the scene's name)
+   */
+  sceneId?: string;
+
+  /**
+   * How to handle entity names that are already taken (default: RENAME)
+   */
+  nameCollision?: NameCollision;
+}
 
 /**
  * SerializationSystem
@@ -8,46 +46,77 @@ import { World } from '../World';
  */
 export class SerializationSystem extends System {
   /**
-   * Prefab library
+   * Encoding used by saveWorld and saveScene
    */
-  private prefabs: Map<string, IPrefab> = new Map();
+  private format: SerializationFormat;
   
   /**
    * Constructor
    * @param priority Priority of this system (higher priority systems are updated first)
+   * @param format Encoding used by saveWorld and saveScene
    */
-  constructor(priority: number = 0) {
+  constructor(priority: number = 0, format: SerializationFormat = SerializationFormat.JSON) {
     super(priority);
+    this.format = format;
+  }
+  
+  /**
+   * Set the encoding used by saveWorld and saveScene
+   * Loading accepts either encoding regardless of this setting
+   * @param format The encoding
+   */
+  public setFormat(format: SerializationFormat): void {
+    this.format = format;
+  }
+  
+  /**
+   * Get the encoding used by saveWorld and saveScene
+   */
+  public getFormat(): SerializationFormat {
+    return this.format;
   }
   
   /**
-   * Save the world to a JSON string
-   * @returns A JSON string representing the world
+   * Save the world
+   * @returns A JSON string or binary data, depending on the format, or null if the world couldn't be encoded
    */
-  public saveWorld(): string {
+  public saveWorld(): SaveData | null {
     if (!this.world) return '{}';
     
-    // Serialize the world to a plain object
-    const worldData = this.world.serialize();
-    
-    // Convert to a JSON string
-    return JSON.stringify(worldData);
+    try {
+      // Wrap the serialized world in a versioned save file
+      const file: SaveFile = {
+        formatVersion: SAVE_FORMAT_VERSION,
+        data: this.world.serialize() as SerializedWorld
+      };
+      
+      return this.encode(file);
+    } catch (error) {
+      console.error('Error saving world:', error);
+      return null;
+    }
   }
   
   /**
-   * Load the world from a JSON string
-   * @param json The JSON string to load from
+   * Load the world
+   * The loaded entities replace all entities and get new IDs, while the systems
+   * (including this one) and the renderer stay attached
+   * @param data A JSON string or binary data to load from
    * @returns True if the load was successful
    */
-  public loadWorld(json: string): boolean {
+  public loadWorld(data: SaveData): boolean {
     if (!this.world) return false;
     
     try {
-      // Parse the JSON string
-      const worldData = JSON.parse(json);
+      // Decode the data
+      const file = this.toSaveFile(this.decode(data));
+      if (!file) {
+        console.error('Invalid world: missing data');
+        return false;
+      }
       
-      // Deserialize the world from the plain object
-      this.world.deserialize(worldData);
+      // Upgrade the data and replace the entities with it
+      this.world.replaceEntities(this.migrate(file));
       
       return true;
     } catch (error) {
@@ -57,11 +126,11 @@ export class SerializationSystem extends System {
   }
   
   /**
-   * Register a prefab
+   * Register a prefab in the PrefabLibrary
    * @param prefab The prefab to register
    */
   public registerPrefab(prefab: IPrefab): void {
-    this.prefabs.set(prefab.name, prefab);
+    PrefabLibrary.getInstance().registerPrefab(prefab);
   }
   
   /**
@@ -70,62 +139,66 @@ export class SerializationSystem extends System {
    * @returns The prefab, or null if not found
    */
   public getPrefab(name: string): IPrefab | null {
-    return this.prefabs.get(name) || null;
+    return PrefabLibrary.getInstance().getPrefab(name);
   }
   
   /**
-   * Create an entity from a prefab
+   * Create an instance of a prefab
    * @param prefabName The name of the prefab
-   * @returns The created entity, or null if the prefab wasn't found
+   * @param overrides Overrides of this instance
+   * @returns The root entity of the instance, or null if the prefab wasn't found
    */
-  public instantiatePrefab(prefabName: string): IEntity | null {
+  public instantiatePrefab(prefabName: string, overrides: PrefabOverride[] = []): IEntity | null {
     if (!this.world) return null;
     
-    const prefab = this.prefabs.get(prefabName);
-    if (!prefab) return null;
-    
-    return prefab.instantiate(this.world);
+    return PrefabLibrary.getInstance().instantiate(prefabName, this.world, overrides);
   }
   
   /**
-   * Save a scene to a JSON string
+   * Save a scene
    * @param name The name of the scene
-   * @returns A JSON string representing the scene
+   * @returns A JSON string or binary data, depending on the format, or null if the scene couldn't be encoded
    */
-  public saveScene(name: string): string {
+  public saveScene(name: string): SaveData | null {
     if (!this.world) return '{}';
     
-    // Create a scene object with metadata
-    const scene = {
-      name,
-      timestamp: Date.now(),
-      data: this.world.serialize()
-    };
-    
-    // Convert to a JSON string
-    return JSON.stringify(scene);
+    try {
+      // Create a scene object with metadata
+      const scene: SaveFile = {
+        formatVersion: SAVE_FORMAT_VERSION,
+        name,
+        timestamp: Date.now(),
+        data: this.world.serialize() as SerializedWorld
+      };
+      
+      return this.encode(scene);
+    } catch (error) {
+      console.error('Error saving scene:', error);
+      return null;
+    }
   }
   
   /**
-   * Load a scene from a JSON string
-   * @param json The JSON string to load from
+   * Load a scene, replacing the entities of the world
+   * Like loadWorld, the world keeps its systems and renderer
+   * @param data A JSON string or binary data to load from
    * @returns True if the load was successful
    */
-  public loadScene(json: string): boolean {
+  public loadScene(data: SaveData): boolean {
     if (!this.world) return false;
     
     try {
-      // Parse the JSON string
-      const scene = JSON.parse(json);
+      // Decode the data
+      const scene = this.toSaveFile(this.decode(data));
       
       // Validate the scene
-      if (!scene.data) {
+      if (!scene) {
         console.error('Invalid scene: missing data');
         return false;
       }
       
-      // Deserialize the world from the scene data
-      this.world.deserialize(scene.data);
+      // Upgrade the scene data and replace the entities with it
+      this.world.replaceEntities(this.migrate(scene));
       
       return true;
     } catch (error) {
@@ -135,112 +208,185 @@ export class SerializationSystem extends System {
   }
   
   /**
-   * Create a prefab from an entity
-   * @param entity The entity to create a prefab from
-   * @param name The name of the prefab
-   * @returns The created prefab
+   * Load a scene into the world without replacing it
+   * Entities get new IDs, and references between them are remapped. Each
+   * loaded entity is tagged with a SceneMemberComponent, so the scene can
+   * be unloaded again by its ID.
+   * @param data A JSON string or binary data to load from
+   * @param options Load options
+   * @returns The ID the scene was loaded under, or null if the load failed
    */
-  public createPrefabFromEntity(entity: IEntity, name: string): IPrefab {
-    // Create a prefab that serializes the entity
-    const prefab: IPrefab = {
-      name,
+  public loadSceneAdditive(data: SaveData, options: AdditiveSceneOptions = {}): string | null {
+    if (!this.world) return null;
+    
+    try {
+      // Decode the data
+      const scene = this.toSaveFile(this.decode(data));
+      if (!scene) {
+        console.error('Invalid scene: missing data');
+        return null;
+      }
       
-      // Serialize the entity
-      serialize(): unknown {
-        return entity.serialize();
-      },
+      const sceneId = options.sceneId || this.createSceneId(scene.name);
+      if (this.getLoadedScenes().includes(sceneId)) {
+        console.error(`Scene ${sceneId} is already loaded`);
+        return null;
+      }
       
-      // Deserialize the entity data to create a new entity
-      deserialize(data: unknown): void {
-        // Nothing to do here, since we're not modifying the prefab
-      },
+      // Upgrade the scene data, then give colliding names a free name
+      const entitiesData = this.migrate(scene).entities;
+      if ((options.nameCollision || NameCollision.RENAME) === NameCollision.RENAME) {
+        this.renameCollisions(entitiesData);
+      }
       
-      // Create a new entity from this prefab
-      instantiate(world: IWorld): IEntity {
-        // Create a new entity
-        const newEntity = world.createEntity();
-        
-        // Serialize the original entity
-        const entityData = entity.serialize();
-        
-        // Deserialize the entity data to the new entity
-        newEntity.deserialize(entityData);
-        
-        return newEntity;
+      // Add the entities to the world and tag them with the scene
+      const entities = this.world.deserializeEntities(entitiesData, false);
+      for (const entity of entities) {
+        const member = entity.getComponent(SceneMemberComponent);
+        if (member) {
+          member.sceneId = sceneId;
+        } else {
+          entity.addComponent(new SceneMemberComponent(sceneId));
+        }
       }
-    };
+      
+      return sceneId;
+    } catch (error) {
+      console.error('Error loading scene:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Build a scene definition (e.g. a scene asset) into the world, alongside
+   * the existing entities
+   * @param definition The scene
+   * @param sceneId ID to build the scene under, so it can be unloaded (defaults to the scene's name)
+   * @returns The ID the scene was built under, or null if building failed
+   */
+  public buildScene(definition: SceneDefinition, sceneId?: string): string | null {
+    if (!this.world) return null;
     
-    // Register the prefab
-    this.registerPrefab(prefab);
+    const id = sceneId || this.createSceneId(definition.name);
+    if (this.getLoadedScenes().includes(id)) {
+      console.error(`Scene ${id} is already loaded`);
+      return null;
+    }
     
-    return prefab;
+    try {
+      buildScene(definition, this.world, { sceneId: id });
+      return id;
+    } catch (error) {
+      console.error('Error building scene:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Unload a scene loaded with loadSceneAdditive or buildScene
+   * Destroys the scene's entities along with their children
+   * @param sceneId The ID of the scene
+   * @returns True if the scene was loaded
+   */
+  public unloadScene(sceneId: string): boolean {
+    if (!this.world) return false;
+    
+    const entities = this.getSceneEntities(sceneId);
+    if (entities.length === 0) return false;
+    
+    for (const entity of entities) {
+      // Children of entities destroyed earlier are gone already
+      if (this.world.getEntity(entity.id) === entity) {
+        this.world.destroyEntity(entity);
+      }
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Get the IDs of the scenes loaded with loadSceneAdditive or buildScene
+   */
+  public getLoadedScenes(): string[] {
+    if (!this.world) return [];
+    
+    const sceneIds = new Set<string>();
+    for (const entity of this.world.query(SceneMemberComponent)) {
+      sceneIds.add(entity.getComponent(SceneMemberComponent)!.sceneId);
+    }
+    
+    return Array.from(sceneIds);
+  }
+  
+  /**
+   * Get the entities loaded from a scene
+   * @param sceneId The ID of the scene
+   */
+  public getSceneEntities(sceneId: string): IEntity[] {
+    if (!this.world) return [];
+    
+    return this.world.query(SceneMemberComponent)
+      .filter(entity => entity.getComponent(SceneMemberComponent)!.sceneId === sceneId);
+  }
+  
+  /**
+   * Get the ID of the scene an entity was loaded from
+   * @param entity The entity
+   * @returns The scene ID, or null if the entity wasn't loaded additively
+   */
+  public getEntityScene(entity: IEntity): string | null {
+    const member = entity.getComponent(SceneMemberComponent);
+    return member ? member.sceneId : null;
+  }
+  
+  /**
+   * Create a prefab from an entity and its descendants
+   * @param entity Root entity of the hierarchy to create a prefab from
+   * @param name The name of the prefab
+   * @returns The created prefab
+   */
+  public createPrefabFromEntity(entity: IEntity, name: string): IPrefab {
+    return PrefabLibrary.getInstance().createFromEntity(entity, name);
   }
   
   /**
    * Save a prefab to a JSON string
    * @param prefabName The name of the prefab
-   * @returns A JSON string representing the prefab
+   * @returns A JSON string with the prefab definition
    */
   public savePrefab(prefabName: string): string {
-    const prefab = this.prefabs.get(prefabName);
+    const prefab = this.getPrefab(prefabName);
     if (!prefab) return '{}';
     
-    // Serialize the prefab
-    const prefabData = prefab.serialize();
-    
-    // Create a prefab object with metadata
-    const prefabObject = {
-      name: prefab.name,
-      data: prefabData
-    };
-    
-    // Convert to a JSON string
-    return JSON.stringify(prefabObject);
+    return JSON.stringify(prefab.serialize());
   }
   
   /**
-   * Load a prefab from a JSON string
+   * Load a prefab from a JSON string and register it
+   * Call PrefabLibrary.updateInstances to apply a changed prefab to existing instances
    * @param json The JSON string to load from
    * @returns True if the load was successful
    */
   public loadPrefab(json: string): boolean {
     try {
       // Parse the JSON string
-      const prefabObject = JSON.parse(json);
+      let definition = JSON.parse(json);
+      
+      // Prefabs used to be a single serialized entity
+      if (!isPrefabDefinition(definition) && definition && typeof definition.name === 'string' && definition.data) {
+        definition = {
+          name: definition.name,
+          nodes: [{ ...definition.data, key: 'root', parent: null }]
+        };
+      }
       
       // Validate the prefab
-      if (!prefabObject.name || !prefabObject.data) {
-        console.error('Invalid prefab: missing name or data');
+      if (!isPrefabDefinition(definition)) {
+        console.error('Invalid prefab: missing name or nodes');
         return false;
       }
       
-      // Create a prefab
-      const prefab: IPrefab = {
-        name: prefabObject.name,
-        
-        // Return the prefab data directly
-        serialize(): unknown {
-          return prefabObject.data;
-        },
-        
-        deserialize(data: unknown): void {
-          // Nothing to do here, since we're not modifying the prefab
-        },
-        
-        // Create a new entity from this prefab
-        instantiate(world: IWorld): IEntity {
-          // Create a new entity
-          const newEntity = world.createEntity();
-          
-          // Deserialize the entity data to the new entity
-          newEntity.deserialize(prefabObject.data);
-          
-          return newEntity;
-        }
-      };
-      
-      // Register the prefab
-      this.registerPrefab(prefab);
+      PrefabLibrary.getInstance().register(definition);
       
       return true;
     } catch (error) {
@@ -249,6 +395,116 @@ export class SerializationSystem extends System {
     }
   }
   
+  /**
+   * Encode a save file in the current format
+   * @param file The save file
+   * @throws Error if the file contains values that can't be encoded
+   */
+  private encode(file: SaveFile): SaveData {
+    return this.format === SerializationFormat.BINARY ? encodeBinary(file) : JSON.stringify(file);
+  }
+  
+  /**
+   * Decode a save file in either format
+   * @param data A JSON string or binary data
+   * @throws Error if the data can't be decoded
+   */
+  private decode(data: SaveData): unknown {
+    return typeof data === 'string' ? JSON.parse(data) : decodeBinary(data);
+  }
+  
+  /**
+   * Normalize decoded data to a save file
+   * Files from before format versioning are either a bare world ({ entities })
+   * or a scene ({ name, timestamp, data }) and are treated as version 1
+   * @param parsed The decoded data
+   * @returns The save file, or null if the data isn't a save file
+   */
+  private toSaveFile(parsed: unknown): SaveFile | null {
+    if (typeof parsed !== 'object' || parsed === null) return null;
+    
+    const file = parsed as Record<string, unknown>;
+    const isWorldData = (data: unknown): data is SerializedWorld =>
+      typeof data === 'object' && data !== null && Array.isArray((data as Record<string, unknown>).entities);
+    
+    if (isWorldData(file.data)) {
+      return {
+        ...file,
+        formatVersion: typeof file.formatVersion === 'number' ? file.formatVersion : 1,
+        data: file.data
+      };
+    }
+    
+    // Legacy bare world
+    if (isWorldData(file)) {
+      return { formatVersion: 1, data: file };
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Create an ID for an additively loaded scene that isn't in use
+   * @param name The name of the scene, if it has one
+   */
+  private createSceneId(name: unknown): string {
+    const base = typeof name === 'string' && name ? name : 'scene';
+    const loaded = this.getLoadedScenes();
+    
+    let sceneId = base;
+    for (let i = 2; loaded.includes(sceneId); i++) {
+      sceneId = `${base}_${i}`;
+    }
+    
+    return sceneId;
+  }
+  
+  /**
+   * Rename serialized entities whose names are taken in the world
+   * Entities sharing a name within the data keep sharing their new name
+   * @param entitiesData The serialized entities; changed in place
+   */
+  private renameCollisions(entitiesData: unknown[]): void {
+    const world = this.world!;
+    const entities = entitiesData.filter(
+      (data): data is Record<string, unknown> => typeof data === 'object' && data !== null
+    );
+    
+    // Names in the data can't be used for renaming either
+    const used = new Set<string>();
+    for (const data of entities) {
+      if (typeof data.name === 'string') used.add(data.name);
+    }
+    
+    const renamed: Map<string, string> = new Map();
+    for (const data of entities) {
+      if (typeof data.name !== 'string' || world.getEntityByName(data.name) === null) continue;
+      
+      let name = renamed.get(data.name);
+      if (!name) {
+        name = data.name;
+        for (let i = 2; used.has(name) || world.getEntityByName(name) !== null; i++) {
+          name = `${data.name}_${i}`;
+        }
+        renamed.set(data.name, name);
+        used.add(name);
+      }
+      
+      data.name = name;
+    }
+  }
+  
+  /**
+   * Upgrade a save file to the current format and component versions
+   * @param file The save file
+   * @returns The world data, ready to deserialize
+   * @throws Error if the file can't be upgraded
+   */
+  private migrate(file: SaveFile): SerializedWorld {
+    const world = this.world!;
+    return MigrationRegistry.getInstance().migrate(file, typeId => world.getComponentVersion(typeId));
+  }
+  
   /**
    * System update (not used for serialization)
    */
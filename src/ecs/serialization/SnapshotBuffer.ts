@@ -0,0 +1,494 @@
+import { Component, ComponentClass, IEntity, IWorld } from '../types';
+import { QueryTracker } from '../query/QueryTracker';
+import { SerializedWorld } from './SaveFormat';
+
+/**
+ * Serialized state of an entity, kept as JSON so unchanged parts can be
+ * compared cheaply and shared between snapshots
+ */
+interface EntityState {
+  /**
+   * The entity without its components
+   */
+  header: string;
+
+  /**
+   * Components by type id
+   */
+  components: Map<string, string>;
+}
+
+/**
+ * Serialized state of a world, by entity ID
+ */
+type WorldState = Map<number, EntityState>;
+
+/**
+ * Changes of a world since the previous snapshot
+ */
+interface WorldDelta {
+  /**
+   * IDs of the entities that were destroyed
+   */
+  removed: number[];
+
+  /**
+   * Headers of the entities that were created or changed
+   */
+  headers: Map<number, string>;
+
+  /**
+   * Component types that changed by entity ID; null means all components of the type were removed
+   */
+  components: Map<number, Map<string, string | null>>;
+}
+
+/**
+ * A recorded snapshot: either the full state (keyframe) or the changes to the previous one
+ */
+interface Frame {
+  tick: number;
+  state: WorldState | null;
+  delta: WorldDelta | null;
+}
+
+/**
+ * SnapshotBuffer - Ring buffer of world snapshots
+ *
+ * Snapshots hold the serialized entities of the world, but only the
+ * components that changed since the previous snapshot are stored. Change
+ * tracking decides which components are serialized again: components
+ * that report their changes (see BaseComponent.reportsChanges) are only
+ * serialized when their entity changed. Every few snapshots a
+ * keyframe with the full state bounds the work needed to rebuild a tick.
+ * Once the buffer is full the oldest snapshot is dropped.
+ */
+export class SnapshotBuffer {
+  /**
+   * The world to snapshot
+   */
+  private world: IWorld;
+
+  /**
+   * Recorded frames, oldest at start
+   */
+  private frames: Array<Frame | undefined>;
+
+  /**
+   * Index of the oldest frame
+   */
+  private start: number = 0;
+
+  /**
+   * Number of recorded frames
+   */
+  private count: number = 0;
+
+  /**
+   * Number of snapshots between keyframes
+   */
+  private keyframeInterval: number;
+
+  /**
+   * Snapshots recorded since the last keyframe
+   */
+  private sinceKeyframe: number = 0;
+
+  /**
+   * State of the newest snapshot, to compute the next delta from
+   */
+  private latest: WorldState | null = null;
+
+  /**
+   * State of the world at the last capture, whose JSON is reused for unchanged components
+   */
+  private captured: WorldState | null = null;
+
+  /**
+   * Entities that changed since the last capture
+   */
+  private tracker: QueryTracker;
+
+  /**
+   * Constructor
+   * @param world The world to snapshot
+   * @param capacity Maximum number of snapshots kept
+   * @param keyframeInterval Number of snapshots between full snapshots
+   */
+  constructor(world: IWorld, capacity: number = 600, keyframeInterval: number = 60) {
+    if (capacity < 1 || keyframeInterval < 1) {
+      throw new Error('Snapshot buffer capacity and keyframe interval must be at least 1');
+    }
+
+    this.world = world;
+    this.frames = new Array(capacity);
+    this.keyframeInterval = keyframeInterval;
+    this.tracker = world.getQuery({}).track();
+  }
+
+  /**
+   * Record a snapshot of the world
+   * Snapshots newer than or at the tick are discarded first, so recording
+   * continues from a restored tick
+   * @param tick The tick the snapshot belongs to
+   */
+  public record(tick: number): void {
+    this.discardFrom(tick);
+
+    // Diff keyframes too, so they share unchanged JSON with the previous snapshot
+    const state = this.capture();
+    const delta = this.latest ? this.diff(this.latest, state) : null;
+
+    if (!delta || this.sinceKeyframe >= this.keyframeInterval || this.frames.length === 1) {
+      this.push({ tick, state, delta: null });
+      this.sinceKeyframe = 0;
+    } else {
+      this.push({ tick, state: null, delta });
+    }
+
+    this.sinceKeyframe++;
+    this.latest = state;
+  }
+
+  /**
+   * Restore the world to a recorded tick
+   * Snapshots after the tick are kept until the next record, so restoring
+   * can go forward again
+   * @param tick The tick to restore
+   * @returns True if the tick was recorded
+   */
+  public restore(tick: number): boolean {
+    const snapshot = this.getSnapshot(tick);
+    if (!snapshot) return false;
+
+    this.world.restore(snapshot);
+    return true;
+  }
+
+  /**
+   * Get the serialized world at a recorded tick
+   * @param tick The tick
+   * @returns The serialized world, or null if the tick wasn't recorded
+   */
+  public getSnapshot(tick: number): SerializedWorld | null {
+    const index = this.indexOf(tick);
+    if (index < 0) return null;
+
+    const state = this.stateAt(index);
+    const entities: unknown[] = [];
+
+    for (const id of Array.from(state.keys()).sort((a, b) => a - b)) {
+      const entityState = state.get(id)!;
+      const components: Record<string, unknown> = {};
+      entityState.components.forEach((json, typeId) => {
+        components[typeId] = JSON.parse(json);
+      });
+
+      entities.push({ ...JSON.parse(entityState.header), components });
+    }
+
+    return { entities };
+  }
+
+  /**
+   * Check if a tick was recorded
+   * @param tick The tick
+   */
+  public has(tick: number): boolean {
+    return this.indexOf(tick) >= 0;
+  }
+
+  /**
+   * Get the recorded ticks, oldest first
+   */
+  public getTicks(): number[] {
+    const ticks: number[] = [];
+    for (let i = 0; i < this.count; i++) {
+      ticks.push(this.frameAt(i).tick);
+    }
+    return ticks;
+  }
+
+  /**
+   * Get the oldest recorded tick, or null if nothing was recorded
+   */
+  public getOldestTick(): number | null {
+    return this.count > 0 ? this.frameAt(0).tick : null;
+  }
+
+  /**
+   * Get the newest recorded tick, or null if nothing was recorded
+   */
+  public getNewestTick(): number | null {
+    return this.count > 0 ? this.frameAt(this.count - 1).tick : null;
+  }
+
+  /**
+   * Get the number of recorded snapshots
+   */
+  public get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Drop all snapshots
+   */
+  public clear(): void {
+    this.frames = new Array(this.frames.length);
+    this.start = 0;
+    this.count = 0;
+    this.sinceKeyframe = 0;
+    this.latest = null;
+    this.captured = null;
+    this.tracker.clear();
+  }
+
+  /**
+   * Stop tracking the changes of the world
+   */
+  public dispose(): void {
+    this.tracker.dispose();
+  }
+
+  /**
+   * Serialize the world into a state
+   * Components that report their changes are only serialized again if
+   * their entity changed since the last capture
+   */
+  private capture(): WorldState {
+    const state: WorldState = new Map();
+
+    for (const entity of this.world.getAllEntities()) {
+      const previous = this.captured ? this.captured.get(entity.id) : undefined;
+
+      // Queries don't track inactive entities, so their changes go unnoticed
+      const changed = !previous || !entity.active ||
+        this.tracker.added.has(entity) || this.tracker.changed.has(entity);
+
+      const components: Map<string, string> = new Map();
+      groupComponents(entity, this.world).forEach((list, typeId) => {
+        const componentClass = list[0].constructor as ComponentClass;
+        const json = !changed && componentClass.reportsChanges && componentClass.reportsChanges()
+          ? previous!.components.get(typeId)
+          : undefined;
+
+        components.set(typeId, json !== undefined ? json : JSON.stringify(list.map(component => component.serialize())));
+      });
+
+      // Same fields as Entity.serialize, which would serialize the components too
+      const parent = entity.getParent();
+      const header = JSON.stringify({
+        id: entity.id,
+        generation: entity.generation,
+        name: entity.name,
+        active: entity.active,
+        parentId: parent ? parent.id : null
+      });
+
+      state.set(entity.id, { header, components });
+    }
+
+    this.captured = state;
+    this.tracker.clear();
+    return state;
+  }
+
+  /**
+   * Compute the changes from one state to the next
+   * @param previous The previous state
+   * @param next The next state; unchanged JSON is replaced by that of the
+   *   previous state so snapshots share their strings
+   */
+  private diff(previous: WorldState, next: WorldState): WorldDelta {
+    const delta: WorldDelta = { removed: [], headers: new Map(), components: new Map() };
+
+    previous.forEach((_, id) => {
+      if (!next.has(id)) delta.removed.push(id);
+    });
+
+    next.forEach((entityState, id) => {
+      const previousState = previous.get(id);
+
+      if (!previousState || previousState.header !== entityState.header) {
+        delta.headers.set(id, entityState.header);
+      } else {
+        entityState.header = previousState.header;
+      }
+
+      const changed: Map<string, string | null> = new Map();
+      entityState.components.forEach((json, typeId) => {
+        const previousJson = previousState ? previousState.components.get(typeId) : undefined;
+
+        if (previousJson === json) {
+          entityState.components.set(typeId, previousJson);
+        } else {
+          changed.set(typeId, json);
+        }
+      });
+      if (previousState) {
+        previousState.components.forEach((_, typeId) => {
+          if (!entityState.components.has(typeId)) changed.set(typeId, null);
+        });
+      }
+
+      if (changed.size > 0) delta.components.set(id, changed);
+    });
+
+    return delta;
+  }
+
+  /**
+   * Apply a delta to a state
+   * @param state The state to change
+   * @param delta The delta
+   */
+  private apply(state: WorldState, delta: WorldDelta): void {
+    for (const id of delta.removed) {
+      state.delete(id);
+    }
+
+    delta.headers.forEach((header, id) => {
+      const entityState = state.get(id);
+      if (entityState) {
+        state.set(id, { header, components: entityState.components });
+      } else {
+        state.set(id, { header, components: new Map() });
+      }
+    });
+
+    delta.components.forEach((changed, id) => {
+      const entityState = state.get(id)!;
+      const components = new Map(entityState.components);
+
+      changed.forEach((json, typeId) => {
+        if (json === null) {
+          components.delete(typeId);
+        } else {
+          components.set(typeId, json);
+        }
+      });
+
+      state.set(id, { header: entityState.header, components });
+    });
+  }
+
+  /**
+   * Rebuild the full state of a frame from the keyframe before it
+   * @param index Position of the frame in the buffer
+   */
+  private stateAt(index: number): WorldState {
+    let keyframe = index;
+    while (!this.frameAt(keyframe).state) keyframe--;
+
+    const state = new Map(this.frameAt(keyframe).state!);
+    for (let i = keyframe + 1; i <= index; i++) {
+      this.apply(state, this.frameAt(i).delta!);
+    }
+
+    return state;
+  }
+
+  /**
+   * Add a frame, dropping the oldest one if the buffer is full
+   */
+  private push(frame: Frame): void {
+    const capacity = this.frames.length;
+
+    if (this.count === capacity) {
+      // The new oldest frame must hold the full state
+      if (capacity > 1 && !this.frameAt(1).state) {
+        const next = this.frameAt(1);
+        next.state = this.stateAt(1);
+        next.delta = null;
+      }
+
+      this.frames[this.start] = undefined;
+      this.start = (this.start + 1) % capacity;
+      this.count--;
+    }
+
+    this.frames[(this.start + this.count) % capacity] = frame;
+    this.count++;
+  }
+
+  /**
+   * Drop the frames at and after a tick
+   */
+  private discardFrom(tick: number): void {
+    let dropped = false;
+
+    while (this.count > 0 && this.frameAt(this.count - 1).tick >= tick) {
+      this.frames[(this.start + this.count - 1) % this.frames.length] = undefined;
+      this.count--;
+      dropped = true;
+    }
+
+    if (!dropped) return;
+
+    // Continue from the newest remaining frame
+    if (this.count > 0) {
+      this.latest = this.stateAt(this.count - 1);
+
+      let keyframe = this.count - 1;
+      while (!this.frameAt(keyframe).state) keyframe--;
+      this.sinceKeyframe = this.count - keyframe;
+    } else {
+      this.latest = null;
+      this.sinceKeyframe = 0;
+    }
+  }
+
+  /**
+   * Find the buffer position of a tick
+   * @returns The position, or -1 if the tick wasn't recorded
+   */
+  private indexOf(tick: number): number {
+    // Ticks increase, so search by halving
+    let low = 0;
+    let high = this.count - 1;
+
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const middleTick = this.frameAt(middle).tick;
+
+      if (middleTick === tick) return middle;
+      if (middleTick < tick) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Get the frame at a position, counted from the oldest
+   */
+  private frameAt(position: number): Frame {
+    return this.frames[(this.start + position) % this.frames.length]!;
+  }
+}
+
+/**
+ * Group the components of an entity by type id, like Entity.serialize
+ * @param entity The entity
+ * @param world The world the types are registered in
+ */
+function groupComponents(entity: IEntity, world: IWorld): Map<string, Component[]> {
+  const groups: Map<string, Component[]> = new Map();
+
+  for (const component of entity.getAllComponents()) {
+    const componentClass = component.constructor as ComponentClass;
+    const typeId = world.getComponentTypeId(componentClass) || componentClass.name;
+
+    const group = groups.get(typeId);
+    if (group) {
+      group.push(component);
+    } else {
+      groups.set(typeId, [component]);
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,239 @@
+import { SerializedEntity, SerializedWorld, isSerializedEntity } from './SaveFormat';
+
+/**
+ * Changes to the components of one type on an entity
+ * - null: all components of the type were removed
+ * - replace: the components of the type were added, or their number changed
+ * - fields: changed fields by component index, as dot separated paths
+ *   (e.g. "position.x") with their new values; null means unchanged
+ */
+export type ComponentPatch =
+  | null
+  | { replace: unknown[] }
+  | { fields: Array<Record<string, unknown> | null> };
+
+/**
+ * Changes to an entity that exists on both sides of a diff
+ * Only the properties that changed are present
+ */
+export interface EntityPatch {
+  /**
+   * ID of the entity
+   */
+  id: number;
+
+  /**
+   * New name; null if the entity lost its name
+   */
+  name?: string | null;
+
+  /**
+   * New active state
+   */
+  active?: boolean;
+
+  /**
+   * ID of the new parent; null if the entity became a root
+   */
+  parentId?: number | null;
+
+  /**
+   * Changed components by type id
+   */
+  components?: Record<string, ComponentPatch>;
+}
+
+/**
+ * Changes between two serialized worlds, as produced by World.diff
+ * Plain data, so it can be sent over the network or saved
+ */
+export interface WorldPatch {
+  /**
+   * IDs of the entities that were destroyed
+   */
+  removed: number[];
+
+  /**
+   * Serialized entities that were created
+   */
+  added: unknown[];
+
+  /**
+   * Entities that changed
+   */
+  changed: EntityPatch[];
+}
+
+/**
+ * Check if a patch has no changes
+ * @param patch The patch
+ */
+export function isEmptyPatch(patch: WorldPatch): boolean {
+  return patch.removed.length === 0 && patch.added.length === 0 && patch.changed.length === 0;
+}
+
+/**
+ * Compute the changes from one serialized world to another
+ * The result only depends on the data, with entities in ID order
+ * @param from The old world
+ * @param to The new world
+ * @returns The patch that turns from into to
+ */
+export function diffWorlds(from: SerializedWorld, to: SerializedWorld): WorldPatch {
+  const fromEntities = entitiesById(from);
+  const toEntities = entitiesById(to);
+  const patch: WorldPatch = { removed: [], added: [], changed: [] };
+
+  for (const [id, fromEntity] of fromEntities) {
+    const toEntity = toEntities.get(id);
+
+    // An entity that was destroyed and recreated with the same ID is a different entity
+    if (!toEntity || toEntity.generation !== fromEntity.generation) {
+      patch.removed.push(id);
+    }
+  }
+
+  for (const [id, toEntity] of toEntities) {
+    const fromEntity = fromEntities.get(id);
+
+    if (!fromEntity || fromEntity.generation !== toEntity.generation) {
+      patch.added.push(toEntity);
+      continue;
+    }
+
+    const entityPatch = diffEntity(fromEntity, toEntity);
+    if (entityPatch) {
+      patch.changed.push(entityPatch);
+    }
+  }
+
+  return patch;
+}
+
+/**
+ * Index the entities of a serialized world, sorted by ID
+ */
+function entitiesById(world: SerializedWorld): Map<number, SerializedEntity> {
+  const entities = world.entities.filter(isSerializedEntity);
+
+  return new Map(entities.sort((a, b) => a.id - b.id).map(entity => [entity.id, entity]));
+}
+
+/**
+ * Compute the changes to an entity
+ * @returns The changes, or null if the entity didn't change
+ */
+function diffEntity(from: SerializedEntity, to: SerializedEntity): EntityPatch | null {
+  const patch: EntityPatch = { id: to.id };
+  let changed = false;
+
+  const fromName = typeof from.name === 'string' ? from.name : null;
+  const toName = typeof to.name === 'string' ? to.name : null;
+  if (fromName !== toName) {
+    patch.name = toName;
+    changed = true;
+  }
+
+  if (from.active !== to.active) {
+    patch.active = to.active;
+    changed = true;
+  }
+
+  const fromParent = typeof from.parentId === 'number' ? from.parentId : null;
+  const toParent = typeof to.parentId === 'number' ? to.parentId : null;
+  if (fromParent !== toParent) {
+    patch.parentId = toParent;
+    changed = true;
+  }
+
+  const fromComponents: Record<string, unknown[]> = from.components || {};
+  const toComponents: Record<string, unknown[]> = to.components || {};
+  const components: Record<string, ComponentPatch> = {};
+
+  for (const typeId of Object.keys(fromComponents)) {
+    if (!toComponents[typeId]) {
+      components[typeId] = null;
+    }
+  }
+
+  for (const [typeId, toList] of Object.entries(toComponents)) {
+    const componentPatch = diffComponents(fromComponents[typeId], toList);
+    if (componentPatch !== undefined) {
+      components[typeId] = componentPatch;
+    }
+  }
+
+  if (Object.keys(components).length > 0) {
+    patch.components = components;
+    changed = true;
+  }
+
+  return changed ? patch : null;
+}
+
+/**
+ * Compute the changes to the components of one type
+ * @returns The changes, or undefined if the components didn't change
+ */
+function diffComponents(from: unknown[] | undefined, to: unknown[]): ComponentPatch | undefined {
+  if (!from || from.length !== to.length) {
+    return { replace: to };
+  }
+
+  const fields: Array<Record<string, unknown> | null> = [];
+  let changed = false;
+
+  for (let i = 0; i < to.length; i++) {
+    const changes: Record<string, unknown> = {};
+
+    // Fields can't be removed by a field patch, so replace components whose fields differ
+    if (!diffValue(from[i], to[i], '', changes)) {
+      return { replace: to };
+    }
+
+    if (Object.keys(changes).length > 0) {
+      fields.push(changes);
+      changed = true;
+    } else {
+      fields.push(null);
+    }
+  }
+
+  return changed ? { fields } : undefined;
+}
+
+/**
+ * Record the changed leaves of a value by path
+ * Objects with the same keys are compared field by field; anything else,
+ * including arrays, is compared as a whole
+ * @returns False if the values can't be patched by path, i.e. the top-level values differ as a whole
+ */
+function diffValue(from: unknown, to: unknown, path: string, changes: Record<string, unknown>): boolean {
+  if (isPlainObject(from) && isPlainObject(to) && sameKeys(from, to)) {
+    for (const key of Object.keys(to)) {
+      diffValue(from[key], to[key], path ? `${path}.${key}` : key, changes);
+    }
+    return true;
+  }
+
+  if (JSON.stringify(from) === JSON.stringify(to)) return true;
+  if (!path) return false;
+
+  changes[path] = to;
+  return true;
+}
+
+/**
+ * Check if a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if two objects have the same keys
+ */
+function sameKeys(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const aKeys = Object.keys(a);
+  return aKeys.length === Object.keys(b).length && aKeys.every(key => key in b);
+}
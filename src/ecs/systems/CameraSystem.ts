@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { IEntity, ISystem, IWorld, ComponentClass } from '../types';
 import { CameraComponent, CameraType } from '../components/CameraComponent';
 import { ThreeObject } from '../components/ThreeObject';
+import { SystemPhase } from '../scheduling/SystemScheduler';
 
 /**
  * System that manages cameras in the ECS
@@ -13,11 +14,15 @@ export class CameraSystem implements ISystem {
   readonly id: number = Math.floor(Math.random() * 1000000);
   
   /**
-   * Priority of this system (higher priority = updated earlier)
-   * Should be higher than most systems to ensure camera is updated before rendering
+   * Priority of this system within its phase (higher priority = updated earlier)
    */
   readonly priority: number = 900;
   
+  /**
+   * Runs in the pre-render phase, after gameplay and constraints have moved the cameras
+   */
+  readonly phase: SystemPhase = SystemPhase.PRE_RENDER;
+  
   /**
    * Whether this system is enabled
    */
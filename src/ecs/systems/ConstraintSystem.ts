@@ -9,6 +9,7 @@ import {
 } from '../components/ConstraintComponent';
 import { ThreeObject } from '../components/ThreeObject';
 import { CurveComponent } from '../components/CurveComponent';
+import { SystemPhase } from '../scheduling/SystemScheduler';
 
 /**
  * System that processes constraint components and applies constraints to entities
@@ -29,10 +30,11 @@ export class ConstraintSystem extends System {
 
   /**
    * Constructor
-   * @param priority Priority of this system (higher = processed earlier)
+   * Runs in the post-update phase so constraints apply on top of gameplay movement
+   * @param priority Priority of this system within its phase (higher = processed earlier)
    */
   constructor(priority: number = 400) {
-    super(priority);
+    super(priority, SystemPhase.POST_UPDATE);
   }
 
   /**
@@ -87,10 +89,8 @@ export class ConstraintSystem extends System {
     threeObj: ThreeObject,
     constraint: TrackToConstraint
   ): void {
-    // Get the target entity
-    if (constraint.targetEntityId === null) return;
-    
-    const targetEntity = this.world?.getEntity(constraint.targetEntityId);
+    // Get the target entity (null once it has been destroyed)
+    const targetEntity = this.world?.resolveEntityRef(constraint.target);
     if (!targetEntity) return;
     
     const targetThreeObj = targetEntity.getComponent(ThreeObject);
@@ -183,8 +183,8 @@ export class ConstraintSystem extends System {
     constraint: PathFollowConstraint,
     deltaTime: number
   ): void {
-    // Get the path entity
-    const pathEntity = this.world?.getEntity(constraint.pathEntityId);
+    // Get the path entity (null once it has been destroyed)
+    const pathEntity = this.world?.resolveEntityRef(constraint.path);
     if (!pathEntity) return;
     
     // Get the CurveComponent
@@ -0,0 +1,39 @@
+import { System } from '../System';
+import { ComponentClass } from '../types';
+import { LightComponent } from '../components/LightComponent';
+import { SystemPhase } from '../scheduling/SystemScheduler';
+
+/**
+ * System that keeps lights attached to their entities and aimed at their targets
+ */
+export class LightSystem extends System {
+  /**
+   * Constructor
+   * Runs in the post-update phase, after constraints moved the lights and their targets
+   * @param priority Priority of this system within its phase (higher = processed earlier)
+   */
+  constructor(priority: number = 300) {
+    super(priority, SystemPhase.POST_UPDATE);
+  }
+
+  /**
+   * System initialization
+   */
+  protected override onInitialize(): void {
+    console.log('LightSystem initialized');
+  }
+
+  /**
+   * Update the lights
+   * @param deltaTime Time since last update in seconds
+   */
+  protected override onUpdate(deltaTime: number): void {
+    const entities = this.query(LightComponent as unknown as ComponentClass);
+
+    for (const entity of entities) {
+      for (const light of entity.getComponents(LightComponent)) {
+        light.update();
+      }
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { ComponentClass, IEntity } from '../types';
 import { ThreeObject } from '../components/ThreeObject';
 import { World } from '../World';
 import { BaseComponent } from '../Component';
+import { SystemPhase } from '../scheduling/SystemScheduler';
 
 /**
  * System responsible for managing the attachment of THREE.js objects to the scene or their parents
@@ -12,10 +13,10 @@ import { BaseComponent } from '../Component';
  */
 export class SceneSystem extends System {
   /**
-   * Set a higher priority to ensure this system runs early in the update cycle
+   * Runs in the pre-update phase so the scene hierarchy is in place before gameplay systems
    */
   constructor() {
-    super(800); // High priority to ensure scene hierarchy is updated early
+    super(800, SystemPhase.PRE_UPDATE);
   }
   
   /**
@@ -64,17 +65,13 @@ export class SceneSystem extends System {
       // Check if it should be attached to a parent entity
       let shouldAddToScene = true;
       
-      // Check if this entity belongs to a parent with a ThreeObject
-      for (const potentialParent of this.query(ThreeObject as unknown as ComponentClass)) {
-        const parentThreeObj = potentialParent.getComponent(ThreeObject);
-        if (parentThreeObj && parentThreeObj.children.includes(entity as any)) {
-          // Found a parent - add to parent instead of scene
-          if (!parentThreeObj.object.children.includes(threeObj.object)) {
-            parentThreeObj.object.add(threeObj.object);
-          }
-          shouldAddToScene = false;
-          break;
-        }
+      // Check if this entity has a parent with a ThreeObject
+      const parent = entity.getParent();
+      const parentThreeObj = parent ? parent.getComponent(ThreeObject) : null;
+      if (parentThreeObj) {
+        // Found a parent - add to parent instead of scene
+        parentThreeObj.object.add(threeObj.object);
+        shouldAddToScene = false;
       }
       
       // If no parent was found, add to the scene
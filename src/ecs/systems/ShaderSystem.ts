@@ -0,0 +1,102 @@
+import { System } from '../System';
+import { ComponentClass } from '../types';
+import { ShaderMaterialComponent } from '../components/ShaderMaterialComponent';
+import { CameraSystem } from './CameraSystem';
+import { SystemPhase } from '../scheduling/SystemScheduler';
+import { EventSystem } from '../../core/events/EventSystem';
+import { AssetEvents } from '../../core/assets/AssetManager';
+import { Config } from '../../core/Config';
+
+/**
+ * System that feeds the automatic uniforms of shader materials
+ * and swaps in their shaders and textures when the assets are reloaded
+ */
+export class ShaderSystem extends System {
+  /**
+   * Seconds rendered since the system was initialized
+   */
+  private time: number = 0;
+
+  /**
+   * Unsubscribe function for asset reloads
+   */
+  private unsubscribeReload: (() => void) | null = null;
+
+  /**
+   * Constructor
+   * Runs in the pre-render phase, after the CameraSystem picked the active camera
+   * @param priority Priority of this system within its phase (higher = processed earlier)
+   */
+  constructor(priority: number = 800) {
+    super(priority, SystemPhase.PRE_RENDER);
+  }
+
+  /**
+   * System initialization
+   */
+  protected override onInitialize(): void {
+    this.unsubscribeReload = EventSystem.getInstance().subscribe(
+      AssetEvents.ASSET_RELOADED,
+      (data: { id: string; asset: unknown }) => this.onAssetReloaded(data.id, data.asset)
+    );
+    console.log('ShaderSystem initialized');
+  }
+
+  /**
+   * Update the system
+   * The uniforms are fed every rendered frame instead, so time advances smoothly
+   * @param deltaTime Time since last update in seconds
+   */
+  protected override onUpdate(deltaTime: number): void {
+    // Nothing to do per tick
+  }
+
+  /**
+   * Feed the automatic uniforms
+   * @param deltaTime Time since the last render in seconds
+   */
+  protected override onRender(deltaTime: number): void {
+    this.time += deltaTime;
+
+    const { width, height } = Config.getInstance().resolution;
+    const cameraSystem = this.world ? this.world.getSystem(CameraSystem) : null;
+    const activeCamera = cameraSystem ? cameraSystem.getActiveCamera() : null;
+    const camera = activeCamera ? activeCamera.getCamera() : null;
+
+    // The renderer only updates the camera's world matrix later, when rendering
+    if (camera) {
+      camera.updateMatrixWorld();
+    }
+
+    for (const entity of this.query(ShaderMaterialComponent as unknown as ComponentClass)) {
+      for (const material of entity.getComponents(ShaderMaterialComponent)) {
+        material.updateAutoUniforms(this.time, deltaTime, width, height, camera);
+      }
+    }
+  }
+
+  /**
+   * Swap a reloaded asset into the shader materials using it
+   * @param id Asset ID of the reloaded asset
+   * @param asset The reloaded asset
+   */
+  private onAssetReloaded(id: string, asset: unknown): void {
+    if (!this.world) return;
+
+    for (const entity of this.query(ShaderMaterialComponent as unknown as ComponentClass)) {
+      for (const material of entity.getComponents(ShaderMaterialComponent)) {
+        material.onAssetReloaded(id, asset);
+      }
+    }
+  }
+
+  /**
+   * Clean up the system
+   */
+  protected override onCleanup(): void {
+    if (this.unsubscribeReload) {
+      this.unsubscribeReload();
+      this.unsubscribeReload = null;
+    }
+  }
+}
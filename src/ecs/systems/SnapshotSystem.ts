@@ -0,0 +1,109 @@
+import { System } from '../System';
+import { SystemPhase } from '../scheduling/SystemScheduler';
+import { SnapshotBuffer } from '../serialization/SnapshotBuffer';
+
+/**
+ * System that records a snapshot of the world every fixed tick, so the
+ * world can be rewound to any recent tick
+ */
+export class SnapshotSystem extends System {
+  /**
+   * Recorded snapshots
+   */
+  private buffer: SnapshotBuffer | null = null;
+
+  /**
+   * Maximum number of snapshots kept
+   */
+  private capacity: number;
+
+  /**
+   * Number of snapshots between full snapshots
+   */
+  private keyframeInterval: number;
+
+  /**
+   * Tick of the latest snapshot
+   */
+  private tick: number = -1;
+
+  /**
+   * Constructor
+   * Runs last in the post-update phase so snapshots hold the final state of each tick
+   * @param capacity Maximum number of snapshots kept (e.g. 600 ticks = 60 seconds at 10 ticks per second)
+   * @param keyframeInterval Number of snapshots between full snapshots
+   * @param priority Priority of this system within its phase (higher = processed earlier)
+   */
+  constructor(capacity: number = 600, keyframeInterval: number = 60, priority: number = -1000) {
+    super(priority, SystemPhase.POST_UPDATE);
+    this.capacity = capacity;
+    this.keyframeInterval = keyframeInterval;
+  }
+
+  /**
+   * System initialization
+   */
+  protected override onInitialize(): void {
+    this.buffer = new SnapshotBuffer(this.world!, this.capacity, this.keyframeInterval);
+    this.tick = -1;
+  }
+
+  /**
+   * Record a snapshot of this tick
+   * @param deltaTime Time since last update in seconds
+   */
+  protected override onUpdate(deltaTime: number): void {
+    this.tick++;
+    this.buffer!.record(this.tick);
+  }
+
+  /**
+   * Rewind the world to a recorded tick
+   * Recording continues from that tick, replacing the snapshots after it
+   * @param tick The tick to restore
+   * @returns True if the tick was recorded
+   */
+  public restore(tick: number): boolean {
+    if (!this.buffer || !this.buffer.restore(tick)) return false;
+
+    this.tick = tick;
+    return true;
+  }
+
+  /**
+   * Rewind the world by a number of ticks, as far back as recorded
+   * @param ticks Number of ticks to go back
+   * @returns The restored tick, or null if nothing was recorded
+   */
+  public rewind(ticks: number): number | null {
+    const oldest = this.buffer ? this.buffer.getOldestTick() : null;
+    if (oldest === null) return null;
+
+    const tick = Math.max(oldest, this.tick - ticks);
+    return this.restore(tick) ? tick : null;
+  }
+
+  /**
+   * Get the tick of the latest snapshot, or of the restored one after a rewind
+   */
+  public getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Get the recorded snapshots, or null before the system is initialized
+   */
+  public getBuffer(): SnapshotBuffer | null {
+    return this.buffer;
+  }
+
+  /**
+   * Clean up the system
+   */
+  protected override onCleanup(): void {
+    if (this.buffer) {
+      this.buffer.dispose();
+    }
+    this.buffer = null;
+  }
+}
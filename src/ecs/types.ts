@@ -1,3 +1,13 @@
+import type { Query, QueryDescriptor } from './query/Query';
+import type { QueryBuilder } from './query/QueryBuilder';
+import type { CommandBuffer } from './CommandBuffer';
+import type { SystemPhase } from './scheduling/SystemScheduler';
+import type { ComponentEventData, ComponentEventType, EcsEventMap } from './events/EcsEvents';
+import type { EventPriority } from '../core/events/EventSystem';
+import type { SerializedWorld } from './serialization/SaveFormat';
+import type { WorldPatch } from './serialization/WorldPatch';
+import type { ComponentSchema } from './ComponentSchema';
+
 /**
  * Type for component constructors
  */
@@ -9,6 +19,18 @@ export interface ComponentClass<T = Component> {
    * @returns Array of component classes that are required
    */
   getRequirements?(): ComponentClass<Component>[];
+  
+  /**
+   * Static method to describe the editable properties of the component
+   * @returns The schema, or null if the properties aren't described
+   */
+  getSchema?(): ComponentSchema | null;
+  
+  /**
+   * Static method to tell whether the component calls markChanged whenever its serialized data changes
+   * @returns True if all changes are reported
+   */
+  reportsChanges?(): boolean;
 }
 
 /**
@@ -26,6 +48,28 @@ export interface ISerializable {
   deserialize(data: unknown): void;
 }
 
+/**
+ * Handle to an entity that stays safe after the entity is destroyed
+ * A reference only resolves while an entity with the same ID and generation is in the world
+ */
+export interface EntityRef {
+  /**
+   * ID of the referenced entity
+   */
+  readonly id: number;
+  
+  /**
+   * Generation of the referenced entity, bumped when the entity is destroyed
+   */
+  readonly generation: number;
+}
+
+/**
+ * Maps an entity reference from serialized data to the entity it now refers to
+ * Returns null if the reference can't be mapped
+ */
+export type EntityRefRemapper = (ref: EntityRef) => EntityRef | null;
+
 /**
  * Base Component interface
  * Components are pure data containers
@@ -52,12 +96,31 @@ export interface Component extends ISerializable {
    * Called when the component's entity is deactivated
    */
   onDeactivate?(): void;
+  
+  /**
+   * Called when the component's entity is moved in the entity hierarchy
+   * @param parent The new parent entity, or null if the entity became a root
+   * @param keepWorldTransform Whether the entity should keep its world transform
+   */
+  onParentChanged?(parent: IEntity | null, keepWorldTransform: boolean): void;
+  
+  /**
+   * Called after deserialization or prefab instantiation to point stored
+   * entity references at the newly created entities
+   * @param remap Maps a serialized reference to the new one
+   */
+  remapEntityRefs?(remap: EntityRefRemapper): void;
 }
 
 /**
  * Entity interface
  */
 export interface IEntity extends IUniqueId, ISerializable {
+  /**
+   * Generation of the entity, bumped when it is destroyed so old references stop resolving
+   */
+  readonly generation: number;
+  
   /**
    * Whether the entity is active
    */
@@ -137,21 +200,100 @@ export interface IEntity extends IUniqueId, ISerializable {
   deactivate(): void;
   
   /**
-   * Destroy this entity, removing it from the world
+   * Destroy this entity and all its descendants, removing them from the world
    */
   destroy(): void;
+  
+  /**
+   * Get the parent entity, or null if this is a root entity
+   */
+  getParent(): IEntity | null;
+  
+  /**
+   * Get the direct children of this entity, in order
+   */
+  getChildren(): IEntity[];
+  
+  /**
+   * Get all descendants of this entity, depth-first
+   */
+  getDescendants(): IEntity[];
+  
+  /**
+   * Get the root of this entity's hierarchy (the entity itself if it has no parent)
+   */
+  getRoot(): IEntity;
+  
+  /**
+   * Check if this entity is a descendant of another entity
+   * @param ancestor The potential ancestor
+   */
+  isDescendantOf(ancestor: IEntity): boolean;
+  
+  /**
+   * Move this entity under a new parent
+   * @param parent The new parent, or null to make this a root entity
+   * @param keepWorldTransform Whether to keep the world transform (otherwise the local transform is kept)
+   */
+  setParent(parent: IEntity | null, keepWorldTransform?: boolean): this;
+  
+  /**
+   * Add a child entity
+   * @param child The entity to add as child
+   * @param keepWorldTransform Whether the child keeps its world transform
+   */
+  addChild(child: IEntity, keepWorldTransform?: boolean): this;
+  
+  /**
+   * Remove a child entity, making it a root entity
+   * @param child The child to remove
+   * @param keepWorldTransform Whether the child keeps its world transform
+   */
+  removeChild(child: IEntity, keepWorldTransform?: boolean): boolean;
 }
 
+/**
+ * Type for system constructors
+ * Used to express ordering constraints between systems
+ */
+export type SystemClass<T extends ISystem = ISystem> = new (...args: any[]) => T;
+
+/**
+ * Condition checked before a system runs; the system is skipped when it returns false
+ */
+export type RunCondition = (world: IWorld) => boolean;
+
 /**
  * System interface
  * Systems contain the logic that operates on entities with specific components
  */
 export interface ISystem extends IUniqueId {
   /**
-   * Priority of this system (higher priority systems are updated first)
+   * Priority of this system within its phase (higher priority systems are updated first)
+   * Only used to order systems that have no before/after constraint between them
    */
   readonly priority: number;
   
+  /**
+   * Phase this system runs in (defaults to UPDATE)
+   */
+  readonly phase?: SystemPhase;
+  
+  /**
+   * System classes this system must run before
+   */
+  readonly before?: SystemClass[];
+  
+  /**
+   * System classes this system must run after
+   */
+  readonly after?: SystemClass[];
+  
+  /**
+   * Conditions that must all hold for this system to run
+   */
+  readonly runConditions?: RunCondition[];
+  
   /**
    * Whether this system is enabled
    */
@@ -214,12 +356,26 @@ export interface IWorld extends ISerializable {
    */
   getEntity(id: number): IEntity | null;
   
+  /**
+   * Rename an entity, keeping lookups by name up to date
+   * @param entity The entity
+   * @param name The new name, or undefined to remove the name
+   */
+  renameEntity(entity: IEntity, name: string | undefined): void;
+  
   /**
    * Get an entity by name
    * @param name The entity name
    */
   getEntityByName(name: string): IEntity | null;
   
+  /**
+   * Resolve an entity reference
+   * @param ref The reference to resolve
+   * @returns The entity, or null if it was destroyed or never existed
+   */
+  resolveEntityRef(ref: EntityRef | null): IEntity | null;
+  
   /**
    * Get all entities
    */
@@ -230,6 +386,11 @@ export interface IWorld extends ISerializable {
    */
   getActiveEntities(): IEntity[];
   
+  /**
+   * Get all entities without a parent
+   */
+  getRootEntities(): IEntity[];
+  
   /**
    * Destroy an entity
    * @param entity The entity to destroy
@@ -272,6 +433,138 @@ export interface IWorld extends ISerializable {
    */
   query<T extends Component>(...componentClasses: ComponentClass<T>[]): IEntity[];
   
+  /**
+   * Check if the world is paused
+   * Systems using RunConditions.unpaused() are skipped while paused
+   */
+  isPaused(): boolean;
+  
+  /**
+   * Subscribe to ECS events of this world
+   * @param eventType The event to subscribe to
+   * @param callback Called with the event data
+   * @param priority Priority of the subscription
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof EcsEventMap>(
+    eventType: K,
+    callback: (data: EcsEventMap[K]) => void,
+    priority?: EventPriority
+  ): () => void;
+  
+  /**
+   * Subscribe to components of a given class being added to or removed from entities of this world
+   * @param eventType COMPONENT_ADDED or COMPONENT_REMOVED
+   * @param componentClass The component class to filter by
+   * @param callback Called with the event data
+   * @param priority Priority of the subscription
+   * @returns Unsubscribe function
+   */
+  onComponent<T extends Component>(
+    eventType: ComponentEventType,
+    componentClass: ComponentClass<T>,
+    callback: (data: ComponentEventData<T>) => void,
+    priority?: EventPriority
+  ): () => void;
+  
+  /**
+   * Get the command buffer used to defer structural changes
+   */
+  getCommandBuffer(): CommandBuffer;
+  
+  /**
+   * Apply all deferred commands now
+   */
+  flushCommands(): void;
+  
+  /**
+   * Get the cached query for a filter
+   * @param descriptor Filter describing which entities match
+   */
+  getQuery(descriptor: QueryDescriptor): Query;
+  
+  /**
+   * Start building a query with all/any/none filters
+   */
+  queryBuilder(): QueryBuilder;
+  
+  /**
+   * Notify the world that an entity's components or active state changed
+   * @param entity The entity that changed
+   * @internal Used by Entity to keep cached queries up to date
+   */
+  _onEntityChanged(entity: IEntity): void;
+  
+  /**
+   * Notify the world that a component was mutated
+   * @param entity The entity owning the component
+   * @param component The mutated component
+   * @internal Used by BaseComponent.markChanged to drive change tracking
+   */
+  _onComponentChanged(entity: IEntity, component: Component): void;
+  
+  /**
+   * Create entities from serialized entity data
+   * Restores components and hierarchy and remaps entity references between the new entities
+   * @param entitiesData Serialized entities
+   * @param keepExternalRefs Whether to keep references to entities outside the data
+   *   (e.g. for prefabs instantiated in the world they were made in) instead of dropping them,
+   *   or a function that maps them
+   */
+  deserializeEntities(entitiesData: unknown[], keepExternalRefs?: boolean | EntityRefRemapper): IEntity[];
+  
+  /**
+   * Restore this world to serialized state in place, keeping its systems
+   * and the identity of entities that still exist
+   * Entities are matched by ID, so the data must come from this session, e.g. a snapshot
+   * @param data Serialized world
+   */
+  restore(data: SerializedWorld): void;
+  
+  /**
+   * Replace all entities with serialized ones, keeping the systems and renderer
+   * The loaded entities get new IDs, so the data may come from another session, e.g. a save
+   * @param data Serialized world
+   * @returns The loaded entities, in data order
+   */
+  replaceEntities(data: SerializedWorld): IEntity[];
+  
+  /**
+   * Apply changes computed by World.diff to this world
+   * @param patch The changes
+   * @returns The added entities by their ID in the patch
+   */
+  applyPatch(patch: WorldPatch): Map<number, IEntity>;
+  
+  /**
+   * Register a component class for serialization
+   * @param typeId Stable type id written to save files
+   * @param componentClass The component class
+   * @param version Schema version of the component's serialized data
+   */
+  registerComponent(typeId: string, componentClass: ComponentClass, version?: number): void;
+  
+  /**
+   * Get the stable type id of a component class
+   * @param componentClass The component class
+   * @returns The type id, or null if the class isn't registered
+   */
+  getComponentTypeId(componentClass: ComponentClass): string | null;
+  
+  /**
+   * Get the component class registered for a type id
+   * @param typeId The stable type id
+   * @returns The component class, or null if the type isn't registered
+   */
+  getComponentClass(typeId: string): ComponentClass | null;
+  
+  /**
+   * Get the current schema version of a component type
+   * @param typeId The stable type id
+   * @returns The schema version, or null if the type isn't registered
+   */
+  getComponentVersion(typeId: string): number | null;
+  
   /**
    * Clear all entities and systems
    */
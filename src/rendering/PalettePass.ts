@@ -0,0 +1,287 @@
+import * as THREE from 'three';
+import { FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js';
+
+/**
+ * Ordered dithering patterns
+ */
+export type DitheringType = 'none' | 'bayer2' | 'bayer4' | 'bayer8';
+
+/**
+ * Most colors a palette can have
+ */
+export const MAX_PALETTE_SIZE = 256;
+
+/**
+ * Size of the Bayer matrix of each dithering pattern (0 = no dithering)
+ */
+const BAYER_SIZES: Record<DitheringType, number> = {
+  none: 0,
+  bayer2: 2,
+  bayer4: 4,
+  bayer8: 8,
+};
+
+const VERTEX_SHADER = `
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+#define MAX_PALETTE_SIZE ${MAX_PALETTE_SIZE}
+
+uniform sampler2D frame;
+uniform sampler2D palette;
+uniform int paletteSize;
+uniform int bayerSize;
+uniform float ditherStrength;
+
+varying vec2 vUv;
+
+// Bayer matrix threshold in [0, 1), built recursively from the 2x2 matrix
+float bayer2(vec2 p) {
+  p = floor(p);
+  return fract(p.x / 2.0 + p.y * p.y * 0.75);
+}
+
+float bayer4(vec2 p) {
+  return bayer2(0.5 * p) * 0.25 + bayer2(p);
+}
+
+float bayer8(vec2 p) {
+  return bayer4(0.5 * p) * 0.25 + bayer2(p);
+}
+
+// The frame is rendered in linear space, palettes are in sRGB
+vec3 linearToSRGB(vec3 color) {
+  return mix(
+    color * 12.92,
+    pow(color, vec3(1.0 / 2.4)) * 1.055 - 0.055,
+    step(vec3(0.0031308), color)
+  );
+}
+
+void main() {
+  vec4 texel = texture2D(frame, vUv);
+  vec3 color = linearToSRGB(clamp(texel.rgb, 0.0, 1.0));
+
+  if (bayerSize > 0) {
+    float threshold = bayerSize == 2 ? bayer2(gl_FragCoord.xy)
+      : bayerSize == 4 ? bayer4(gl_FragCoord.xy)
+      : bayer8(gl_FragCoord.xy);
+    color += (threshold - 0.5) * ditherStrength;
+  }
+
+  vec3 closest = color;
+  float closestDistance = 1e6;
+  for (int i = 0; i < MAX_PALETTE_SIZE; i++) {
+    if (i >= paletteSize) break;
+
+    vec3 entry = texelFetch(palette, ivec2(i, 0), 0).rgb;
+    vec3 delta = entry - color;
+    float dist = dot(delta, delta);
+    if (dist < closestDistance) {
+      closestDistance = dist;
+      closest = entry;
+    }
+  }
+
+  gl_FragColor = vec4(closest, texel.a);
+}
+`;
+
+/**
+ * Post-processing pass that reduces the rendered frame to the colors of a palette
+ * The scene is rendered into an offscreen target, then drawn with each pixel
+ * replaced by the closest palette color, optionally with ordered dithering
+ */
+export class PalettePass {
+  /**
+   * Target the scene is rendered into
+   */
+  private target: THREE.WebGLRenderTarget;
+
+  /**
+   * Colors of the palette, one texel each
+   */
+  private paletteTexture: THREE.DataTexture;
+
+  /**
+   * Material that quantizes the frame
+   */
+  private material: THREE.ShaderMaterial;
+
+  /**
+   * Quad the frame is drawn with
+   */
+  private quad: FullScreenQuad;
+
+  /**
+   * Constructor
+   * @param width Width of the frame
+   * @param height Height of the frame
+   * @param colors Palette colors as hex numbers
+   */
+  constructor(width: number, height: number, colors: number[]) {
+    // Half floats keep dark colors apart until they are quantized
+    this.target = new THREE.WebGLRenderTarget(width, height, {
+      type: THREE.HalfFloatType,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter
+    });
+
+    this.paletteTexture = this.createPaletteTexture(colors);
+
+    this.material = new THREE.ShaderMaterial({
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      uniforms: {
+        frame: { value: this.target.texture },
+        palette: { value: this.paletteTexture },
+        paletteSize: { value: this.paletteTexture.image.width },
+        bayerSize: { value: 0 },
+        ditherStrength: { value: 0 }
+      },
+      depthTest: false,
+      depthWrite: false
+    });
+
+    this.quad = new FullScreenQuad(this.material);
+  }
+
+  /**
+   * Replace the palette
+   * @param colors Palette colors as hex numbers
+   */
+  public setPalette(colors: number[]): void {
+    this.paletteTexture.dispose();
+    this.paletteTexture = this.createPaletteTexture(colors);
+    this.material.uniforms.palette.value = this.paletteTexture;
+    this.material.uniforms.paletteSize.value = this.paletteTexture.image.width;
+  }
+
+  /**
+   * Set the ordered dithering applied before quantizing
+   * @param type The dithering pattern
+   * @param strength How far dithering nudges colors, as a fraction of the color range
+   */
+  public setDithering(type: DitheringType, strength: number): void {
+    this.material.uniforms.bayerSize.value = BAYER_SIZES[type] || 0;
+    this.material.uniforms.ditherStrength.value = strength;
+  }
+
+  /**
+   * Resize the frame
+   * @param width Width of the frame
+   * @param height Height of the frame
+   */
+  public setSize(width: number, height: number): void {
+    this.target.setSize(width, height);
+  }
+
+  /**
+   * Render a scene through the palette to the renderer's canvas
+   * @param renderer The WebGL renderer
+   * @param scene The scene
+   * @param camera The camera
+   */
+  public render(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera): void {
+    const previousTarget = renderer.getRenderTarget();
+
+    renderer.setRenderTarget(this.target);
+    renderer.render(scene, camera);
+
+    renderer.setRenderTarget(previousTarget);
+    this.quad.render(renderer);
+  }
+
+  /**
+   * Dispose the GPU resources
+   */
+  public dispose(): void {
+    this.target.dispose();
+    this.paletteTexture.dispose();
+    this.material.dispose();
+    this.quad.dispose();
+  }
+
+  /**
+   * Create the palette texture
+   * @param colors Palette colors as hex numbers
+   */
+  private createPaletteTexture(colors: number[]): THREE.DataTexture {
+    if (colors.length > MAX_PALETTE_SIZE) {
+      console.warn(`Palette has ${colors.length} colors, only the first ${MAX_PALETTE_SIZE} are used`);
+    }
+
+    // An empty palette would turn everything black, so fall back to black and white
+    const used = colors.length > 0 ? colors.slice(0, MAX_PALETTE_SIZE) : [0x000000, 0xffffff];
+    const data = new Uint8Array(used.length * 4);
+    used.forEach((color, i) => {
+      data[i * 4] = (color >> 16) & 0xff;
+      data[i * 4 + 1] = (color >> 8) & 0xff;
+      data[i * 4 + 2] = color & 0xff;
+      data[i * 4 + 3] = 0xff;
+    });
+
+    const texture = new THREE.DataTexture(data, used.length, 1, THREE.RGBAFormat);
+    texture.minFilter = THREE.NearestFilter;
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+  }
+}
+
+/**
+ * Parse palette colors from hex strings
+ * Invalid colors are skipped with a warning
+ * @param hexColors Colors like '#1a1c2c' or '1a1c2c'
+ * @returns The colors as hex numbers
+ */
+export function parsePaletteColors(hexColors: string[]): number[] {
+  const colors: number[] = [];
+
+  for (const hex of hexColors) {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+    if (!match) {
+      console.warn(`Invalid palette color: ${hex}`);
+      continue;
+    }
+    colors.push(parseInt(match[1], 16));
+  }
+
+  return colors;
+}
+
+/**
+ * Load palette colors from an image
+ * Every distinct opaque pixel is a color, in reading order
+ * @param url URL of the palette image
+ * @returns Promise that resolves with the colors as hex numbers
+ */
+export async function loadPaletteImage(url: string): Promise<number[]> {
+  const image = await new THREE.ImageLoader().loadAsync(url);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get 2D context to read the palette image');
+  }
+  ctx.drawImage(image, 0, 0);
+
+  const pixels = ctx.getImageData(0, 0, image.width, image.height).data;
+  const colors = new Set<number>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] === 0xff) {
+      colors.add((pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2]);
+    }
+  }
+
+  return Array.from(colors);
+}
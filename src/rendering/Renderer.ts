@@ -5,6 +5,7 @@ import { World } from '../ecs/World';
 import { CameraSystem } from '../ecs/systems/CameraSystem';
 import { CameraComponent, CameraType } from '../ecs/components/CameraComponent';
 import { MobileController } from '../core/input/MobileController';
+import { PalettePass, loadPaletteImage, parsePaletteColors } from './PalettePass';
 
 export class Renderer {
   // Main output canvas
@@ -20,6 +21,9 @@ export class Renderer {
   private defaultCamera: THREE.PerspectiveCamera;
   private renderer!: THREE.WebGLRenderer; // Using definite assignment assertion
   
+  // Palette post-processing (null when disabled)
+  private palettePass: PalettePass | null = null;
+  
   // UI System
   private uiSystem: UISystem | null = null;
   
@@ -70,6 +74,9 @@ export class Renderer {
     // Initialize WebGL offscreen canvas
     this.initializeWebGLCanvas();
     
+    // Initialize palette post-processing if enabled
+    await this.initializePalette();
+    
     // Initialize UI offscreen canvas
     this.initializeUICanvas();
     
@@ -147,9 +154,56 @@ export class Renderer {
     this.renderer.setSize(this.width, this.height, false); // false prevents updating style
     this.renderer.setPixelRatio(this.pixelRatio);
     
+    // Shadows are only cast by lights and meshes that enable them
+    const shadows = Config.getInstance().shadows;
+    this.renderer.shadowMap.enabled = shadows.enabled;
+    this.renderer.shadowMap.type = this.getShadowMapType(shadows.type);
+    
     console.log('WebGL offscreen canvas initialized');
   }
   
+  /**
+   * Get the Three.js shadow map type for a configured shadow type
+   * @param type The shadow type from the config
+   */
+  private getShadowMapType(type: string): THREE.ShadowMapType {
+    switch (type) {
+      case 'pcf':
+        return THREE.PCFShadowMap;
+      case 'pcfSoft':
+        return THREE.PCFSoftShadowMap;
+      case 'vsm':
+        return THREE.VSMShadowMap;
+      case 'basic':
+      default:
+        // Unfiltered shadow texels keep edges crisp at low resolutions
+        return THREE.BasicShadowMap;
+    }
+  }
+  
+  /**
+   * Initialize the palette post-processing from the config
+   * A palette image that fails to load falls back to the palette colors
+   */
+  private async initializePalette(): Promise<void> {
+    const palette = Config.getInstance().palette;
+    if (!palette.enabled) return;
+    
+    let colors = parsePaletteColors(palette.colors);
+    if (palette.image) {
+      try {
+        colors = await loadPaletteImage(palette.image);
+      } catch (error) {
+        console.warn(`Error loading palette image: ${palette.image}`, error);
+      }
+    }
+    
+    this.setPalette(colors);
+    if (Config.getInstance().debug) {
+      console.log(`Palette initialized with ${colors.length} colors`);
+    }
+  }
+  
   /**
    * Initialize UI offscreen canvas
    */
@@ -211,13 +265,19 @@ export class Renderer {
   /**
    * Process rendering for this frame
    * @param deltaTime Time since last frame in seconds
+   * @param alpha Progress between the last two fixed ticks, used to interpolate transforms
    */
-  render(deltaTime: number): void {
+  render(deltaTime: number, alpha: number = 1): void {
     // Update UI if UI system exists
     if (this.uiSystem) {
       this.uiSystem.update(deltaTime);
     }
     
+    // Draw objects between their last two tick states
+    if (this.world) {
+      this.world.interpolateTransforms(alpha);
+    }
+    
     // Get the camera to use for rendering
     const camera = this.getActiveCamera();
     
@@ -229,7 +289,12 @@ export class Renderer {
         this.renderer.setClearColor(clearColor);
       }
       
-      this.renderer.render(this.activeScene, camera);
+      // Reduce the frame to the palette before it is composited with the UI
+      if (this.palettePass) {
+        this.palettePass.render(this.renderer, this.activeScene, camera);
+      } else {
+        this.renderer.render(this.activeScene, camera);
+      }
     }
     
     // Render UI to offscreen canvas if UI system exists
@@ -239,6 +304,11 @@ export class Renderer {
     
     // Composite the two canvases onto the output canvas
     this.compositeCanvases();
+    
+    // Hand the latest tick state back to game logic
+    if (this.world) {
+      this.world.restoreTransforms();
+    }
   }
   
   /**
@@ -330,6 +400,10 @@ export class Renderer {
       this.renderer.setSize(this.width, this.height, false);
     }
     
+    if (this.palettePass) {
+      this.palettePass.setSize(this.width, this.height);
+    }
+    
     // Resize all canvases
     if (this.webglCanvas) {
       this.webglCanvas.width = this.width;
@@ -371,6 +445,38 @@ export class Renderer {
     return this.getActiveCamera();
   }
   
+  /**
+   * Set the palette the 3D frame is reduced to
+   * Dithering follows the config
+   * @param colors Palette colors as hex numbers, or null to render all colors
+   */
+  setPalette(colors: number[] | null): void {
+    if (!colors) {
+      if (this.palettePass) {
+        this.palettePass.dispose();
+        this.palettePass = null;
+      }
+      return;
+    }
+    
+    if (this.palettePass) {
+      this.palettePass.setPalette(colors);
+    } else {
+      this.palettePass = new PalettePass(this.width, this.height, colors);
+    }
+    
+    const palette = Config.getInstance().palette;
+    this.palettePass.setDithering(palette.dithering, palette.ditherStrength);
+  }
+  
+  /**
+   * Get the palette post-processing pass
+   * @returns The pass, or null if the palette is disabled
+   */
+  getPalettePass(): PalettePass | null {
+    return this.palettePass;
+  }
+  
   /**
    * Get the canvas width
    */
@@ -396,6 +502,28 @@ export class Renderer {
     return this.outputCanvas;
   }
   
+  /**
+   * Capture a scaled down copy of the output canvas, e.g. for save thumbnails
+   * @param width Width of the image; the height keeps the aspect ratio
+   * @returns The image as a PNG data URL, or null if there is nothing to capture
+   */
+  captureThumbnail(width: number = 160): string | null {
+    if (!this.outputCanvas) return null;
+    
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(width * this.height / this.width));
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    
+    // Keep pixels crisp like the output canvas
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(this.outputCanvas, 0, 0, canvas.width, canvas.height);
+    
+    return canvas.toDataURL('image/png');
+  }
+  
   /**
    * Clear the UI canvas
    */
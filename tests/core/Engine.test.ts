@@ -0,0 +1,231 @@
+import { Engine } from '../../src/core/Engine';
+import { Config } from '../../src/core/Config';
+import { ManualClock } from '../../src/core/time/Clock';
+import { State } from '../../src/core/state/State';
+import { World } from '../../src/ecs/World';
+import { System } from '../../src/ecs/System';
+import { RunConditions } from '../../src/ecs/scheduling/RunConditions';
+
+/**
+ * State that records the fixed updates it receives
+ */
+class CountingState extends State {
+  public updates: number[] = [];
+
+  constructor() {
+    super('counting');
+  }
+
+  async enter(): Promise<void> {}
+  async exit(): Promise<void> {}
+
+  update(deltaTime: number): void {
+    this.updates.push(deltaTime);
+  }
+
+  render(): void {}
+  setupRenderingData(): void {}
+}
+
+/**
+ * System that counts the updates it runs
+ */
+class TickSystem extends System {
+  public ticks: number = 0;
+
+  protected override onUpdate(): void {
+    this.ticks++;
+  }
+}
+
+/**
+ * State that owns its world, like the game states do
+ */
+class WorldState extends State {
+  public readonly ticker: TickSystem = new TickSystem().runIf(RunConditions.unpaused());
+  private world: World = new World();
+
+  constructor() {
+    super('world');
+    this.world.registerSystem(this.ticker);
+  }
+
+  async enter(): Promise<void> {}
+  async exit(): Promise<void> {}
+
+  update(deltaTime: number): void {
+    this.world.update(deltaTime);
+  }
+
+  render(): void {}
+  setupRenderingData(): void {}
+
+  override getWorld(): World {
+    return this.world;
+  }
+}
+
+describe('Engine', () => {
+  let clock: ManualClock;
+  let engine: Engine;
+  let state: CountingState;
+
+  beforeEach(async () => {
+    Config.getInstance().setConfig({ tickRate: 0.1, maxStepsPerFrame: 5, startState: '' });
+
+    clock = new ManualClock();
+    engine = new Engine({ clock, headless: true });
+    await engine.start();
+
+    state = new CountingState();
+    engine.getStateManager().registerState(state);
+    await engine.getStateManager().switchState('counting');
+  });
+
+  afterEach(() => {
+    engine.stop();
+  });
+
+  describe('headless', () => {
+    it('runs without renderer or animation frame loop', async () => {
+      const requestFrame = jest.spyOn(window, 'requestAnimationFrame');
+      const headless = new Engine({ clock, headless: true });
+      await headless.start();
+
+      expect(headless.isHeadless()).toBe(true);
+      expect(headless.getRenderer()).toBeNull();
+      expect(requestFrame).not.toHaveBeenCalled();
+
+      headless.stop();
+      requestFrame.mockRestore();
+    });
+
+    it('only advances when stepped', () => {
+      clock.advance(1000);
+      expect(state.updates).toHaveLength(0);
+
+      engine.step(4);
+      expect(state.updates).toEqual([0.1, 0.1, 0.1, 0.1]);
+      expect(engine.getPlayTime()).toBeCloseTo(0.4);
+    });
+
+    it('discards time already simulated by stepping', () => {
+      clock.advance(50);
+      engine.frame();
+      engine.step();
+      clock.advance(50);
+      engine.frame();
+
+      expect(state.updates).toHaveLength(1);
+    });
+  });
+
+  describe('fixed step', () => {
+    it('runs one fixed update per elapsed tick', () => {
+      clock.advance(350);
+      engine.frame();
+
+      expect(state.updates).toEqual([0.1, 0.1, 0.1]);
+      expect(engine.getPlayTime()).toBeCloseTo(0.3);
+    });
+
+    it('carries leftover time over to the next frame', () => {
+      clock.advance(60);
+      engine.frame();
+      expect(state.updates).toHaveLength(0);
+
+      clock.advance(60);
+      engine.frame();
+      expect(state.updates).toHaveLength(1);
+    });
+
+    it('drops the backlog beyond maxStepsPerFrame', () => {
+      clock.advance(10000);
+      engine.frame();
+      expect(state.updates).toHaveLength(5);
+
+      clock.advance(0);
+      engine.frame();
+      expect(state.updates).toHaveLength(5);
+    });
+
+    it('runs more fixed updates at a higher time scale', () => {
+      engine.setTimeScale(2);
+      clock.advance(200);
+      engine.frame();
+
+      expect(state.updates).toEqual([0.1, 0.1, 0.1, 0.1]);
+    });
+  });
+
+  describe('interpolation', () => {
+    it('reports progress towards the next tick', () => {
+      clock.advance(125);
+      engine.frame();
+
+      expect(engine.getInterpolationAlpha()).toBeCloseTo(0.25);
+    });
+
+    it('shows the latest tick after stepping manually', () => {
+      clock.advance(50);
+      engine.frame();
+      engine.step();
+
+      expect(engine.getInterpolationAlpha()).toBe(1);
+    });
+  });
+
+  describe('pause', () => {
+    it('shares its pause state with the world', () => {
+      engine.pause();
+      expect(engine.isPaused()).toBe(true);
+      expect(engine.getWorld().isPaused()).toBe(true);
+
+      engine.resume();
+      expect(engine.getWorld().isPaused()).toBe(false);
+
+      engine.getWorld().setPaused(true);
+      expect(engine.isPaused()).toBe(true);
+    });
+
+    it('runs no fixed updates while paused', () => {
+      engine.pause();
+      clock.advance(500);
+      engine.frame();
+
+      expect(state.updates).toHaveLength(0);
+      expect(engine.getPlayTime()).toBe(0);
+
+      engine.resume();
+      clock.advance(100);
+      engine.frame();
+
+      expect(state.updates).toHaveLength(1);
+    });
+
+    it('pauses the world of the current state', async () => {
+      const worldState = new WorldState();
+      engine.getStateManager().registerState(worldState);
+
+      engine.pause();
+      await engine.getStateManager().switchState('world');
+      engine.step(2);
+
+      expect(worldState.getWorld().isPaused()).toBe(true);
+      expect(worldState.ticker.ticks).toBe(0);
+
+      engine.resume();
+      engine.step(2);
+
+      expect(worldState.getWorld().isPaused()).toBe(false);
+      expect(worldState.ticker.ticks).toBe(2);
+    });
+
+    it('still steps manually while paused', () => {
+      engine.pause();
+      engine.step(3);
+
+      expect(state.updates).toHaveLength(3);
+    });
+  });
+});
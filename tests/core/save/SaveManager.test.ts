@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { SaveManager, computeChecksum } from '../../../src/core/save/SaveManager';
+import { MemorySaveStorage } from '../../../src/core/save/MemorySaveStorage';
+import { ServiceManager } from '../../../src/core/services/ServiceManager';
+import { Engine } from '../../../src/core/Engine';
+import { Config } from '../../../src/core/Config';
+import { ManualClock } from '../../../src/core/time/Clock';
+import { World } from '../../../src/ecs/World';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { SerializationSystem } from '../../../src/ecs/serialization/SerializationSystem';
+
+/**
+ * Let pending storage promises settle
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('SaveManager', () => {
+  let saveManager: SaveManager;
+  let storage: MemorySaveStorage;
+  let world: World;
+  let serializer: SerializationSystem;
+
+  beforeEach(() => {
+    storage = new MemorySaveStorage();
+    saveManager = SaveManager.getInstance();
+    saveManager.setStorage(storage);
+
+    world = new World();
+    serializer = new SerializationSystem();
+    world.registerSystem(serializer);
+    world.createEntity('player').addComponent(new ThreeObject(new THREE.Vector3(1, 2, 3)));
+  });
+
+  afterEach(() => {
+    saveManager.stopAutosave();
+    ServiceManager.getInstance().clear();
+  });
+
+  describe('save and load', () => {
+    it('restores the saved world', async () => {
+      await saveManager.save('slot1', serializer, { name: 'First' });
+
+      world.getEntityByName('player')!.getComponent(ThreeObject)!.object.position.set(9, 9, 9);
+      world.createEntity('added later');
+
+      const metadata = await saveManager.load('slot1', serializer);
+
+      expect(metadata.name).toBe('First');
+      expect(world.getAllEntities().map(entity => entity.name)).toEqual(['player']);
+      expect(world.getEntityByName('player')!.getComponent(ThreeObject)!.object.position.toArray()).toEqual([1, 2, 3]);
+    });
+
+    it('keeps the world and its systems usable after loading', async () => {
+      const player = world.getEntityByName('player');
+      await saveManager.save('slot1', serializer);
+      await saveManager.load('slot1', serializer);
+
+      // The saved player replaces the live one
+      expect(world.getEntityByName('player')).not.toBe(player);
+      expect(world.getEntity(player!.id)).toBeNull();
+      expect(world.getSystem(SerializationSystem)).toBe(serializer);
+
+      // Saving again writes the world, not an empty file
+      world.createEntity('enemy');
+      await saveManager.save('slot2', serializer);
+      await saveManager.load('slot2', serializer);
+
+      expect(world.getAllEntities().map(entity => entity.name).sort()).toEqual(['enemy', 'player']);
+    });
+
+    it('leaves no entity of the world in place, even if it has a saved ID', async () => {
+      await saveManager.save('slot1', serializer);
+
+      // As if saved in another session, where the player had the ID of our door
+      const door = world.createEntity('door').addComponent(new ThreeObject(new THREE.Vector3(5, 0, 0)));
+      const record = (await storage.read('slot1'))!;
+      const file = JSON.parse(record.data as string);
+      file.data.entities[0].id = door.id;
+      const data = JSON.stringify(file);
+      await storage.write('slot1', { ...record, data, checksum: computeChecksum({ metadata: record.metadata, data }) });
+
+      await saveManager.load('slot1', serializer);
+
+      const player = world.getEntityByName('player')!;
+      expect(world.getAllEntities()).toEqual([player]);
+      expect(player).not.toBe(door);
+      expect(door.name).toBe('door');
+      expect(world.getEntity(door.id)).toBeNull();
+      expect(player.getComponent(ThreeObject)!.object.position.toArray()).toEqual([1, 2, 3]);
+    });
+
+    it('lists saves newest first', async () => {
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValue(1000);
+      await saveManager.save('old', serializer);
+      now.mockReturnValue(2000);
+      await saveManager.save('new', serializer);
+      now.mockRestore();
+
+      const slots = await saveManager.list();
+      expect(slots.map(info => info.slot)).toEqual(['new', 'old']);
+      expect(slots.every(info => !info.corrupted)).toBe(true);
+    });
+
+    it('fails to load an empty slot', async () => {
+      await expect(saveManager.load('missing', serializer)).rejects.toThrow(/empty/);
+    });
+  });
+
+  describe('checksums', () => {
+    it('refuses to load a save whose data changed', async () => {
+      await saveManager.save('slot1', serializer);
+      const record = (await storage.read('slot1'))!;
+      await storage.write('slot1', { ...record, data: (record.data as string).replace('player', 'cheater') });
+
+      await expect(saveManager.load('slot1', serializer)).rejects.toThrow(/corrupted/);
+      expect((await saveManager.list())[0].corrupted).toBe(true);
+    });
+
+    it('refuses to load a save whose metadata changed', async () => {
+      await saveManager.save('slot1', serializer);
+      const record = (await storage.read('slot1'))!;
+      await storage.write('slot1', { ...record, metadata: { ...record.metadata, playtime: 9999 } });
+
+      await expect(saveManager.load('slot1', serializer)).rejects.toThrow(/corrupted/);
+    });
+
+    it('covers binary data', async () => {
+      const record = { metadata: (await saveManager.save('slot1', serializer)), data: new Uint8Array([1, 2, 3]) };
+      const checksum = computeChecksum(record);
+
+      record.data[1] = 4;
+      expect(computeChecksum(record)).not.toBe(checksum);
+    });
+  });
+
+  describe('autosave', () => {
+    it('saves each time the interval of play time passes', async () => {
+      saveManager.startAutosave(serializer, 10);
+
+      saveManager.update(0);
+      saveManager.update(9.9);
+      await flush();
+      expect(await saveManager.has('autosave')).toBe(false);
+
+      saveManager.update(10);
+      await flush();
+      const record = (await storage.read('autosave'))!;
+      expect(record.metadata.autosave).toBe(true);
+
+      await storage.delete('autosave');
+      saveManager.update(15);
+      await flush();
+      expect(await saveManager.has('autosave')).toBe(false);
+
+      saveManager.update(20);
+      await flush();
+      expect(await saveManager.has('autosave')).toBe(true);
+    });
+
+    it('stops when told to', async () => {
+      saveManager.startAutosave(serializer, 1, 'auto');
+      saveManager.update(0);
+      saveManager.stopAutosave();
+      saveManager.update(5);
+      await flush();
+
+      expect(saveManager.isAutosaving()).toBe(false);
+      expect(await saveManager.has('auto')).toBe(false);
+    });
+
+    it('rejects intervals that are not positive', () => {
+      expect(() => saveManager.startAutosave(serializer, 0)).toThrow(/positive/);
+    });
+
+    it('waits while the engine is paused', async () => {
+      Config.getInstance().setConfig({ tickRate: 0.1, maxStepsPerFrame: 5, startState: '' });
+      const clock = new ManualClock();
+      const engine = new Engine({ clock, headless: true });
+      await engine.start();
+
+      saveManager.startAutosave(serializer, 0.3);
+      engine.step();
+
+      engine.pause();
+      for (let i = 0; i < 10; i++) {
+        clock.advance(100);
+        engine.frame();
+      }
+      await flush();
+      expect(await saveManager.has('autosave')).toBe(false);
+
+      engine.resume();
+      for (let i = 0; i < 3; i++) {
+        clock.advance(100);
+        engine.frame();
+      }
+      await flush();
+      expect(await saveManager.has('autosave')).toBe(true);
+
+      engine.stop();
+    });
+  });
+});
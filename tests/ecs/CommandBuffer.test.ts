@@ -0,0 +1,80 @@
+import { World } from '../../src/ecs/World';
+import { BaseComponent } from '../../src/ecs/Component';
+import { System } from '../../src/ecs/System';
+import { IEntity } from '../../src/ecs/types';
+
+class Position extends BaseComponent {}
+class Projectile extends BaseComponent {}
+
+class SpawnSystem extends System {
+  protected override onUpdate(): void {
+    // Structural changes while iterating the query are deferred
+    for (const entity of this.query(Position)) {
+      const spawned = this.commands!.createEntity('bullet', [new Position(), new Projectile()]);
+      this.commands!.destroyEntity(entity);
+      expect(spawned.entity).toBeNull();
+    }
+  }
+}
+
+describe('CommandBuffer', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('applies commands in recording order at the next flush', () => {
+    const entity = world.createEntity();
+    const commands = world.getCommandBuffer();
+
+    commands.addComponent(entity, new Position());
+    commands.removeComponent(entity, Position);
+    commands.addComponent(entity, new Projectile());
+    expect(entity.hasComponent(Projectile)).toBe(false);
+    expect(commands.size).toBe(3);
+
+    world.flushCommands();
+
+    expect(entity.hasComponent(Position)).toBe(false);
+    expect(entity.hasComponent(Projectile)).toBe(true);
+    expect(commands.isEmpty()).toBe(true);
+  });
+
+  it('resolves deferred entities when they are created', () => {
+    const commands = world.getCommandBuffer();
+    const deferred = commands.createEntity('spawned', [new Position()]);
+    commands.addComponent(deferred, new Projectile());
+
+    world.flushCommands();
+
+    const entity = deferred.entity as IEntity;
+    expect(entity).not.toBeNull();
+    expect(world.getEntityByName('spawned')).toBe(entity);
+    expect(entity.hasComponent(Position)).toBe(true);
+    expect(entity.hasComponent(Projectile)).toBe(true);
+  });
+
+  it('skips commands targeting destroyed entities', () => {
+    const entity = world.createEntity();
+    const commands = world.getCommandBuffer();
+
+    commands.destroyEntity(entity);
+    commands.addComponent(entity, new Position());
+    commands.addComponent(entity.id, new Projectile());
+
+    expect(() => world.flushCommands()).not.toThrow();
+    expect(world.getEntity(entity.id)).toBeNull();
+    expect(entity.hasComponent(Position)).toBe(false);
+  });
+
+  it('is flushed after each system update', () => {
+    world.registerSystem(new SpawnSystem());
+    world.createEntity('gun').addComponent(new Position());
+
+    world.update(0.1);
+
+    expect(world.getEntityByName('gun')).toBeNull();
+    expect(world.query(Projectile).map(entity => entity.name)).toEqual(['bullet']);
+  });
+});
@@ -0,0 +1,81 @@
+import { World } from '../../src/ecs/World';
+import { createEntityRef, entityRefEquals, isEntityRef } from '../../src/ecs/EntityRef';
+import { ThreeObject } from '../../src/ecs/components/ThreeObject';
+import { ConstraintComponent, ConstraintType, TrackToConstraint } from '../../src/ecs/components/ConstraintComponent';
+
+describe('EntityRef', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('resolves references to live entities', () => {
+    const entity = world.createEntity('target');
+    const ref = createEntityRef(entity);
+
+    expect(ref).toEqual({ id: entity.id, generation: entity.generation });
+    expect(world.resolveEntityRef(ref)).toBe(entity);
+  });
+
+  it('stops resolving once the entity is destroyed', () => {
+    const entity = world.createEntity('target');
+    const ref = createEntityRef(entity);
+
+    entity.destroy();
+
+    expect(world.resolveEntityRef(ref)).toBeNull();
+    expect(entity.generation).toBe(ref.generation + 1);
+  });
+
+  it('does not resolve references from another generation', () => {
+    const entity = world.createEntity('target');
+
+    expect(world.resolveEntityRef({ id: entity.id, generation: entity.generation + 1 })).toBeNull();
+    expect(world.resolveEntityRef(null)).toBeNull();
+  });
+
+  it('recognizes and compares references', () => {
+    expect(isEntityRef({ id: 1, generation: 0 })).toBe(true);
+    expect(isEntityRef({ id: 1 })).toBe(false);
+    expect(isEntityRef(null)).toBe(false);
+
+    expect(entityRefEquals({ id: 1, generation: 0 }, { id: 1, generation: 0 })).toBe(true);
+    expect(entityRefEquals({ id: 1, generation: 0 }, { id: 1, generation: 1 })).toBe(false);
+    expect(entityRefEquals(null, null)).toBe(true);
+  });
+
+  describe('serialization', () => {
+    function trackTarget(world: World): TrackToConstraint {
+      const follower = world.getEntityByName('follower')!;
+      return follower.getComponent(ConstraintComponent)!.getConstraintsByType<TrackToConstraint>(ConstraintType.TRACK_TO)[0];
+    }
+
+    it('remaps references to the deserialized entities', () => {
+      const target = world.createEntity('target');
+      const follower = world.createEntity('follower').addComponent(new ThreeObject());
+      follower.addComponent(new ConstraintComponent());
+      follower.getComponent(ConstraintComponent)!.createTrackToConstraint(target);
+
+      const copy = new World();
+      copy.deserialize(world.serialize());
+
+      expect(copy.resolveEntityRef(trackTarget(copy).target)).toBe(copy.getEntityByName('target'));
+    });
+
+    it('drops references that were already stale', () => {
+      const target = world.createEntity('target');
+      const follower = world.createEntity('follower').addComponent(new ThreeObject());
+      follower.addComponent(new ConstraintComponent());
+      follower.getComponent(ConstraintComponent)!.createTrackToConstraint({
+        id: target.id,
+        generation: target.generation + 1
+      });
+
+      const copy = new World();
+      copy.deserialize(world.serialize());
+
+      expect(trackTarget(copy).target).toBeNull();
+    });
+  });
+});
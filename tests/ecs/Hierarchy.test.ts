@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { World } from '../../src/ecs/World';
+import { ThreeObject } from '../../src/ecs/components/ThreeObject';
+
+describe('Entity hierarchy', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('links parents and children', () => {
+    const parent = world.createEntity('parent');
+    const first = world.createEntity('first');
+    const second = world.createEntity('second');
+
+    parent.addChild(first).addChild(second);
+
+    expect(parent.getChildren()).toEqual([first, second]);
+    expect(first.getParent()).toBe(parent);
+    expect(world.getRootEntities()).toEqual([parent]);
+
+    expect(parent.removeChild(first)).toBe(true);
+    expect(first.getParent()).toBeNull();
+    expect(parent.getChildren()).toEqual([second]);
+  });
+
+  it('walks descendants and the root', () => {
+    const root = world.createEntity('root');
+    const child = world.createEntity('child').setParent(root);
+    const grandchild = world.createEntity('grandchild').setParent(child);
+
+    expect(root.getDescendants()).toEqual([child, grandchild]);
+    expect(grandchild.getRoot()).toBe(root);
+    expect(grandchild.isDescendantOf(root)).toBe(true);
+    expect(root.isDescendantOf(grandchild)).toBe(false);
+  });
+
+  it('rejects cycles', () => {
+    const root = world.createEntity('root');
+    const child = world.createEntity('child').setParent(root);
+
+    expect(() => root.setParent(child)).toThrow();
+    expect(() => root.setParent(root)).toThrow();
+  });
+
+  it('rejects parents in another world', () => {
+    const other = new World().createEntity('other');
+
+    expect(() => world.createEntity('child').setParent(other)).toThrow(/another world/);
+  });
+
+  it('destroys descendants with their parent', () => {
+    const root = world.createEntity('root');
+    const child = world.createEntity('child').setParent(root);
+    world.createEntity('grandchild').setParent(child);
+    const bystander = world.createEntity('bystander');
+
+    root.destroy();
+
+    expect(world.getAllEntities()).toEqual([bystander]);
+  });
+
+  it('unlinks a destroyed child from its parent', () => {
+    const root = world.createEntity('root');
+    const child = world.createEntity('child').setParent(root);
+
+    child.destroy();
+
+    expect(root.getChildren()).toEqual([]);
+  });
+
+  it('keeps the hierarchy through serialization', () => {
+    const root = world.createEntity('root');
+    world.createEntity('child').setParent(root);
+
+    const copy = new World();
+    copy.deserialize(world.serialize());
+
+    const child = copy.getEntityByName('child')!;
+    expect(child.getParent()).toBe(copy.getEntityByName('root'));
+  });
+
+  it('moves Three.js objects with the entity hierarchy', () => {
+    const parentObj = new ThreeObject(new THREE.Vector3(10, 0, 0));
+    const childObj = new ThreeObject(new THREE.Vector3(15, 0, 0));
+    const parent = world.createEntity('parent').addComponent(parentObj);
+    const child = world.createEntity('child').addComponent(childObj);
+
+    child.setParent(parent);
+
+    expect(childObj.object.parent).toBe(parentObj.object);
+    expect(childObj.object.position.x).toBeCloseTo(5);
+
+    child.setParent(null, false);
+
+    expect(childObj.object.parent).not.toBe(parentObj.object);
+    expect(childObj.object.position.x).toBeCloseTo(5);
+  });
+});
@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+import { World } from '../../../src/ecs/World';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+
+describe('ThreeObject interpolation', () => {
+  let world: World;
+  let threeObj: ThreeObject;
+
+  beforeEach(() => {
+    world = new World();
+    threeObj = new ThreeObject(new THREE.Vector3(0, 0, 0));
+    world.createEntity('mover').addComponent(threeObj);
+
+    // Two ticks: from x = 0 to x = 10
+    world.snapshotTransforms();
+    threeObj.object.position.x = 10;
+    world.snapshotTransforms();
+  });
+
+  it('draws objects between their last two tick transforms', () => {
+    world.interpolateTransforms(0.25);
+    expect(threeObj.object.position.x).toBeCloseTo(2.5);
+  });
+
+  it('puts the tick transform back after drawing', () => {
+    world.interpolateTransforms(0.5);
+    world.restoreTransforms();
+    expect(threeObj.object.position.x).toBe(10);
+  });
+
+  it('interpolates rotation and scale', () => {
+    threeObj.object.rotation.y = Math.PI / 2;
+    threeObj.object.scale.set(3, 3, 3);
+    world.snapshotTransforms();
+
+    world.interpolateTransforms(0.5);
+    expect(threeObj.object.scale.x).toBeCloseTo(2);
+    expect(new THREE.Euler().setFromQuaternion(threeObj.object.quaternion).y).toBeCloseTo(Math.PI / 4);
+  });
+
+  it('does not interpolate across a teleport', () => {
+    threeObj.object.position.x = 100;
+    threeObj.teleport();
+    world.snapshotTransforms();
+
+    world.interpolateTransforms(0.5);
+    expect(threeObj.object.position.x).toBe(100);
+  });
+
+  it('skips objects that opt out', () => {
+    threeObj.interpolate = false;
+
+    world.interpolateTransforms(0.5);
+    expect(threeObj.object.position.x).toBe(10);
+  });
+});
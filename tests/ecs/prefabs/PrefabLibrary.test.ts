@@ -0,0 +1,156 @@
+import * as THREE from 'three';
+import { World } from '../../../src/ecs/World';
+import { IEntity } from '../../../src/ecs/types';
+import { PrefabLibrary } from '../../../src/ecs/prefabs/PrefabLibrary';
+import { PrefabDefinition } from '../../../src/ecs/prefabs/PrefabDefinition';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { ConstraintComponent, ConstraintType, TrackToConstraint } from '../../../src/ecs/components/ConstraintComponent';
+import { PrefabInstanceComponent } from '../../../src/ecs/components/PrefabInstanceComponent';
+
+const at = (x: number, y: number = 0, z: number = 0) => ({ ThreeObject: [{ position: { x, y, z } }] });
+
+const position = (entity: IEntity | null | undefined): number[] =>
+  entity!.getComponent(ThreeObject)!.object.position.toArray();
+
+const child = (entity: IEntity, name: string): IEntity | undefined =>
+  entity.getChildren().find(item => item.name === name);
+
+const tower: PrefabDefinition = {
+  name: 'tower',
+  nodes: [
+    { key: 'base', parent: null, name: 'tower', components: at(0) },
+    { key: 'top', parent: 'base', name: 'top', components: at(0, 10) }
+  ]
+};
+
+describe('PrefabLibrary', () => {
+  let world: World;
+  let library: PrefabLibrary;
+
+  beforeEach(() => {
+    world = new World();
+    library = PrefabLibrary.getInstance();
+    library.register(tower);
+  });
+
+  afterEach(() => {
+    ['tower', 'red tower', 'castle', 'loop', 'captured'].forEach(name => library.unregister(name));
+  });
+
+  it('creates the entities of a prefab', () => {
+    const root = library.instantiate('tower', world)!;
+
+    expect(root.name).toBe('tower');
+    expect(position(child(root, 'top'))).toEqual([0, 10, 0]);
+    expect(root.getComponent(PrefabInstanceComponent)!.prefab).toBe('tower');
+  });
+
+  it('returns null for unknown prefabs', () => {
+    expect(library.instantiate('missing', world)).toBeNull();
+  });
+
+  it('applies instance overrides', () => {
+    const root = library.instantiate('tower', world, [
+      { node: 'top', component: 'ThreeObject', property: 'position.y', value: 20 }
+    ])!;
+
+    expect(position(child(root, 'top'))).toEqual([0, 20, 0]);
+  });
+
+  it('builds variants on top of their base', () => {
+    library.register({
+      name: 'red tower',
+      base: 'tower',
+      nodes: [{ key: 'flag', parent: 'top', name: 'flag', components: at(0, 1) }],
+      overrides: [{ node: 'base', component: 'ThreeObject', property: 'position.x', value: 5 }]
+    });
+
+    const root = library.instantiate('red tower', world)!;
+
+    expect(position(root)).toEqual([5, 0, 0]);
+    expect(child(child(root, 'top')!, 'flag')).toBeDefined();
+  });
+
+  it('nests prefabs', () => {
+    library.register({
+      name: 'castle',
+      nodes: [
+        { key: 'keep', parent: null, name: 'castle', components: at(0) },
+        {
+          key: 'left',
+          parent: 'keep',
+          prefab: 'tower',
+          overrides: [{ node: 'base', component: 'ThreeObject', property: 'position.x', value: -10 }]
+        }
+      ]
+    });
+
+    const root = library.instantiate('castle', world)!;
+    const nested = child(root, 'tower')!;
+
+    expect(position(nested)).toEqual([-10, 0, 0]);
+    expect(child(nested, 'top')).toBeDefined();
+  });
+
+  it('rejects variants of themselves', () => {
+    library.register({ name: 'loop', base: 'loop' });
+
+    expect(() => library.instantiate('loop', world)).toThrow(/variant of itself/);
+  });
+
+  it('updates instances and keeps their overrides', () => {
+    const root = library.instantiate('tower', world, [
+      { node: 'base', component: 'ThreeObject', property: 'position.x', value: 3 }
+    ])!;
+    const top = child(root, 'top');
+
+    library.register({
+      ...tower,
+      nodes: [tower.nodes![0], { key: 'top', parent: 'base', name: 'top', components: at(0, 50) }]
+    });
+    expect(library.updateInstances(world, 'tower')).toBe(1);
+
+    expect(child(root, 'top')).toBe(top);
+    expect(position(top)).toEqual([0, 50, 0]);
+    expect(position(root)).toEqual([3, 0, 0]);
+  });
+
+  it('captures edits to an instance as overrides', () => {
+    const lamp = world.createEntity('lamp').addComponent(new ThreeObject());
+    world.createEntity('bulb').addComponent(new ThreeObject()).setParent(lamp);
+    library.createFromEntity(lamp, 'captured');
+
+    const root = library.instantiate('captured', world)!;
+    child(root, 'bulb')!.getComponent(ThreeObject)!.object.position.z = 7;
+
+    const overrides = library.captureOverrides(root);
+
+    expect(overrides).toEqual([{ node: 'bulb', component: 'ThreeObject', property: 'position.z', value: 7 }]);
+  });
+
+  it('creates prefabs from entities, keeping references between them', () => {
+    const root = world.createEntity('turret').addComponent(new ThreeObject(new THREE.Vector3(1, 0, 0)));
+    const target = world.createEntity('target').addComponent(new ThreeObject()).setParent(root);
+    root.addComponent(new ConstraintComponent());
+    root.getComponent(ConstraintComponent)!.createTrackToConstraint(target);
+
+    library.createFromEntity(root, 'captured');
+    const copy = library.instantiate('captured', world)!;
+
+    const constraint = copy.getComponent(ConstraintComponent)!
+      .getConstraintsByType<TrackToConstraint>(ConstraintType.TRACK_TO)[0];
+    expect(world.resolveEntityRef(constraint.target)).toBe(child(copy, 'target'));
+    expect(position(copy)).toEqual([1, 0, 0]);
+  });
+
+  it('ignores overrides of prototype properties', () => {
+    const root = library.instantiate('tower', world, [
+      { node: 'base', component: 'ThreeObject', property: '__proto__.polluted', value: true },
+      { node: 'base', component: 'ThreeObject', property: 'constructor.prototype.polluted', value: true }
+    ])!;
+
+    expect(root).not.toBeNull();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('__proto__.polluted'));
+  });
+});
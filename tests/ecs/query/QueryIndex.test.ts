@@ -0,0 +1,79 @@
+import { World } from '../../../src/ecs/World';
+import { BaseComponent } from '../../../src/ecs/Component';
+
+class Position extends BaseComponent {}
+class Velocity extends BaseComponent {}
+class Frozen extends BaseComponent {}
+
+describe('QueryIndex', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('returns the same cached query for the same filter', () => {
+    const a = world.getQuery({ all: [Position, Velocity] });
+    const b = world.getQuery({ all: [Velocity, Position] });
+
+    expect(a).toBe(b);
+    expect(world.getQuery({ all: [Position] })).not.toBe(a);
+  });
+
+  it('keeps membership up to date as components are added and removed', () => {
+    const query = world.getQuery({ all: [Position, Velocity] });
+    const entity = world.createEntity('mover');
+
+    entity.addComponent(new Position());
+    expect(query.has(entity)).toBe(false);
+
+    entity.addComponent(new Velocity());
+    expect(query.has(entity)).toBe(true);
+    expect(world.query(Position, Velocity)).toEqual([entity]);
+
+    entity.removeComponent(Velocity);
+    expect(query.has(entity)).toBe(false);
+    expect(world.query(Position, Velocity)).toEqual([]);
+  });
+
+  it('includes entities created before the query', () => {
+    const entity = world.createEntity();
+    entity.addComponent(new Position());
+
+    expect(world.getQuery({ all: [Position] }).getEntities()).toEqual([entity]);
+  });
+
+  it('excludes inactive and destroyed entities', () => {
+    const entity = world.createEntity();
+    entity.addComponent(new Position());
+    const query = world.getQuery({ all: [Position] });
+
+    entity.deactivate();
+    expect(query.size).toBe(0);
+
+    entity.activate();
+    expect(query.size).toBe(1);
+
+    world.destroyEntity(entity);
+    expect(query.size).toBe(0);
+  });
+
+  it('orders results by entity ID', () => {
+    const first = world.createEntity();
+    const second = world.createEntity();
+    second.addComponent(new Position());
+    first.addComponent(new Position());
+
+    expect(world.query(Position)).toEqual([first, second]);
+  });
+
+  it('filters by all, any and none', () => {
+    const moving = world.createEntity().addComponent(new Position()).addComponent(new Velocity());
+    const frozen = world.createEntity().addComponent(new Position()).addComponent(new Frozen());
+    const still = world.createEntity().addComponent(new Position());
+    world.createEntity().addComponent(new Velocity());
+
+    expect(world.queryBuilder().all(Position).none(Frozen).entities()).toEqual([moving, still]);
+    expect(world.queryBuilder().all(Position).any(Velocity, Frozen).entities()).toEqual([moving, frozen]);
+  });
+});
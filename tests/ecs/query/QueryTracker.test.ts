@@ -0,0 +1,126 @@
+import { World } from '../../../src/ecs/World';
+import { BaseComponent } from '../../../src/ecs/Component';
+import { System } from '../../../src/ecs/System';
+import { QueryTracker } from '../../../src/ecs/query/QueryTracker';
+
+class Health extends BaseComponent {
+  public value: number = 10;
+
+  public damage(amount: number): void {
+    this.value -= amount;
+    this.markChanged();
+  }
+}
+
+class Tag extends BaseComponent {}
+
+class HealthSystem extends System {
+  public tracker: QueryTracker | null = null;
+  public seen: { added: number; removed: number; changed: number }[] = [];
+
+  protected override onInitialize(): void {
+    this.tracker = this.track({ all: [Health] });
+  }
+
+  protected override onUpdate(): void {
+    this.seen.push({
+      added: this.tracker!.added.size,
+      removed: this.tracker!.removed.size,
+      changed: this.tracker!.changed.size
+    });
+  }
+}
+
+describe('QueryTracker', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+  });
+
+  it('records added, changed and removed entities', () => {
+    const tracker = world.getQuery({ all: [Health] }).track();
+    const entity = world.createEntity().addComponent(new Health());
+
+    expect(tracker.added.has(entity)).toBe(true);
+
+    tracker.clear();
+    entity.getComponent(Health)!.damage(1);
+    expect(tracker.changed.has(entity)).toBe(true);
+    expect(tracker.added.size).toBe(0);
+
+    tracker.clear();
+    entity.removeComponent(Health);
+    expect(tracker.removed.has(entity)).toBe(true);
+    expect(tracker.changed.size).toBe(0);
+  });
+
+  it('only reports changes of watched components', () => {
+    const tracker = world.getQuery({ all: [Health] }).track();
+    const entity = world.createEntity().addComponent(new Health()).addComponent(new Tag());
+    tracker.clear();
+
+    entity.getComponent(Tag)!.markChanged();
+    entity.removeComponent(Tag);
+    expect(tracker.hasChanges()).toBe(false);
+  });
+
+  it('reports watched components added to or removed from a matching entity', () => {
+    const tracker = world.getQuery({ any: [Health, Tag] }).track();
+    const entity = world.createEntity().addComponent(new Health());
+    tracker.clear();
+
+    entity.addComponent(new Tag());
+    expect(tracker.changed.has(entity)).toBe(true);
+
+    tracker.clear();
+    entity.removeComponent(Tag);
+    expect(tracker.changed.has(entity)).toBe(true);
+  });
+
+  it('drops entities added and removed before the tracker was read', () => {
+    const tracker = world.getQuery({ all: [Health] }).track();
+    const entity = world.createEntity().addComponent(new Health());
+    entity.removeComponent(Health);
+
+    expect(tracker.hasChanges()).toBe(false);
+  });
+
+  it('reports an entity that left and came back as changed', () => {
+    const tracker = world.getQuery({ all: [Health] }).track();
+    const entity = world.createEntity().addComponent(new Health());
+    tracker.clear();
+
+    entity.deactivate();
+    entity.activate();
+
+    expect(tracker.added.size).toBe(0);
+    expect(tracker.removed.size).toBe(0);
+    expect(tracker.changed.has(entity)).toBe(true);
+  });
+
+  it('stops recording once disposed', () => {
+    const tracker = world.getQuery({ all: [Health] }).track();
+    tracker.dispose();
+
+    world.createEntity().addComponent(new Health());
+    expect(tracker.hasChanges()).toBe(false);
+  });
+
+  it('is cleared after every update of the owning system', () => {
+    const system = new HealthSystem();
+    world.registerSystem(system);
+
+    const entity = world.createEntity().addComponent(new Health());
+    world.update(0.1);
+    world.update(0.1);
+    entity.getComponent(Health)!.damage(2);
+    world.update(0.1);
+
+    expect(system.seen).toEqual([
+      { added: 1, removed: 0, changed: 0 },
+      { added: 0, removed: 0, changed: 0 },
+      { added: 0, removed: 0, changed: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+import { World } from '../../../src/ecs/World';
+import { IEntity } from '../../../src/ecs/types';
+import { buildScene } from '../../../src/ecs/scenes/SceneBuilder';
+import { SceneDefinition } from '../../../src/ecs/scenes/SceneDefinition';
+import { PrefabLibrary } from '../../../src/ecs/prefabs/PrefabLibrary';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { SceneMemberComponent } from '../../../src/ecs/components/SceneMemberComponent';
+import { ConstraintComponent, ConstraintType, TrackToConstraint } from '../../../src/ecs/components/ConstraintComponent';
+import { SerializationSystem } from '../../../src/ecs/serialization/SerializationSystem';
+
+const at = (x: number, y: number = 0, z: number = 0) => ({ ThreeObject: { position: { x, y, z } } });
+
+const position = (entity: IEntity | null | undefined): number[] =>
+  entity!.getComponent(ThreeObject)!.object.position.toArray();
+
+const trackTo = (target: string) => ({
+  constraints: [{
+    type: ConstraintType.TRACK_TO,
+    enabled: true,
+    priority: 0,
+    influence: 1,
+    target: { $entity: target },
+    trackAxis: { x: 0, y: 0, z: -1 },
+    upAxis: { x: 0, y: 1, z: 0 },
+    offset: { x: 0, y: 0, z: 0, order: 'XYZ' }
+  }]
+});
+
+const trackedEntity = (world: World, entity: IEntity | null) => {
+  const constraint = entity!.getComponent(ConstraintComponent)!
+    .getConstraintsByType<TrackToConstraint>(ConstraintType.TRACK_TO)[0];
+  return world.resolveEntityRef(constraint.target);
+};
+
+describe('SceneBuilder', () => {
+  let world: World;
+
+  beforeEach(() => {
+    world = new World();
+    PrefabLibrary.getInstance().register({
+      name: 'lamp',
+      nodes: [
+        { key: 'post', parent: null, name: 'lamp', components: { ThreeObject: [{ position: { x: 0, y: 0, z: 0 } }] } },
+        { key: 'bulb', parent: 'post', name: 'bulb', components: { ThreeObject: [{ position: { x: 0, y: 3, z: 0 } }] } }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    PrefabLibrary.getInstance().unregister('lamp');
+  });
+
+  it('creates the entities with their children', () => {
+    const definition: SceneDefinition = {
+      name: 'garden',
+      entities: [
+        { name: 'tree', components: at(1, 0, 2), children: [{ name: 'apple', components: at(0, 2) }] },
+        { name: 'hidden', active: false }
+      ]
+    };
+
+    const roots = buildScene(definition, world);
+
+    expect(roots.map(entity => entity.name)).toEqual(['tree', 'hidden']);
+    expect(position(world.getEntityByName('tree'))).toEqual([1, 0, 2]);
+    expect(world.getEntityByName('apple')!.getParent()).toBe(roots[0]);
+    expect(world.getEntityByName('hidden')!.active).toBe(false);
+  });
+
+  it('resolves references by name, also to later entities', () => {
+    buildScene({
+      name: 'garden',
+      entities: [
+        { name: 'camera', components: { ThreeObject: {}, ConstraintComponent: trackTo('tree') } },
+        { name: 'tree', components: at(5) }
+      ]
+    }, world);
+
+    expect(trackedEntity(world, world.getEntityByName('camera'))).toBe(world.getEntityByName('tree'));
+  });
+
+  it('drops references to unknown names', () => {
+    buildScene({
+      name: 'garden',
+      entities: [{ name: 'camera', components: { ThreeObject: {}, ConstraintComponent: trackTo('nothing') } }]
+    }, world);
+
+    expect(trackedEntity(world, world.getEntityByName('camera'))).toBeNull();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('nothing'));
+  });
+
+  it('instantiates prefabs with their overrides and components', () => {
+    buildScene({
+      name: 'garden',
+      entities: [{
+        name: 'path',
+        children: [{
+          name: 'left lamp',
+          prefab: 'lamp',
+          overrides: [{ node: 'bulb', component: 'ThreeObject', property: 'position.y', value: 4 }],
+          components: at(-2)
+        }]
+      }, {
+        name: 'camera',
+        components: { ThreeObject: {}, ConstraintComponent: trackTo('left lamp') }
+      }]
+    }, world);
+
+    const lamp = world.getEntityByName('left lamp')!;
+    expect(lamp.getParent()).toBe(world.getEntityByName('path'));
+    expect(position(lamp)).toEqual([-2, 0, 0]);
+    expect(position(lamp.getChildren()[0])).toEqual([0, 4, 0]);
+    expect(trackedEntity(world, world.getEntityByName('camera'))).toBe(lamp);
+  });
+
+  it('tags all created entities with the scene ID', () => {
+    buildScene({
+      name: 'garden',
+      entities: [{ name: 'tree', children: [{ name: 'lamp', prefab: 'lamp' }] }]
+    }, world, { sceneId: 'garden' });
+
+    expect(world.getAllEntities()).toHaveLength(3);
+    expect(world.getAllEntities().every(entity => entity.getComponent(SceneMemberComponent)?.sceneId === 'garden'))
+      .toBe(true);
+  });
+
+  it('can be unloaded through the serialization system', () => {
+    const serializer = new SerializationSystem();
+    world.registerSystem(serializer);
+    const definition: SceneDefinition = { name: 'garden', entities: [{ name: 'lamp', prefab: 'lamp' }] };
+
+    expect(serializer.buildScene(definition)).toBe('garden');
+    expect(serializer.buildScene(definition)).toBe('garden_2');
+    expect(serializer.buildScene(definition, 'garden')).toBeNull();
+
+    serializer.unloadScene('garden');
+
+    expect(serializer.getLoadedScenes()).toEqual(['garden_2']);
+    expect(world.getAllEntities()).toHaveLength(2);
+  });
+});
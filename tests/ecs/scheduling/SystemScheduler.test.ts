@@ -0,0 +1,78 @@
+import { World } from '../../../src/ecs/World';
+import { System } from '../../../src/ecs/System';
+import { SystemPhase, scheduleSystems } from '../../../src/ecs/scheduling/SystemScheduler';
+import { RunConditions } from '../../../src/ecs/scheduling/RunConditions';
+
+const log: string[] = [];
+
+abstract class LoggingSystem extends System {
+  protected override onUpdate(): void {
+    log.push(this.constructor.name);
+  }
+}
+
+class Input extends LoggingSystem {}
+class Movement extends LoggingSystem {}
+class Collision extends LoggingSystem {}
+class Camera extends LoggingSystem {}
+
+describe('SystemScheduler', () => {
+  beforeEach(() => {
+    log.length = 0;
+  });
+
+  it('runs phases in order regardless of priority', () => {
+    const camera = new Camera(1000, SystemPhase.PRE_RENDER);
+    const movement = new Movement(0, SystemPhase.UPDATE);
+    const input = new Input(-10, SystemPhase.PRE_UPDATE);
+
+    expect(scheduleSystems([camera, movement, input])).toEqual([input, movement, camera]);
+  });
+
+  it('orders a phase by priority, then registration order', () => {
+    const low = new Input(0);
+    const high = new Movement(5);
+    const alsoLow = new Collision(0);
+
+    expect(scheduleSystems([low, high, alsoLow])).toEqual([high, low, alsoLow]);
+  });
+
+  it('honours before and after constraints over priority', () => {
+    const movement = new Movement(0);
+    const collision = new Collision(100).runAfter(Movement);
+    const input = new Input(-5).runBefore(Movement);
+
+    expect(scheduleSystems([movement, collision, input])).toEqual([input, movement, collision]);
+  });
+
+  it('ignores constraints on systems that are not registered', () => {
+    const movement = new Movement(0).runAfter(Camera);
+
+    expect(scheduleSystems([movement])).toEqual([movement]);
+  });
+
+  it('reports dependency cycles', () => {
+    const movement = new Movement().runAfter(Collision);
+    const collision = new Collision().runAfter(Movement);
+
+    expect(() => scheduleSystems([movement, collision])).toThrow(/cycle/);
+  });
+
+  it('rejects constraints that contradict the phase order', () => {
+    const camera = new Camera(0, SystemPhase.PRE_RENDER).runBefore(Movement);
+
+    expect(() => scheduleSystems([camera, new Movement()])).toThrow(/phase order/);
+  });
+
+  it('skips systems whose run conditions fail', () => {
+    const world = new World();
+    world.registerSystem(new Movement().runIf(RunConditions.unpaused()));
+    world.registerSystem(new Input());
+
+    world.update(0.1);
+    world.setPaused(true);
+    world.update(0.1);
+
+    expect(log).toEqual(['Movement', 'Input', 'Input']);
+  });
+});
@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { World } from '../../../src/ecs/World';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { SerializationSystem } from '../../../src/ecs/serialization/SerializationSystem';
+import { SerializationFormat } from '../../../src/ecs/serialization/SaveFormat';
+import { decodeBinary, encodeBinary, isBinaryData } from '../../../src/ecs/serialization/BinaryFormat';
+
+/**
+ * Decode the encoding of a value, to compare with a JSON round trip
+ */
+const roundTrip = (value: unknown): unknown => decodeBinary(encodeBinary(value));
+const jsonRoundTrip = (value: unknown): unknown => JSON.parse(JSON.stringify(value));
+
+/**
+ * Create a world with a number of named 3D objects in a hierarchy
+ */
+function createWorld(entityCount: number): World {
+  const world = new World();
+  let parent = null;
+
+  for (let i = 0; i < entityCount; i++) {
+    const entity = world.createEntity(`entity_${i}`)
+      .addComponent(new ThreeObject(new THREE.Vector3(i, i * 0.5, -i)));
+
+    // Groups of ten under a common parent
+    if (i % 10 === 0) {
+      parent = entity;
+    } else {
+      entity.setParent(parent);
+    }
+  }
+
+  return world;
+}
+
+/**
+ * Entities by name with their parent's name and components, independent of entity IDs
+ */
+function describeEntities(world: World): unknown[] {
+  return world.getAllEntities().map(entity => {
+    const parent = entity.getParent();
+    const { components } = entity.serialize() as { components: unknown };
+    return { name: entity.name, parent: parent ? parent.name : null, components };
+  });
+}
+
+describe('BinaryFormat', () => {
+  it('round trips like JSON', () => {
+    const values = [
+      null,
+      true,
+      0,
+      -1,
+      127,
+      -65536,
+      Number.MAX_SAFE_INTEGER,
+      Number.MIN_SAFE_INTEGER,
+      0.1,
+      -1e300,
+      '',
+      'héllo 🌍',
+      [1, 'two', [3], { four: 4 }],
+      { nested: { deeply: { value: [null, false] } }, repeated: 'repeated' },
+    ];
+
+    for (const value of values) {
+      expect(roundTrip(value)).toEqual(jsonRoundTrip(value));
+    }
+  });
+
+  it('converts values JSON can not represent like JSON does', () => {
+    const value = {
+      missing: undefined,
+      fn: () => 1,
+      list: [undefined, () => 1, NaN, Infinity],
+      negativeZero: -0
+    };
+
+    expect(roundTrip(value)).toStrictEqual(jsonRoundTrip(value));
+  });
+
+  it('keeps integers beyond the zigzag range exact', () => {
+    const values = [2 ** 52, -(2 ** 52) - 1, Number.MAX_SAFE_INTEGER, -Number.MAX_SAFE_INTEGER, 2 ** 60];
+
+    expect(roundTrip(values)).toEqual(values);
+  });
+
+  it('round trips a serialized world like JSON', () => {
+    const data = createWorld(50).serialize();
+
+    expect(roundTrip(data)).toEqual(jsonRoundTrip(data));
+  });
+
+  it('loads a world saved in binary', () => {
+    const world = createWorld(20);
+    const serializer = new SerializationSystem(0, SerializationFormat.BINARY);
+    world.registerSystem(serializer);
+
+    const saved = serializer.saveWorld() as Uint8Array;
+    expect(saved instanceof Uint8Array && isBinaryData(saved)).toBe(true);
+
+    const copy = new World();
+    const copySerializer = new SerializationSystem();
+    copy.registerSystem(copySerializer);
+
+    expect(copySerializer.loadWorld(saved)).toBe(true);
+    expect(describeEntities(copy)).toEqual(jsonRoundTrip(describeEntities(world)));
+  });
+
+  it('round trips keys that name prototypes like JSON', () => {
+    const value = JSON.parse('{"__proto__": {"polluted": true}, "constructor": 1, "nested": {"prototype": 2}}');
+
+    const decoded = roundTrip(value) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    expect(Object.keys(decoded)).toEqual(['__proto__', 'constructor', 'nested']);
+    expect(decoded).toEqual(jsonRoundTrip(value));
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('returns null when saving data that can not be encoded', () => {
+    const world = createWorld(1);
+    const serializer = new SerializationSystem(0, SerializationFormat.BINARY);
+    world.registerSystem(serializer);
+    jest.spyOn(world, 'serialize').mockReturnValue({ entities: [BigInt(1)] });
+
+    expect(serializer.saveWorld()).toBeNull();
+    expect(console.error).toHaveBeenCalledWith('Error saving world:', expect.any(Error));
+  });
+
+  it('rejects data that is not binary or is cut off', () => {
+    const bytes = encodeBinary({ key: 'value' });
+
+    expect(() => decodeBinary(new TextEncoder().encode('{}'))).toThrow(/Not binary/);
+    expect(() => decodeBinary(bytes.subarray(0, bytes.length - 1))).toThrow(/end of binary data/);
+  });
+
+  describe('benchmark', () => {
+    it('is much smaller than JSON and at most a few times slower', () => {
+      const data = createWorld(2000).serialize();
+      const iterations = 5;
+
+      const time = (run: () => void): number => {
+        const start = performance.now();
+        for (let i = 0; i < iterations; i++) run();
+        return (performance.now() - start) / iterations;
+      };
+
+      // Also warms up both codecs before timing
+      const json = JSON.stringify(data);
+      const binary = encodeBinary(data);
+      const jsonSize = new TextEncoder().encode(json).length;
+      expect(decodeBinary(binary)).toEqual(JSON.parse(json));
+
+      const jsonTime = time(() => JSON.parse(JSON.stringify(data)));
+      const binaryTime = time(() => decodeBinary(encodeBinary(data)));
+
+      expect(binary.length).toBeLessThan(jsonSize * 0.6);
+      // Native JSON is faster; the bound is loose so slow machines don't fail it
+      expect(binaryTime).toBeLessThan(jsonTime * 10);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { World } from '../../../src/ecs/World';
+import { MigrationRegistry } from '../../../src/ecs/serialization/MigrationRegistry';
+import { SAVE_FORMAT_VERSION, SaveFile, SerializedWorld } from '../../../src/ecs/serialization/SaveFormat';
+import { ConstraintComponent, ConstraintType, TrackToConstraint } from '../../../src/ecs/components/ConstraintComponent';
+
+describe('MigrationRegistry', () => {
+  let world: World;
+  let migrations: MigrationRegistry;
+
+  const migrate = (file: SaveFile): SerializedWorld =>
+    migrations.migrate(file, typeId => world.getComponentVersion(typeId));
+
+  beforeEach(() => {
+    world = new World();
+    migrations = MigrationRegistry.getInstance();
+  });
+
+  describe('save format 1', () => {
+    const v1File = (entities: unknown[]): SaveFile => ({ data: { entities } } as unknown as SaveFile);
+
+    it('keys components by type id and upgrades them to the current version', () => {
+      const data = migrate(v1File([
+        { id: 1, name: 'mesh', active: true, components: { MeshComponent: [{ hasSkeleton: true }] } }
+      ]));
+
+      const entity = data.entities[0] as { components: Record<string, unknown[]> };
+      expect(entity.components.MeshComponent[0]).toEqual({ model: null, skeleton: null });
+      expect(data.componentVersions).toEqual({ MeshComponent: world.getComponentVersion('MeshComponent') });
+    });
+
+    it('drops components keyed by unknown class names', () => {
+      const data = migrate(v1File([
+        { id: 1, name: 'minified', active: true, components: { t: [{}], CameraComponent: [{}] } }
+      ]));
+
+      const entity = data.entities[0] as { components: Record<string, unknown[]> };
+      expect(Object.keys(entity.components)).toEqual(['CameraComponent']);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('version 1: t'));
+    });
+
+    it('turns ThreeObject childrenIds into parent IDs', () => {
+      const data = migrate(v1File([
+        { id: 1, name: 'parent', active: true, components: { ThreeObject: [{ name: '', visible: true, childrenIds: [2] }] } },
+        { id: 2, name: 'child', active: true, components: { ThreeObject: [{ name: '', visible: true, childrenIds: [] }] } }
+      ]));
+
+      const [parent, child] = data.entities as Array<Record<string, any>>;
+      expect(parent.parentId).toBeNull();
+      expect(child.parentId).toBe(1);
+      expect(parent.components.ThreeObject[0]).not.toHaveProperty('childrenIds');
+
+      world.deserialize(data);
+      expect(world.getEntityByName('child')!.getParent()).toBe(world.getEntityByName('parent'));
+    });
+
+    it('turns constraint entity IDs into references', () => {
+      const data = migrate(v1File([
+        { id: 1, name: 'target', active: true, components: {} },
+        {
+          id: 2,
+          name: 'follower',
+          active: true,
+          components: {
+            ThreeObject: [{ name: '', visible: true, childrenIds: [] }],
+            ConstraintComponent: [{
+              constraints: [{
+                type: ConstraintType.TRACK_TO,
+                enabled: true,
+                priority: 0,
+                influence: 1,
+                targetEntityId: 1,
+                trackAxis: { x: 0, y: 0, z: -1 },
+                upAxis: { x: 0, y: 1, z: 0 },
+                offset: { x: 0, y: 0, z: 0, order: 'XYZ' }
+              }]
+            }]
+          }
+        }
+      ]));
+
+      world.deserialize(data);
+
+      const follower = world.getEntityByName('follower')!;
+      const constraint = follower.getComponent(ConstraintComponent)!
+        .getConstraintsByType<TrackToConstraint>(ConstraintType.TRACK_TO)[0];
+      expect(world.resolveEntityRef(constraint.target)).toBe(world.getEntityByName('target'));
+    });
+  });
+
+  it('rejects files from newer builds', () => {
+    expect(() => migrate({ formatVersion: SAVE_FORMAT_VERSION + 1, data: { entities: [] } })).toThrow(/newer/);
+  });
+
+  it('rejects component data from newer builds', () => {
+    expect(() => migrations.migrateComponent('CameraComponent', {}, 2, 1)).toThrow(/newer/);
+  });
+
+  it('fails when a component migration is missing', () => {
+    expect(() => migrations.migrateComponent('Unmigrated', {}, 1, 2)).toThrow(/No migration/);
+  });
+
+  it('runs component migrations one version at a time', () => {
+    migrations.registerComponentMigration('Counter', 1, data => ({ ...data, steps: ['1 to 2'] }));
+    migrations.registerComponentMigration('Counter', 2, data => ({
+      ...data,
+      steps: [...(data.steps as string[]), '2 to 3']
+    }));
+
+    expect(migrations.migrateComponent('Counter', {}, 1, 3)).toEqual({ steps: ['1 to 2', '2 to 3'] });
+  });
+});
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { World } from '../../../src/ecs/World';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { ConstraintComponent, ConstraintType, TrackToConstraint } from '../../../src/ecs/components/ConstraintComponent';
+import { NameCollision, SerializationSystem } from '../../../src/ecs/serialization/SerializationSystem';
+
+/**
+ * Save a small scene: a door with a handle, and a camera tracking the door
+ */
+function createScene(): string {
+  const world = new World();
+  const serializer = new SerializationSystem();
+  world.registerSystem(serializer);
+
+  const door = world.createEntity('door').addComponent(new ThreeObject(new THREE.Vector3(1, 0, 0)));
+  world.createEntity('handle').addComponent(new ThreeObject()).setParent(door);
+
+  const camera = world.createEntity('camera').addComponent(new ThreeObject());
+  camera.addComponent(new ConstraintComponent());
+  camera.getComponent(ConstraintComponent)!.createTrackToConstraint(door);
+
+  return serializer.saveScene('room') as string;
+}
+
+const trackedEntity = (world: World, camera: string) => {
+  const constraint = world.getEntityByName(camera)!.getComponent(ConstraintComponent)!
+    .getConstraintsByType<TrackToConstraint>(ConstraintType.TRACK_TO)[0];
+  return world.resolveEntityRef(constraint.target);
+};
+
+describe('SerializationSystem scenes', () => {
+  let world: World;
+  let serializer: SerializationSystem;
+  let scene: string;
+
+  beforeEach(() => {
+    scene = createScene();
+    world = new World();
+    serializer = new SerializationSystem();
+    world.registerSystem(serializer);
+  });
+
+  describe('loadScene', () => {
+    it('replaces the entities and keeps the systems', () => {
+      world.createEntity('leftover');
+
+      expect(serializer.loadScene(scene)).toBe(true);
+
+      expect(world.getAllEntities().map(entity => entity.name).sort()).toEqual(['camera', 'door', 'handle']);
+      expect(world.getSystem(SerializationSystem)).toBe(serializer);
+      expect(trackedEntity(world, 'camera')).toBe(world.getEntityByName('door'));
+    });
+  });
+
+  describe('loadSceneAdditive', () => {
+    it('adds the entities next to the existing ones with new IDs', () => {
+      const player = world.createEntity('player');
+
+      expect(serializer.loadSceneAdditive(scene)).toBe('room');
+
+      expect(world.getEntityByName('player')).toBe(player);
+      expect(world.getAllEntities()).toHaveLength(4);
+      expect(world.getEntityByName('handle')!.getParent()).toBe(world.getEntityByName('door'));
+      expect(trackedEntity(world, 'camera')).toBe(world.getEntityByName('door'));
+      expect(serializer.getEntityScene(world.getEntityByName('door')!)).toBe('room');
+      expect(serializer.getEntityScene(player)).toBeNull();
+    });
+
+    it('loads a scene again under a new ID with renamed entities', () => {
+      serializer.loadSceneAdditive(scene);
+
+      expect(serializer.loadSceneAdditive(scene)).toBe('room_2');
+
+      expect(serializer.getLoadedScenes()).toEqual(['room', 'room_2']);
+      expect(serializer.getSceneEntities('room_2').map(entity => entity.name).sort())
+        .toEqual(['camera_2', 'door_2', 'handle_2']);
+      expect(trackedEntity(world, 'camera_2')).toBe(world.getEntityByName('door_2'));
+      expect(trackedEntity(world, 'camera')).toBe(world.getEntityByName('door'));
+    });
+
+    it('keeps colliding names when told to', () => {
+      serializer.loadSceneAdditive(scene);
+      const first = world.getEntityByName('door');
+
+      serializer.loadSceneAdditive(scene, { nameCollision: NameCollision.KEEP });
+
+      const door = world.getEntityByName('door');
+      expect(door).not.toBe(first);
+      expect(serializer.getEntityScene(door!)).toBe('room_2');
+    });
+
+    it('refuses to load a scene under an ID that is in use', () => {
+      serializer.loadSceneAdditive(scene, { sceneId: 'level' });
+
+      expect(serializer.loadSceneAdditive(scene, { sceneId: 'level' })).toBeNull();
+      expect(world.getAllEntities()).toHaveLength(3);
+    });
+  });
+
+  describe('unloadScene', () => {
+    it('destroys the entities of the scene only', () => {
+      const player = world.createEntity('player');
+      serializer.loadSceneAdditive(scene);
+      serializer.loadSceneAdditive(scene);
+
+      expect(serializer.unloadScene('room')).toBe(true);
+
+      expect(world.getAllEntities()).toHaveLength(4);
+      expect(world.getEntityByName('player')).toBe(player);
+      expect(world.getEntityByName('door')).toBeNull();
+      expect(serializer.getLoadedScenes()).toEqual(['room_2']);
+      expect(serializer.getSceneEntities('room')).toEqual([]);
+    });
+
+    it('destroys children added to the scene\'s entities', () => {
+      serializer.loadSceneAdditive(scene);
+      const extra = world.createEntity('extra').setParent(world.getEntityByName('handle'));
+
+      serializer.unloadScene('room');
+
+      expect(world.getEntity(extra.id)).toBeNull();
+    });
+
+    it('returns false for scenes that are not loaded', () => {
+      expect(serializer.unloadScene('room')).toBe(false);
+    });
+  });
+});
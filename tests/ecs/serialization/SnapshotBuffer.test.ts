@@ -0,0 +1,161 @@
+import * as THREE from 'three';
+import { World } from '../../../src/ecs/World';
+import { IEntity } from '../../../src/ecs/types';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { LightComponent } from '../../../src/ecs/components/LightComponent';
+import { CameraComponent } from '../../../src/ecs/components/CameraComponent';
+import { SnapshotBuffer } from '../../../src/ecs/serialization/SnapshotBuffer';
+
+const position = (entity: IEntity | null): number[] =>
+  entity!.getComponent(ThreeObject)!.object.position.toArray();
+
+const move = (entity: IEntity, x: number): void => {
+  entity.getComponent(ThreeObject)!.object.position.x = x;
+};
+
+describe('SnapshotBuffer', () => {
+  let world: World;
+  let player: IEntity;
+  let buffer: SnapshotBuffer;
+
+  beforeEach(() => {
+    world = new World();
+    player = world.createEntity('player').addComponent(new ThreeObject(new THREE.Vector3(1, 0, 0)));
+    buffer = new SnapshotBuffer(world, 10, 3);
+  });
+
+  afterEach(() => {
+    buffer.dispose();
+  });
+
+  it('restores recorded ticks', () => {
+    buffer.record(0);
+    move(player, 2);
+    buffer.record(1);
+    move(player, 3);
+    buffer.record(2);
+
+    expect(buffer.restore(1)).toBe(true);
+    expect(position(player)).toEqual([2, 0, 0]);
+
+    expect(buffer.restore(0)).toBe(true);
+    expect(world.getEntityByName('player')).toBe(player);
+    expect(position(player)).toEqual([1, 0, 0]);
+
+    expect(buffer.restore(5)).toBe(false);
+  });
+
+  it('restores created and destroyed entities', () => {
+    const enemy = world.createEntity('enemy').addComponent(new ThreeObject(new THREE.Vector3(5, 0, 0)));
+    buffer.record(0);
+
+    world.destroyEntity(enemy);
+    world.createEntity('coin');
+    buffer.record(1);
+
+    buffer.restore(0);
+
+    expect(world.getAllEntities().map(entity => entity.name).sort()).toEqual(['enemy', 'player']);
+    expect(position(world.getEntityByName('enemy'))).toEqual([5, 0, 0]);
+  });
+
+  it('matches the serialized world at every tick', () => {
+    const light = world.createEntity('light').addComponent(new ThreeObject()).addComponent(new LightComponent());
+    const expected = [];
+
+    for (let tick = 0; tick < 8; tick++) {
+      move(player, tick);
+      if (tick % 3 === 0) {
+        light.getComponent(LightComponent)!.setIntensity(tick);
+      }
+      if (tick === 5) {
+        player.active = false;
+      }
+
+      buffer.record(tick);
+      expected.push(JSON.parse(JSON.stringify(world.serialize().entities)));
+    }
+
+    for (let tick = 0; tick < 8; tick++) {
+      expect(buffer.getSnapshot(tick)!.entities).toEqual(expected[tick]);
+    }
+  });
+
+  it('only serializes components that report their changes when they changed', () => {
+    const entity = world.createEntity('camera').addComponent(new ThreeObject()).addComponent(new CameraComponent());
+    const camera = entity.getComponent(CameraComponent)!;
+    buffer.record(0);
+
+    const serialize = jest.spyOn(camera, 'serialize');
+    const serializeObject = jest.spyOn(entity.getComponent(ThreeObject)!, 'serialize');
+    buffer.record(1);
+
+    expect(serialize).not.toHaveBeenCalled();
+    expect(serializeObject).toHaveBeenCalled();
+
+    camera.setFov(40);
+    buffer.record(2);
+
+    expect(serialize).toHaveBeenCalledTimes(1);
+    const [, cameraData] = buffer.getSnapshot(2)!.entities as Array<{ components: Record<string, Array<Record<string, unknown>>> }>;
+    expect(cameraData.components.CameraComponent[0].fov).toBe(40);
+  });
+
+  it('captures public fields written without markChanged', () => {
+    const light = world.createEntity('light').addComponent(new ThreeObject()).addComponent(new LightComponent())
+      .getComponent(LightComponent)!;
+    buffer.record(0);
+
+    light.intensity = 5;
+    buffer.record(1);
+    light.intensity = 9;
+    buffer.restore(1);
+
+    expect(light.intensity).toBe(5);
+  });
+
+  it('captures changes made by restoring', () => {
+    const light = world.createEntity('light').addComponent(new ThreeObject()).addComponent(new LightComponent());
+    buffer.record(0);
+    light.getComponent(LightComponent)!.setIntensity(4);
+    buffer.record(1);
+
+    buffer.restore(0);
+    buffer.record(1);
+
+    expect(buffer.getSnapshot(1)).toEqual(buffer.getSnapshot(0));
+  });
+
+  it('drops the oldest snapshots once full', () => {
+    for (let tick = 0; tick < 15; tick++) {
+      move(player, tick);
+      buffer.record(tick);
+    }
+
+    expect(buffer.size).toBe(10);
+    expect(buffer.getOldestTick()).toBe(5);
+    expect(buffer.getNewestTick()).toBe(14);
+
+    buffer.restore(5);
+    expect(position(player)).toEqual([5, 0, 0]);
+  });
+
+  it('replaces the snapshots after a restored tick when recording', () => {
+    for (let tick = 0; tick < 5; tick++) {
+      move(player, tick);
+      buffer.record(tick);
+    }
+
+    buffer.restore(2);
+    move(player, 20);
+    buffer.record(3);
+
+    expect(buffer.getTicks()).toEqual([0, 1, 2, 3]);
+    buffer.restore(3);
+    expect(position(player)).toEqual([20, 0, 0]);
+  });
+
+  it('rejects a capacity below one', () => {
+    expect(() => new SnapshotBuffer(world, 0)).toThrow(/at least 1/);
+  });
+});
@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { World } from '../../../src/ecs/World';
+import { Component, ComponentClass, IEntity } from '../../../src/ecs/types';
+import { isEntityRef } from '../../../src/ecs/EntityRef';
+import { SerializedWorld } from '../../../src/ecs/serialization/SaveFormat';
+import { WorldPatch, isEmptyPatch } from '../../../src/ecs/serialization/WorldPatch';
+import { ThreeObject } from '../../../src/ecs/components/ThreeObject';
+import { MeshComponent } from '../../../src/ecs/components/MeshComponent';
+import { MaterialComponent } from '../../../src/ecs/components/MaterialComponent';
+import { CameraComponent } from '../../../src/ecs/components/CameraComponent';
+import { AnimationComponent } from '../../../src/ecs/components/AnimationComponent';
+import { ConstraintComponent } from '../../../src/ecs/components/ConstraintComponent';
+import { CurveComponent } from '../../../src/ecs/components/CurveComponent';
+import { LightComponent } from '../../../src/ecs/components/LightComponent';
+import { PrefabInstanceComponent } from '../../../src/ecs/components/PrefabInstanceComponent';
+import { SceneMemberComponent } from '../../../src/ecs/components/SceneMemberComponent';
+import { ShaderMaterialComponent } from '../../../src/ecs/components/ShaderMaterialComponent';
+
+const BUILTIN_TYPE_IDS = [
+  'ThreeObject', 'MeshComponent', 'MaterialComponent', 'CameraComponent', 'AnimationComponent',
+  'ConstraintComponent', 'CurveComponent', 'LightComponent', 'PrefabInstance', 'SceneMember', 'ShaderMaterial'
+];
+
+const jsonRoundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keeps a replica world in sync with a source world through patches, like a network client
+ */
+class Replica {
+  public readonly world: World = new World();
+  private previous: SerializedWorld = { entities: [] };
+  private sourceIds: Map<number, number> = new Map();
+
+  constructor(private source: World) {}
+
+  /**
+   * Send the changes of the source since the last sync
+   */
+  public sync(): WorldPatch {
+    const next = jsonRoundTrip(this.source.serialize());
+    const patch = jsonRoundTrip(World.diff(this.previous, next));
+
+    this.world.applyPatch(patch).forEach((entity, id) => this.sourceIds.set(entity.id, id));
+    this.previous = next;
+    return patch;
+  }
+
+  /**
+   * The serialized replica, with the IDs of the source
+   */
+  public describe(): unknown[] {
+    const toSource = (id: unknown) => typeof id === 'number' && this.sourceIds.has(id) ? this.sourceIds.get(id) : id;
+    const visit = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(visit);
+      if (typeof value !== 'object' || value === null) return value;
+      if (isEntityRef(value)) return { ...value, id: toSource(value.id) };
+
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item)]));
+    };
+
+    return sortById(jsonRoundTrip(this.world.serialize()).entities.map(entityData => {
+      const { id, parentId, components, ...rest } = entityData as Record<string, unknown>;
+      return { id: toSource(id), ...rest, parentId: toSource(parentId), components: visit(components) };
+    }));
+  }
+}
+
+const sortById = (entities: unknown[]): unknown[] =>
+  [...entities].sort((a, b) => (a as { id: number }).id - (b as { id: number }).id);
+
+const serializedEntities = (world: World): unknown[] => sortById(jsonRoundTrip(world.serialize()).entities);
+
+/**
+ * Create an entity with a 3D object and another component
+ */
+function withObject(world: World, name: string, ...components: Component[]): IEntity {
+  const entity = world.createEntity(name).addComponent(new ThreeObject());
+  components.forEach(component => entity.addComponent(component));
+  return entity;
+}
+
+describe('World.diff and applyPatch', () => {
+  let source: World;
+  let replica: Replica;
+
+  beforeEach(() => {
+    source = new World();
+    replica = new Replica(source);
+  });
+
+  it('turns the old world into the new one for every built-in component', () => {
+    const target = withObject(source, 'target');
+    const entities = {
+      object: target,
+      mesh: withObject(source, 'mesh', new MeshComponent()),
+      material: withObject(source, 'material', new MeshComponent(), new MaterialComponent()),
+      camera: withObject(source, 'camera', new CameraComponent()),
+      animation: withObject(source, 'animation', new AnimationComponent()),
+      constraint: withObject(source, 'constraint', new ConstraintComponent()),
+      curve: withObject(source, 'curve', new CurveComponent([new THREE.Vector3(0, 0, 0), new THREE.Vector3(1, 0, 0)])),
+      light: withObject(source, 'light', new LightComponent()),
+      prefab: withObject(source, 'prefab', new PrefabInstanceComponent('tower')),
+      scene: withObject(source, 'scene', new SceneMemberComponent('level')),
+      shader: withObject(source, 'shader', new ShaderMaterialComponent())
+    };
+
+    const typeIds = new Set(source.getAllEntities().flatMap(entity =>
+      entity.getAllComponents().map(component => source.getComponentTypeId(component.constructor as ComponentClass))
+    ));
+    expect(Array.from(typeIds).sort()).toEqual([...BUILTIN_TYPE_IDS].sort());
+
+    replica.sync();
+    expect(replica.describe()).toEqual(serializedEntities(source));
+
+    entities.object.getComponent(ThreeObject)!.object.position.set(1, 2, 3);
+    entities.mesh.getComponent(MeshComponent)!.setCastShadow(true);
+    entities.material.getComponent(MaterialComponent)!.setColor(0xff0000);
+    entities.camera.getComponent(CameraComponent)!.setFov(40);
+    entities.animation.getComponent(AnimationComponent)!.playbackSpeed = 2;
+    entities.constraint.getComponent(ConstraintComponent)!.createTrackToConstraint(target);
+    entities.curve.getComponent(CurveComponent)!.addPoint(new THREE.Vector3(2, 1, 0));
+    entities.light.getComponent(LightComponent)!.setIntensity(3);
+    entities.prefab.getComponent(PrefabInstanceComponent)!.overrides.push(
+      { node: 'base', component: 'ThreeObject', property: 'position.x', value: 1 }
+    );
+    entities.scene.getComponent(SceneMemberComponent)!.sceneId = 'other level';
+    entities.shader.getComponent(ShaderMaterialComponent)!.setTransparent(true);
+
+    const patch = replica.sync();
+
+    expect(patch.added).toEqual([]);
+    expect(patch.changed).toHaveLength(Object.keys(entities).length);
+    expect(replica.describe()).toEqual(serializedEntities(source));
+    expect(isEmptyPatch(World.diff(source.serialize(), source.serialize()))).toBe(true);
+  });
+
+  it('removes entities and moves their remaining children', () => {
+    const parent = withObject(source, 'parent');
+    const child = withObject(source, 'child').setParent(parent);
+    withObject(source, 'grandchild').setParent(child);
+    replica.sync();
+
+    child.setParent(null);
+    source.destroyEntity(parent);
+    replica.sync();
+
+    expect(replica.describe()).toEqual(serializedEntities(source));
+    expect(replica.world.getEntityByName('grandchild')!.getParent()).toBe(replica.world.getEntityByName('child'));
+  });
+
+  it('addresses entities added by earlier patches', () => {
+    const camera = withObject(source, 'camera', new ConstraintComponent());
+    replica.sync();
+
+    // Added now, changed and referenced by later patches
+    const target = withObject(source, 'target');
+    replica.sync();
+
+    target.getComponent(ThreeObject)!.object.position.x = 5;
+    source.renameEntity(target, 'moved target');
+    camera.getComponent(ConstraintComponent)!.createTrackToConstraint(target);
+    withObject(source, 'child').setParent(target);
+    replica.sync();
+
+    expect(replica.describe()).toEqual(serializedEntities(source));
+    expect(replica.world.getEntityByName('child')!.getParent()).toBe(replica.world.getEntityByName('moved target'));
+
+    source.destroyEntity(target);
+    replica.sync();
+
+    expect(replica.describe()).toEqual(serializedEntities(source));
+    expect(replica.world.getEntityByName('moved target')).toBeNull();
+  });
+
+  it('removes referenced entities while adding others', () => {
+    const a = withObject(source, 'a');
+    const b = withObject(source, 'b', new ConstraintComponent());
+    b.getComponent(ConstraintComponent)!.createTrackToConstraint(a);
+    replica.sync();
+
+    source.destroyEntity(a);
+    withObject(source, 'c');
+    const patch = replica.sync();
+
+    expect(patch.removed).toEqual([a.id]);
+    expect(replica.describe()).toEqual(serializedEntities(source));
+  });
+});